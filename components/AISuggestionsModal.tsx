@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { AISuggestion, CtaData } from '../types';
+import {
+    COPY_TONES,
+    CopyOptions,
+    MAX_SUGGESTION_COUNT,
+    MESSAGE_LENGTH_LIMITS,
+    applySuggestion,
+} from '../lib/copyProviders';
+import { COPY_LANGUAGES } from '../lib/copyPrompt.mjs';
+import { PageContent } from '../lib/pageContent';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { CtaComponent } from './CtaComponent';
+import { PageContentPanel } from './PageContentPanel';
+
+/**
+ * AI suggestions for the CTA being edited: what to ask for, the results, and
+ * a live preview of the selected one on top of the current design. A
+ * suggestion replaces the current texts (and design) or becomes a new A/B
+ * variant.
+ */
+export const AISuggestionsModal = ({ base, page, options, onOptionsChange, onGenerate, suggestions, isLoading, error, onSelect, onAddVariant, onClose }: {
+    base: CtaData,
+    /** The target page as the AI saw it; see PageContentPanel. */
+    page: PageContent | null | undefined,
+    options: CopyOptions,
+    onOptionsChange: (options: CopyOptions) => void,
+    onGenerate: () => void,
+    suggestions: AISuggestion[],
+    isLoading: boolean,
+    error: MessageKey | null,
+    onSelect: (suggestion: AISuggestion) => void,
+    /** Missing when no more variants can be added. */
+    onAddVariant?: (suggestion: AISuggestion) => void,
+    onClose: () => void,
+}) => {
+    const { t } = useI18n();
+    const [previewIndex, setPreviewIndex] = useState(0);
+    useEffect(() => setPreviewIndex(0), [suggestions]);
+
+    const update = (changes: Partial<CopyOptions>) => onOptionsChange({ ...options, ...changes });
+    const preview = suggestions[previewIndex];
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content ai-modal" onClick={e => e.stopPropagation()}>
+                <h3>{t('ai.title')}</h3>
+                <div className="ai-options">
+                    <div className="radio-group">
+                        <button className={options.mode === 'copy' ? 'active' : ''} onClick={() => update({ mode: 'copy' })}>{t('ai.copyOnly')}</button>
+                        <button className={options.mode === 'design' ? 'active' : ''} onClick={() => update({ mode: 'design' })}>{t('ai.fullDesign')}</button>
+                    </div>
+                    <label>
+                        {t('ai.tone')}
+                        <select className="font-select" value={options.tone} onChange={e => update({ tone: e.target.value as CopyOptions['tone'] })}>
+                            {COPY_TONES.map(tone => <option key={tone} value={tone}>{t(`tone.${tone}`)}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        {t('ai.language')}
+                        <select className="font-select" value={options.language} onChange={e => update({ language: e.target.value })}>
+                            {COPY_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        {t('ai.maxLength')}
+                        <select className="font-select" value={options.maxMessageLength} onChange={e => update({ maxMessageLength: Number(e.target.value) })}>
+                            {MESSAGE_LENGTH_LIMITS.map(limit => <option key={limit} value={limit}>{t('ai.characters', { count: limit })}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        {t('ai.count')}
+                        <select className="font-select" value={options.count} onChange={e => update({ count: Number(e.target.value) })}>
+                            {Array.from({ length: MAX_SUGGESTION_COUNT }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                        </select>
+                    </label>
+                    <button className="ai-generate" onClick={onGenerate} disabled={isLoading}>{t('ai.generate')}</button>
+                </div>
+                {isLoading ? (
+                    <div className="loading-spinner"></div>
+                ) : error ? (
+                    <p>{t(error)}</p>
+                ) : suggestions.length > 0 ? (
+                    <>
+                        <PageContentPanel content={page} />
+                        {preview && (
+                            <div className="ai-preview" aria-label={t('ai.preview')}>
+                                <CtaComponent data={applySuggestion(base, preview)} />
+                            </div>
+                        )}
+                        <ul>
+                            {suggestions.map((s, i) => (
+                                <li key={i} className={i === previewIndex ? 'active' : ''} onClick={() => setPreviewIndex(i)}>
+                                    <div className="suggestion-text">
+                                        <p><strong>{t('ai.message')}</strong> {s.message}</p>
+                                        <p><strong>{t('ai.buttonText')}</strong> {s.buttonText}</p>
+                                        {s.design && (
+                                            <p className="suggestion-design">
+                                                <span className="suggestion-swatch" style={{ background: s.design.bgColor }}></span>
+                                                <span className="suggestion-swatch" style={{ background: s.design.buttonColor }}></span>
+                                                <span style={{ fontFamily: s.design.fontFamily }}>Аа</span>
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div className="suggestion-actions">
+                                        <button onClick={() => onSelect(s)}>{t('ai.use')}</button>
+                                        <button
+                                            className="suggestion-variant"
+                                            onClick={() => onAddVariant?.(s)}
+                                            disabled={!onAddVariant}
+                                            title={t(onAddVariant ? 'ai.addVariantTitle' : 'ai.variantLimit')}
+                                        >{t('ai.addVariant')}</button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                ) : (
+                    <p>{t('ai.failed')}</p>
+                )}
+                <button className="modal-close-btn" onClick={onClose}>{t('common.close')}</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { CtaData, LinkPayload } from '../types';
+import { decodeLinkPayload, encodeLinkPayload } from '../lib/linkCodec';
+import { parseLinkPayload } from '../lib/payloadSchema';
+import { getEventSink, linkIdFromHash } from '../lib/analytics';
+import { fetchPublishedLink, linkIdFromSlug, slugFromPath } from '../lib/linkService';
+import { AbTestAnalysis, MIN_EXPOSURES, analyzeAbTest, countVariants } from '../lib/abStats';
+import { formatNumber, formatPercent, formatSignedPercent } from '../lib/format';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+type AbPayload = Extract<LinkPayload, { type: 'ab' }>;
+
+const hashFromLink = (link: string) => {
+    const index = link.indexOf('#');
+    return (index >= 0 ? link.slice(index + 1) : link).trim();
+};
+
+const slugFromLink = (link: string) => {
+    try {
+        return slugFromPath(new URL(link.trim()).pathname);
+    } catch {
+        return null;
+    }
+};
+
+/** Loads the payload and analytics bucket of a pasted hash link or short link. */
+const loadLink = async (link: string) => {
+    const slug = slugFromLink(link);
+    if (slug) return { ...(await fetchPublishedLink(slug)), linkId: linkIdFromSlug(slug) };
+    const hash = hashFromLink(link);
+    return { ...(await decodeLinkPayload(hash)), linkId: linkIdFromHash(hash) };
+};
+
+/**
+ * Results for one A/B link: per-variant CTR with confidence intervals, lift
+ * and significance against the first variant (the control), and a "declare
+ * winner" action that turns the chosen variant into a regular single-CTA link.
+ */
+export const AbResultsPanel = ({ initialLink, onOpenInEditor }: {
+    initialLink: string,
+    onOpenInEditor: (data: CtaData & { targetUrl: string }) => void
+}) => {
+    const { locale, t } = useI18n();
+    const [linkInput, setLinkInput] = useState(initialLink);
+    const [payload, setPayload] = useState<AbPayload | null>(null);
+    const [analysis, setAnalysis] = useState<AbTestAnalysis | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [winnerLink, setWinnerLink] = useState<{ name: string; url: string; data: CtaData & { targetUrl: string } } | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        if (initialLink) setLinkInput(initialLink);
+    }, [initialLink]);
+
+    const loadResults = async () => {
+        setError(null);
+        setAnalysis(null);
+        setPayload(null);
+        setWinnerLink(null);
+        if (!linkInput.trim()) return;
+
+        setIsLoading(true);
+        try {
+            const { value, version, linkId } = await loadLink(linkInput);
+            const result = parseLinkPayload(value, version);
+            if (!result.ok || result.value.type !== 'ab') {
+                setError('abResults.notAbLink');
+                return;
+            }
+            const events = await getEventSink().list({ linkId });
+            const counted = countVariants(events, linkId);
+            // Variants nobody has seen yet still get a row.
+            const counts = result.value.variants.map(({ key }) =>
+                counted.find(c => c.key === key) ?? { key, exposures: 0, impressions: 0, clicks: 0 });
+            setPayload(result.value);
+            setAnalysis(analyzeAbTest(counts));
+        } catch (e) {
+            console.error("Failed to load A/B results:", e);
+            setError('abResults.loadFailed');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const declareWinner = async (index: number) => {
+        if (!payload || !analysis) return;
+        const { key, name, data: variantData } = payload.variants[index];
+        if (analysis.winner !== key && !confirm(t('abResults.confirmWinner', { name }))) {
+            return;
+        }
+        const data = { ...variantData, targetUrl: payload.targetUrl };
+        // Display mode and schedule belong to the link, not the variant, so the winner keeps them.
+        const single: LinkPayload = {
+            type: 'single',
+            data,
+            ...(payload.fallback ? { fallback: payload.fallback } : {}),
+            ...(payload.schedule ? { schedule: payload.schedule } : {}),
+        };
+        setError(null);
+        try {
+            const encoded = await encodeLinkPayload(single);
+            setWinnerLink({ name, data, url: `${window.location.origin}${window.location.pathname}#${encoded}` });
+        } catch (e) {
+            console.error("Failed to create the winner link:", e);
+            setWinnerLink(null);
+            setError('abResults.winnerFailed');
+        }
+    };
+
+    const variantName = (key: string) => payload?.variants.find(v => v.key === key)?.name || key;
+
+    const handleCopy = () => {
+        if (!winnerLink) return;
+        navigator.clipboard.writeText(winnerLink.url).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        });
+    };
+
+    return (
+        <div className="ab-results">
+            <div className="form-divider">{t('abResults.title')}</div>
+            <div className="form-group">
+                <label htmlFor="abResultsLink">{t('abResults.link')}</label>
+                <input id="abResultsLink" type="text" placeholder={t('abResults.linkPlaceholder')} value={linkInput} onChange={e => setLinkInput(e.target.value)} />
+                <button className="preview-update-btn" onClick={loadResults} disabled={!linkInput || isLoading}>{t('abResults.show')}</button>
+            </div>
+            {isLoading && <div className="loading-spinner"></div>}
+            {error && <p className="field-error">{t(error)}</p>}
+            {analysis && (
+                <>
+                    <table className="ab-results-table">
+                        <thead>
+                            <tr>
+                                <th>{t('abResults.variant')}</th>
+                                <th>{t('abResults.exposures')}</th>
+                                <th>{t('abResults.impressions')}</th>
+                                <th>{t('abResults.clicks')}</th>
+                                <th>{t('abResults.ctr')}</th>
+                                <th>{t('abResults.lift')}</th>
+                                <th>p</th>
+                                <th>{t('abResults.beatControl')}</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {analysis.variants.map((v, i) => (
+                                <tr key={v.key} className={analysis.winner === v.key ? 'winner' : ''}>
+                                    <td title={v.key}>{variantName(v.key)}{analysis.winner === v.key && ' 🏆'}</td>
+                                    <td>{formatNumber(v.exposures, locale)}</td>
+                                    <td>{formatNumber(v.impressions, locale)}</td>
+                                    <td>{formatNumber(v.clicks, locale)}</td>
+                                    <td>
+                                        {formatPercent(v.ctr, 2, locale)}
+                                        <span className="ab-interval">{formatPercent(v.ctrInterval.low, 1, locale)}–{formatPercent(v.ctrInterval.high, 1, locale)}</span>
+                                    </td>
+                                    <td>{v.lift === null ? '—' : formatSignedPercent(v.lift, 1, locale)}</td>
+                                    <td>{v.pValue === null ? '—' : formatNumber(v.pValue, locale, 3)}</td>
+                                    <td>{v.probabilityToBeatControl === null ? '—' : formatPercent(v.probabilityToBeatControl, 0, locale)}</td>
+                                    <td><button className="ab-declare-btn" onClick={() => declareWinner(i)}>{t('abResults.declareWinner')}</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="ab-verdict">
+                        {!analysis.enoughData
+                            ? t('abResults.notEnoughData', { count: MIN_EXPOSURES })
+                            : analysis.winner
+                                ? t('abResults.winner', { name: variantName(analysis.winner) })
+                                : t('abResults.noDifference')}
+                    </p>
+                </>
+            )}
+            {winnerLink && (
+                <div className="ab-winner">
+                    <p>{t('abResults.winnerLink', { name: winnerLink.name })}</p>
+                    <div className="generated-link-container">
+                        <input type="text" readOnly value={winnerLink.url} />
+                        <button onClick={handleCopy}>{t(copied ? 'common.copied' : 'common.copy')}</button>
+                    </div>
+                    <button className="preview-update-btn" onClick={() => onOpenInEditor(winnerLink.data)}>{t('common.openInEditor')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { AbVariant } from '../types';
+import { normalizeWeights } from '../lib/abAssignment';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Variant list for the A/B tab: switch between variants, add, duplicate,
+ * rename, delete and set each variant's share of traffic.
+ */
+export const AbVariantManager = ({
+    variants,
+    activeKey,
+    canAdd,
+    canDelete,
+    onSelect,
+    onAdd,
+    onDuplicate,
+    onRename,
+    onDelete,
+    onWeightChange,
+}: {
+    variants: AbVariant[],
+    activeKey: string,
+    canAdd: boolean,
+    canDelete: boolean,
+    onSelect: (key: string) => void,
+    onAdd: () => void,
+    onDuplicate: (key: string) => void,
+    onRename: (key: string, name: string) => void,
+    onDelete: (key: string) => void,
+    onWeightChange: (key: string, weight: number) => void,
+}) => {
+    const { t } = useI18n();
+    const shares = normalizeWeights(variants.map(v => v.weight), variants.length);
+    const active = variants.find(v => v.key === activeKey) ?? variants[0];
+
+    return (
+        <div className="ab-variant-manager">
+            <div className="ab-variant-switcher">
+                {variants.map((v, i) => (
+                    <button key={v.key} className={v.key === active.key ? 'active' : ''} onClick={() => onSelect(v.key)} title={v.name}>
+                        <span className="ab-variant-name">{v.name || v.key}</span>
+                        <span className="ab-variant-share">{Math.round(shares[i] * 100)}%</span>
+                    </button>
+                ))}
+                <button className="ab-variant-add" onClick={onAdd} disabled={!canAdd} title={t('ab.addVariant')}>+</button>
+            </div>
+            <div className="form-group ab-variant-details">
+                <div>
+                    <label htmlFor="variantName">{t('ab.variantName')}</label>
+                    <input id="variantName" type="text" value={active.name} maxLength={60} onChange={e => onRename(active.key, e.target.value)} />
+                </div>
+                <div>
+                    <label htmlFor="variantWeight">{t('ab.weight')}</label>
+                    <input id="variantWeight" type="number" min={0} max={1000} step={1} value={active.weight} onChange={e => onWeightChange(active.key, Number(e.target.value) || 0)} />
+                </div>
+            </div>
+            <div className="ab-variant-actions">
+                <button onClick={() => onDuplicate(active.key)} disabled={!canAdd}>{t('common.duplicate')}</button>
+                <button onClick={() => confirm(t('common.confirmDelete', { name: active.name })) && onDelete(active.key)} disabled={!canDelete}>{t('common.delete')}</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CtaData } from '../types';
+import {
+    BrandKit,
+    CtaTemplate,
+    applyBrandKit,
+    applyTemplate,
+    brandKitFromData,
+    builtInTemplates,
+    deleteBrandKit,
+    deleteTemplate,
+    importBrandAssets,
+    listBrandKits,
+    listTemplates,
+    parseBrandAssets,
+    saveBrandKit,
+    saveTemplate,
+    serializeBrandAssets,
+    templateFromData,
+} from '../lib/brandKits';
+import { useI18n } from '../hooks/useI18n';
+
+export interface ApplyTarget {
+    /** 'single' for the single-link draft, otherwise an A/B variant key. */
+    key: string;
+    name: string;
+}
+
+const downloadJson = (filename: string, json: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Saved brand kits and the template gallery. Applying goes through `onApply`,
+ * so it is a regular (undoable) edit of whichever draft or variant is picked.
+ */
+export const BrandKitPanel = ({ data, targets, activeTarget, onApply }: {
+    data: CtaData,
+    targets: ApplyTarget[],
+    activeTarget: string,
+    onApply: (targetKey: string, transform: (data: CtaData) => CtaData) => void,
+}) => {
+    const { t } = useI18n();
+    const [kits, setKits] = useState<BrandKit[]>([]);
+    const [templates, setTemplates] = useState<CtaTemplate[]>([]);
+    const [target, setTarget] = useState(activeTarget);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const reload = () =>
+        Promise.all([listBrandKits(), listTemplates()])
+            .then(([k, ts]) => { setKits(k); setTemplates(ts); })
+            .catch(e => console.error("Failed to load brand kits:", e));
+
+    useEffect(() => { reload(); }, []);
+    useEffect(() => setTarget(activeTarget), [activeTarget]);
+
+    const targetKey = targets.some(item => item.key === target) ? target : activeTarget;
+
+    const handleSaveKit = () => {
+        const name = prompt(t('brand.kitName'))?.trim();
+        if (!name) return;
+        saveBrandKit(brandKitFromData(name, data)).then(reload).catch(e => console.error("Failed to save brand kit:", e));
+    };
+
+    const handleSaveTemplate = () => {
+        const name = prompt(t('brand.templateName'))?.trim();
+        if (!name) return;
+        saveTemplate(templateFromData(name, data)).then(reload).catch(e => console.error("Failed to save template:", e));
+    };
+
+    const handleDeleteKit = (kit: BrandKit) => {
+        if (!confirm(t('brand.confirmDeleteKit', { name: kit.name }))) return;
+        deleteBrandKit(kit.id).then(reload).catch(e => console.error("Failed to delete brand kit:", e));
+    };
+
+    const handleDeleteTemplate = (template: CtaTemplate) => {
+        if (!confirm(t('brand.confirmDeleteTemplate', { name: template.name }))) return;
+        deleteTemplate(template.id).then(reload).catch(e => console.error("Failed to delete template:", e));
+    };
+
+    const handleExport = () => downloadJson('sniply-brand-kits.json', serializeBrandAssets({ brandKits: kits, templates }));
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const result = parseBrandAssets(await file.text());
+        if (!result.ok) {
+            alert(t('brand.importInvalid', { errors: result.errors.slice(0, 5).map(err => `${err.path}: ${t(err.message, err.params)}`).join('\n') }));
+            return;
+        }
+        try {
+            await importBrandAssets(result.value);
+            await reload();
+            alert(t('brand.imported', {
+                kits: t('brand.importedKits', { count: result.value.brandKits.length }),
+                templates: t('brand.importedTemplates', { count: result.value.templates.length }),
+            }));
+        } catch (err) {
+            console.error("Failed to import brand kits:", err);
+            alert(t('brand.importFailed'));
+        }
+    };
+
+    return (
+        <details className="brand-panel">
+            <summary>{t('brand.title')}</summary>
+            {targets.length > 1 && (
+                <div className="form-group">
+                    <label htmlFor="brandTarget">{t('brand.applyTo')}</label>
+                    <select id="brandTarget" value={targetKey} onChange={e => setTarget(e.target.value)}>
+                        {targets.map(item => <option key={item.key} value={item.key}>{item.name}</option>)}
+                    </select>
+                </div>
+            )}
+
+            <div className="brand-section-header">
+                <span>{t('brand.kits')}</span>
+                <button onClick={handleSaveKit}>{t('brand.saveKit')}</button>
+            </div>
+            {kits.length === 0 ? (
+                <p className="brand-empty">{t('brand.noKits')}</p>
+            ) : (
+                <ul className="brand-kit-list">
+                    {kits.map(kit => (
+                        <li key={kit.id}>
+                            <span className="brand-swatch" style={{ background: kit.bgColor, borderRadius: `${kit.cornerRadius}px` }}>
+                                <span style={{ background: kit.btnColor }}></span>
+                            </span>
+                            <span className="brand-kit-name" style={{ fontFamily: kit.fontFamily }}>{kit.name}</span>
+                            <button onClick={() => onApply(targetKey, current => applyBrandKit(current, kit))}>{t('brand.apply')}</button>
+                            <button className="brand-delete" onClick={() => handleDeleteKit(kit)} title={t('common.delete')}>×</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="brand-section-header">
+                <span>{t('brand.templates')}</span>
+                <button onClick={handleSaveTemplate}>{t('brand.saveTemplate')}</button>
+            </div>
+            <div className="template-gallery">
+                {[...builtInTemplates(t), ...templates].map(template => (
+                    <div key={template.id} className="template-card">
+                        <button
+                            className="template-preview"
+                            style={{ background: template.data.bgColor, color: template.data.theme === 'dark' ? '#fff' : '#1c1e21', fontFamily: template.data.fontFamily, borderRadius: `${template.data.cornerRadius}px` }}
+                            onClick={() => onApply(targetKey, current => applyTemplate(current, template))}
+                            title={t('brand.applyTemplate')}
+                        >
+                            <span className="template-message">{template.data.message}</span>
+                            {template.data.buttons[0] && <span className="template-button" style={{ background: template.data.buttons[0].color }}>{template.data.buttons[0].text}</span>}
+                        </button>
+                        <div className="template-name">
+                            <span>{template.name}</span>
+                            {!template.builtIn && <button className="brand-delete" onClick={() => handleDeleteTemplate(template)} title={t('common.delete')}>×</button>}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="brand-transfer">
+                <button onClick={handleExport} disabled={!kits.length && !templates.length}>{t('brand.export')}</button>
+                <button onClick={() => fileInputRef.current?.click()}>{t('brand.import')}</button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+            </div>
+        </details>
+    );
+};
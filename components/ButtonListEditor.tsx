@@ -0,0 +1,116 @@
+import React from 'react';
+import { CtaButton, CtaButtonAction, CtaButtonStyle, CtaData } from '../types';
+import {
+    BUTTON_ACTIONS,
+    BUTTON_STYLES,
+    BUTTON_TARGET_PLACEHOLDERS,
+    MAX_CTA_BUTTONS,
+    buttonTargetError,
+    newButton,
+    updateButton,
+} from '../lib/ctaButtons';
+import { CtaDataSetter } from '../hooks/useVariantStore';
+import { useI18n } from '../hooks/useI18n';
+import { UtmBuilder } from './UtmBuilder';
+
+/**
+ * The CTA's buttons in CtaForm: text, what a click does, look, and order.
+ * A lead form submits with its first button, so there only its text and color
+ * are edited and no more buttons can be added.
+ */
+export const ButtonListEditor = ({ data, setData, leadForm, autoUtmContent }: {
+    data: CtaData,
+    setData: CtaDataSetter,
+    leadForm?: boolean,
+    autoUtmContent?: boolean,
+}) => {
+    const { t } = useI18n();
+    const buttons = leadForm ? data.buttons.slice(0, 1) : data.buttons;
+
+    // Typing into one button's field is a single undo step, like the other form fields.
+    const update = (id: string, changes: Partial<CtaButton>, field: keyof CtaButton) =>
+        setData(prev => updateButton(prev, id, changes), { key: `field:buttons:${id}:${field}` });
+
+    const setButtons = (next: (buttons: CtaButton[]) => CtaButton[]) =>
+        setData(prev => ({ ...prev, buttons: next(prev.buttons) }));
+
+    const move = (index: number, by: number) => setButtons(list => {
+        const next = [...list];
+        [next[index], next[index + by]] = [next[index + by], next[index]];
+        return next;
+    });
+
+    const add = () => setButtons(list => [...list, newButton({ text: t('button.default'), style: list.length ? 'secondary' : 'primary', color: list[0]?.color })]);
+
+    return (
+        <div className="form-group button-list">
+            <label>{t(leadForm ? 'buttons.submit' : 'buttons.title')}</label>
+            {buttons.map((button, index) => {
+                const targetError = buttonTargetError(button);
+                return (
+                    <div key={button.id} className="button-editor">
+                        <div className="button-editor-row">
+                            <input
+                                type="text"
+                                placeholder={t('buttons.textPlaceholder')}
+                                aria-label={t('buttons.text')}
+                                value={button.text}
+                                onChange={e => update(button.id, { text: e.target.value }, 'text')}
+                            />
+                            <input
+                                type="color"
+                                aria-label={t('buttons.color')}
+                                title={t('buttons.color')}
+                                value={button.color}
+                                onChange={e => update(button.id, { color: e.target.value }, 'color')}
+                            />
+                            {!leadForm && (
+                                <span className="button-editor-order">
+                                    <button onClick={() => move(index, -1)} disabled={index === 0} title={t('common.up')}>↑</button>
+                                    <button onClick={() => move(index, 1)} disabled={index === buttons.length - 1} title={t('common.down')}>↓</button>
+                                    <button className="brand-delete" onClick={() => setButtons(list => list.filter(b => b.id !== button.id))} disabled={buttons.length === 1} title={t('common.delete')}>×</button>
+                                </span>
+                            )}
+                        </div>
+                        {!leadForm && (
+                            <>
+                                <div className="button-editor-row">
+                                    <select
+                                        className="font-select"
+                                        aria-label={t('buttons.action')}
+                                        value={button.action}
+                                        onChange={e => update(button.id, { action: e.target.value as CtaButtonAction }, 'action')}
+                                    >
+                                        {BUTTON_ACTIONS.map(action => <option key={action} value={action}>{t(`button.action.${action}`)}</option>)}
+                                    </select>
+                                    <select
+                                        className="font-select"
+                                        aria-label={t('buttons.style')}
+                                        value={button.style}
+                                        onChange={e => update(button.id, { style: e.target.value as CtaButtonStyle }, 'style')}
+                                    >
+                                        {BUTTON_STYLES.map(style => <option key={style} value={style}>{t(`button.style.${style}`)}</option>)}
+                                    </select>
+                                </div>
+                                <input
+                                    type={button.action === 'url' ? 'url' : button.action === 'mailto' ? 'email' : button.action === 'telegram' ? 'text' : 'tel'}
+                                    placeholder={BUTTON_TARGET_PLACEHOLDERS[button.action]}
+                                    aria-label={t(`button.target.${button.action}`)}
+                                    value={button.target}
+                                    onChange={e => update(button.id, { target: e.target.value }, 'target')}
+                                />
+                                {button.action === 'url' && (
+                                    <UtmBuilder url={button.target} onChange={url => update(button.id, { target: url }, 'target')} autoContent={autoUtmContent} />
+                                )}
+                                {targetError && <p className="field-error">{t(targetError)}</p>}
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+            {!leadForm && data.buttons.length < MAX_CTA_BUTTONS && (
+                <button className="button-add" onClick={add}>{t('buttons.add')}</button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { COPY_PROVIDERS, COPY_PROVIDER_IDS, CopyProviderId, CopySettings } from '../lib/copyProviders';
+import { useI18n } from '../hooks/useI18n';
+
+/** The creator's settings tab: which AI service writes copy suggestions. */
+export const CopySettingsView = ({ settings, onChange }: { settings: CopySettings, onChange: (settings: CopySettings) => void }) => {
+    const { t } = useI18n();
+    const provider = COPY_PROVIDERS[settings.provider];
+    const update = (changes: Partial<CopySettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="settings-view">
+            <section className="settings-section">
+                <h3>{t('settings.aiTitle')}</h3>
+                <div className="form-group">
+                    <label htmlFor="copyProvider">{t('settings.provider')}</label>
+                    <select
+                        id="copyProvider"
+                        className="font-select"
+                        value={settings.provider}
+                        // Model names don't carry over between services.
+                        onChange={e => update({ provider: e.target.value as CopyProviderId, model: '' })}
+                    >
+                        {COPY_PROVIDER_IDS.map(id => <option key={id} value={id}>{t(`copyProvider.${id}`)}</option>)}
+                    </select>
+                </div>
+                {settings.provider !== 'mock' && (
+                    <div className="form-group">
+                        <label htmlFor="copyModel">{t('settings.model')}</label>
+                        <input id="copyModel" type="text" placeholder={provider.defaultModel} value={settings.model} onChange={e => update({ model: e.target.value })} />
+                    </div>
+                )}
+                {settings.provider === 'gemini' && (
+                    <p className="schedule-hint">{t('settings.geminiHint')}</p>
+                )}
+                {settings.provider === 'openai' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="copyBaseUrl">{t('settings.baseUrl')}</label>
+                            <input id="copyBaseUrl" type="url" placeholder="http://localhost:11434/v1" value={settings.baseUrl} onChange={e => update({ baseUrl: e.target.value })} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="copyApiKey">{t('settings.apiKey')}</label>
+                            <input id="copyApiKey" type="password" autoComplete="off" placeholder={t('settings.apiKeyPlaceholder')} value={settings.apiKey} onChange={e => update({ apiKey: e.target.value })} />
+                        </div>
+                        <p className="schedule-hint">{t('settings.openAiHint')}</p>
+                    </>
+                )}
+                {settings.provider === 'mock' && (
+                    <p className="schedule-hint">{t('settings.mockHint')}</p>
+                )}
+            </section>
+        </div>
+    );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { DEFAULT_CTA_ANIMATION } from '../lib/ctaBehavior';
+import { DEFAULT_CTA_LAYOUT, isPositionedLayout } from '../lib/ctaLayouts';
+import { useCtaPlacement } from '../hooks/useCtaPlacement';
+import { useI18n } from '../hooks/useI18n';
+import { CTA_LAYOUT_REGISTRY, CtaLayoutProps, CtaTheme } from './ctaLayouts';
+
+/**
+ * The main CTA visual component. Used in both preview and the final viewer.
+ * It owns what every format shares (theme, size, placement, entrance and the
+ * close button) and hands the inside to the format's renderer.
+ */
+export const CtaComponent = ({ data, onDismiss, ...rest }: Omit<CtaLayoutProps, 'theme'> & { onDismiss?: () => void }) => {
+    const { t } = useI18n();
+    const layout = data.layout || DEFAULT_CTA_LAYOUT;
+    const { Render, alwaysDismissible } = CTA_LAYOUT_REGISTRY[layout];
+    const positioned = isPositionedLayout(layout);
+    const dismissible = data.dismissible || alwaysDismissible;
+    const placement = positioned && data.position === 'custom' ? data.customPosition : undefined;
+    const { ref, point } = useCtaPlacement(placement, data.scale ?? 1);
+
+    const theme: CtaTheme = data.theme === 'dark'
+        ? { color: '#ffffff', logoFilter: 'brightness(0) invert(1)', containerClass: 'cta-dark' }
+        : { color: '#1c1e21', logoFilter: '', containerClass: 'cta-light' };
+
+    const containerStyle: React.CSSProperties & { '--cta-scale': number } = {
+        backgroundColor: data.bgColor || '#ffffff',
+        fontFamily: data.fontFamily || "'Inter', sans-serif",
+        borderRadius: `${data.cornerRadius ?? 8}px`,
+        '--cta-scale': data.scale ?? 1,
+    };
+
+    if (placement) {
+        containerStyle.position = 'absolute';
+        containerStyle.left = `${point?.x ?? 0}px`;
+        containerStyle.top = `${point?.y ?? 0}px`;
+        containerStyle.bottom = 'auto'; // override default position
+        containerStyle.right = 'auto'; // override default position
+    }
+
+    const className = [
+        'cta-container',
+        `cta-layout-${layout}`,
+        positioned && `cta-position-${data.position || 'bottom-left'}`,
+        `cta-anim-${data.animation || DEFAULT_CTA_ANIMATION}`,
+        theme.containerClass,
+        dismissible && 'cta-dismissible',
+    ].filter(Boolean).join(' ');
+
+    const container = (
+        <div ref={ref} className={className} style={containerStyle}>
+            {dismissible && (
+                <button
+                    className="cta-dismiss"
+                    style={{ color: theme.color }}
+                    onPointerDown={e => e.stopPropagation()}
+                    onClick={e => { e.stopPropagation(); onDismiss?.(); }}
+                    aria-label={t('common.close')}
+                    title={t('common.close')}
+                >×</button>
+            )}
+            <Render data={data} theme={theme} {...rest} />
+        </div>
+    );
+
+    return layout === 'modal' ? <div className="cta-modal-backdrop">{container}</div> : container;
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { FramingFallback } from '../types';
+import { INTERSTITIAL_SECONDS } from '../lib/framing';
+import { useI18n } from '../hooks/useI18n';
+
+const hostnameOf = (url: string) => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+};
+
+const faviconOf = (url: string) => {
+    try {
+        return new URL('/favicon.ico', url).href;
+    } catch {
+        return undefined;
+    }
+};
+
+const RedirectInterstitial = ({ targetUrl, children }: { targetUrl: string, children: React.ReactNode }) => {
+    const { t } = useI18n();
+    const [secondsLeft, setSecondsLeft] = useState(INTERSTITIAL_SECONDS);
+
+    useEffect(() => {
+        if (secondsLeft <= 0) {
+            window.location.replace(targetUrl);
+            return;
+        }
+        const timer = setTimeout(() => setSecondsLeft(s => s - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [secondsLeft, targetUrl]);
+
+    return (
+        <div className="framing-interstitial">
+            <div className="framing-interstitial-card">
+                <p>{t('framing.redirectIn', { host: hostnameOf(targetUrl), seconds: Math.max(0, secondsLeft) })}</p>
+                <a className="framing-open-btn" href={targetUrl}>{t('framing.goNow')}</a>
+            </div>
+            {children}
+        </div>
+    );
+};
+
+const PreviewCard = ({ targetUrl, children }: { targetUrl: string, children: React.ReactNode }) => {
+    const { t } = useI18n();
+    const [hasFavicon, setHasFavicon] = useState(true);
+    const favicon = faviconOf(targetUrl);
+
+    return (
+        <div className="framing-preview">
+            <a className="framing-preview-card" href={targetUrl} target="_blank" rel="noopener noreferrer">
+                {favicon && hasFavicon && <img src={favicon} alt="" onError={() => setHasFavicon(false)} />}
+                <strong>{hostnameOf(targetUrl)}</strong>
+                <span>{targetUrl}</span>
+                <em>{t('framing.openPage')}</em>
+            </a>
+            {children}
+        </div>
+    );
+};
+
+const NewTabBar = ({ targetUrl, children }: { targetUrl: string, children: React.ReactNode }) => {
+    const { t } = useI18n();
+    return (
+        <div className="framing-newtab">
+            <div className="framing-newtab-bar">
+                <span>{t('framing.refused', { host: hostnameOf(targetUrl) })}</span>
+                <a className="framing-open-btn" href={targetUrl} target="_blank" rel="noopener noreferrer">{t('framing.openInNewTab')}</a>
+            </div>
+            {children}
+        </div>
+    );
+};
+
+/**
+ * Replaces the target iframe when the page refuses to be framed. `children` is
+ * the CTA, which every mode keeps on screen.
+ */
+export const FramingFallbackView = ({ mode, targetUrl, children }: { mode: FramingFallback, targetUrl: string, children: React.ReactNode }) => {
+    switch (mode) {
+        case 'interstitial':
+            return <RedirectInterstitial targetUrl={targetUrl}>{children}</RedirectInterstitial>;
+        case 'preview-card':
+            return <PreviewCard targetUrl={targetUrl}>{children}</PreviewCard>;
+        case 'new-tab-bar':
+        default:
+            return <NewTabBar targetUrl={targetUrl}>{children}</NewTabBar>;
+    }
+};
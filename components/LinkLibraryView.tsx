@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LinkPayload } from '../types';
+import {
+    SavedLink,
+    deleteLink,
+    duplicateLink,
+    listLinks,
+    parseTags,
+    payloadTargetUrl,
+    searchLinks,
+    updateLink,
+} from '../lib/linkLibrary';
+import { formatDate } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+const LinkCard = ({ link, onChange, onDuplicate, onDelete, onOpen }: {
+    link: SavedLink,
+    onChange: (changes: Partial<Pick<SavedLink, 'name' | 'tags' | 'archived'>>) => void,
+    onDuplicate: () => void,
+    onDelete: () => void,
+    onOpen: () => void
+}) => {
+    const { locale, t } = useI18n();
+    const [name, setName] = useState(link.name);
+    const [tags, setTags] = useState(link.tags.join(', '));
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        setName(link.name);
+        setTags(link.tags.join(', '));
+    }, [link.name, link.tags]);
+
+    const commitName = () => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== link.name) onChange({ name: trimmed });
+        else setName(link.name);
+    };
+
+    const commitTags = () => {
+        const parsed = parseTags(tags);
+        if (parsed.join(',') !== link.tags.join(',')) onChange({ tags: parsed });
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(link.url).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        });
+    };
+
+    return (
+        <div className={`library-card ${link.archived ? 'archived' : ''}`}>
+            <div className="library-card-header">
+                <input className="library-name" value={name} onChange={e => setName(e.target.value)} onBlur={commitName} onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()} />
+                <span className="library-badge">{link.payload.type === 'ab' ? `A/B · ${link.payload.variants.length}` : 'CTA'}</span>
+                {link.slug && <span className="library-badge" title={t(link.editToken ? 'library.editable' : 'library.copyNotEditable')}>{t('library.short')}</span>}
+            </div>
+            <div className="library-meta">
+                <span>{formatDate(link.createdAt, locale)}</span>
+                <span className="library-target" title={payloadTargetUrl(link.payload)}>{payloadTargetUrl(link.payload)}</span>
+            </div>
+            <input className="library-tags" placeholder={t('library.tags')} value={tags} onChange={e => setTags(e.target.value)} onBlur={commitTags} />
+            <div className="generated-link-container">
+                <input type="text" readOnly value={link.url} />
+                <button onClick={handleCopy}>{t(copied ? 'common.copied' : 'common.copy')}</button>
+            </div>
+            <div className="library-actions">
+                <button onClick={onOpen}>{t('common.openInEditor')}</button>
+                <button onClick={onDuplicate}>{t('common.duplicate')}</button>
+                <button onClick={() => onChange({ archived: !link.archived })}>{t(link.archived ? 'library.restore' : 'library.toArchive')}</button>
+                <button className="danger" onClick={() => confirm(t('common.confirmDelete', { name: link.name })) && onDelete()}>{t('common.delete')}</button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * The "My links" tab: every generated link, searchable by name, tag and target
+ * URL, with rename/tag, duplicate, archive, delete and re-open in the editor.
+ */
+export const LinkLibraryView = ({ onOpenInEditor }: { onOpenInEditor: (payload: LinkPayload, link: SavedLink) => void }) => {
+    const { t } = useI18n();
+    const [links, setLinks] = useState<SavedLink[] | null>(null);
+    const [query, setQuery] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+    const [loadError, setLoadError] = useState(false);
+
+    useEffect(() => {
+        listLinks()
+            .then(setLinks)
+            .catch(e => {
+                console.error("Failed to load saved links:", e);
+                setLoadError(true);
+            });
+    }, []);
+
+    const visible = useMemo(
+        () => searchLinks(links ?? [], query).filter(l => l.archived === showArchived),
+        [links, query, showArchived],
+    );
+
+    const replace = (updated: SavedLink) => setLinks(prev => prev?.map(l => l.id === updated.id ? updated : l) ?? null);
+
+    const handleChange = (link: SavedLink, changes: Partial<Pick<SavedLink, 'name' | 'tags' | 'archived'>>) =>
+        updateLink(link, changes).then(replace).catch(e => console.error("Failed to update link:", e));
+
+    const handleDuplicate = (link: SavedLink) =>
+        duplicateLink(link, t('defaults.copyName', { name: link.name })).then(copy => setLinks(prev => [copy, ...(prev ?? [])])).catch(e => console.error("Failed to duplicate link:", e));
+
+    const handleDelete = (link: SavedLink) =>
+        deleteLink(link.id).then(() => setLinks(prev => prev?.filter(l => l.id !== link.id) ?? null)).catch(e => console.error("Failed to delete link:", e));
+
+    return (
+        <div className="library-view">
+            <div className="analytics-header">
+                <h2>{t('tabs.library')}</h2>
+                <p>{t('library.subtitle')}</p>
+            </div>
+            <div className="library-toolbar">
+                <input type="search" placeholder={t('library.search')} value={query} onChange={e => setQuery(e.target.value)} />
+                <div className="radio-group">
+                    <button className={!showArchived ? 'active' : ''} onClick={() => setShowArchived(false)}>{t('library.active')}</button>
+                    <button className={showArchived ? 'active' : ''} onClick={() => setShowArchived(true)}>{t('library.archive')}</button>
+                </div>
+            </div>
+            {loadError ? (
+                <div className="analytics-empty">{t('library.loadFailed')}</div>
+            ) : links === null ? (
+                <div className="loading-spinner"></div>
+            ) : visible.length === 0 ? (
+                <div className="analytics-empty">{t(links.length === 0 ? 'library.empty' : 'library.nothingFound')}</div>
+            ) : (
+                <ul className="library-list">
+                    {visible.map(link => (
+                        <li key={link.id}>
+                            <LinkCard
+                                link={link}
+                                onChange={changes => handleChange(link, changes)}
+                                onDuplicate={() => handleDuplicate(link)}
+                                onDelete={() => handleDelete(link)}
+                                onOpen={() => onOpenInEditor(link.payload, link)}
+                            />
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { PageContent } from '../lib/pageContent';
+import { useI18n } from '../hooks/useI18n';
+
+const EXCERPT_LENGTH = 400;
+const SHOWN_HEADINGS = 6;
+
+/**
+ * What the AI was told about the target page, so the user can judge the
+ * suggestions. `content` is null when the page couldn't be read and undefined
+ * when page reading isn't set up; either way the AI only saw the URL.
+ */
+export const PageContentPanel = ({ content }: { content: PageContent | null | undefined }) => {
+    const { t } = useI18n();
+    if (!content) {
+        return (
+            <p className="schedule-hint page-content-missing">
+                {t(content === null ? 'page.unreadable' : 'page.unavailable')}
+            </p>
+        );
+    }
+    const { title, description, openGraph, headings, text } = content;
+    return (
+        <details className="page-content">
+            <summary>{t('page.summary', { title: title || openGraph.title || content.url })}</summary>
+            <dl>
+                {openGraph.site_name && <><dt>{t('page.site')}</dt><dd>{openGraph.site_name}</dd></>}
+                {(description || openGraph.description) && <><dt>{t('page.description')}</dt><dd>{description || openGraph.description}</dd></>}
+                {headings.length > 0 && (
+                    <>
+                        <dt>{t('page.headings')}</dt>
+                        <dd>
+                            <ul>{headings.slice(0, SHOWN_HEADINGS).map((h, i) => <li key={i}>{h}</li>)}</ul>
+                        </dd>
+                    </>
+                )}
+                {text && <><dt>{t('page.text')}</dt><dd>{text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text}</dd></>}
+            </dl>
+        </details>
+    );
+};
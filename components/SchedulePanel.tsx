@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { CtaData, LinkSchedule, ScheduleFallback } from '../types';
+import {
+    SCHEDULE_FALLBACK_TYPES,
+    fromDateTimeLocal,
+    isEmptySchedule,
+    scheduleStatus,
+    toDateTimeLocal,
+} from '../lib/schedule';
+import { urlFieldError } from '../lib/urlPolicy';
+import { isUsingLocalSink } from '../lib/analytics';
+import { BUTTON_TARGET_PLACEHOLDERS, buttonTargetError, updateButton } from '../lib/ctaButtons';
+import { useI18n } from '../hooks/useI18n';
+
+const STATUS_REFRESH_MS = 30_000;
+
+/**
+ * The schedule section of the creator form: active window, impression cap
+ * and what visitors get outside them. `baseData` seeds the alternate CTA.
+ */
+export const SchedulePanel = ({ schedule, baseData, onChange }: {
+    schedule: LinkSchedule,
+    baseData: CtaData,
+    onChange: (schedule: LinkSchedule) => void,
+}) => {
+    const { t } = useI18n();
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), STATUS_REFRESH_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    const update = (changes: Partial<LinkSchedule>) => onChange({ ...schedule, ...changes });
+
+    const setFallbackType = (type: ScheduleFallback['type']) => {
+        if (type === schedule.fallback.type) return;
+        const fallback: ScheduleFallback =
+            type === 'alternate' ? { type, data: { ...baseData, message: t('defaults.fallbackMessage') } }
+            : type === 'redirect' ? { type, url: '' }
+            : { type };
+        update({ fallback });
+    };
+
+    const fallback = schedule.fallback;
+
+    const updateAlternate = (change: (data: CtaData) => CtaData) => {
+        if (schedule.fallback.type !== 'alternate') return;
+        update({ fallback: { type: 'alternate', data: change(schedule.fallback.data) } });
+    };
+
+    // The alternate CTA is kept simple: its message and first button are editable here.
+    const alternateButton = fallback.type === 'alternate' ? fallback.data.buttons[0] : undefined;
+    const alternateTargetError = alternateButton ? buttonTargetError(alternateButton) : null;
+
+    const status = scheduleStatus(schedule, now);
+    const invalidWindow = schedule.activeFrom !== undefined && schedule.expiresAt !== undefined && schedule.expiresAt <= schedule.activeFrom;
+    const redirectError = fallback.type === 'redirect' ? urlFieldError(fallback.url) : null;
+    // Without a collector each visitor's browser only sees its own impressions, so
+    // a limit can't be enforced per link. A limit already on the link stays editable so it can be removed.
+    const capUnavailable = isUsingLocalSink();
+
+    return (
+        <details className="schedule-panel" open={!isEmptySchedule(schedule)}>
+            <summary>
+                {t('schedule.title')}
+                {!isEmptySchedule(schedule) && <span className={`schedule-status ${status}`}>{t(`schedule.status.${status}`)}</span>}
+            </summary>
+            <div className="schedule-window">
+                <div className="form-group">
+                    <label htmlFor="activeFrom">{t('schedule.activeFrom')}</label>
+                    <input id="activeFrom" type="datetime-local" value={toDateTimeLocal(schedule.activeFrom)} onChange={e => update({ activeFrom: fromDateTimeLocal(e.target.value) })} />
+                </div>
+                <div className="form-group">
+                    <label htmlFor="expiresAt">{t('schedule.expiresAt')}</label>
+                    <input id="expiresAt" type="datetime-local" value={toDateTimeLocal(schedule.expiresAt)} onChange={e => update({ expiresAt: fromDateTimeLocal(e.target.value) })} />
+                </div>
+            </div>
+            {invalidWindow && <p className="field-error">{t('schedule.invalidWindow')}</p>}
+            <div className="form-group">
+                <label htmlFor="maxImpressions">{t('schedule.maxImpressions')}</label>
+                <input
+                    id="maxImpressions"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder={t('schedule.noLimit')}
+                    disabled={capUnavailable && schedule.maxImpressions === undefined}
+                    value={schedule.maxImpressions ?? ''}
+                    onChange={e => update({ maxImpressions: e.target.value ? Math.max(1, Math.floor(Number(e.target.value))) : undefined })}
+                />
+                {schedule.maxImpressions !== undefined && (
+                    <p className="schedule-hint">{t('schedule.capHint', { count: schedule.maxImpressions })}</p>
+                )}
+                {capUnavailable && <p className="schedule-hint">{t('schedule.localCapNote')}</p>}
+            </div>
+            <div className="form-group">
+                <label htmlFor="scheduleFallback">{t('schedule.outside')}</label>
+                <select id="scheduleFallback" className="font-select" value={fallback.type} onChange={e => setFallbackType(e.target.value as ScheduleFallback['type'])}>
+                    {SCHEDULE_FALLBACK_TYPES.map(type => <option key={type} value={type}>{t(`schedule.fallback.${type}`)}</option>)}
+                </select>
+            </div>
+            {fallback.type === 'redirect' && (
+                <div className="form-group">
+                    <label htmlFor="fallbackRedirect">{t('schedule.redirectUrl')}</label>
+                    <input id="fallbackRedirect" type="url" placeholder="https://your-brand.com" value={fallback.url} onChange={e => update({ fallback: { type: 'redirect', url: e.target.value } })} />
+                    {redirectError && <p className="field-error">{t(redirectError)}</p>}
+                </div>
+            )}
+            {fallback.type === 'alternate' && (
+                <>
+                    <div className="form-group">
+                        <label htmlFor="fallbackMessage">{t('schedule.message')}</label>
+                        <input id="fallbackMessage" type="text" value={fallback.data.message} onChange={e => updateAlternate(data => ({ ...data, message: e.target.value }))} />
+                    </div>
+                    {alternateButton && (
+                        <>
+                            <div className="form-group">
+                                <label htmlFor="fallbackButtonText">{t('schedule.buttonText')}</label>
+                                <input id="fallbackButtonText" type="text" value={alternateButton.text} onChange={e => updateAlternate(data => updateButton(data, alternateButton.id, { text: e.target.value }))} />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="fallbackButtonTarget">{t(`button.target.${alternateButton.action}`)}</label>
+                                <input id="fallbackButtonTarget" type="text" placeholder={BUTTON_TARGET_PLACEHOLDERS[alternateButton.action]} value={alternateButton.target} onChange={e => updateAlternate(data => updateButton(data, alternateButton.id, { target: e.target.value }))} />
+                                {alternateTargetError && <p className="field-error">{t(alternateTargetError)}</p>}
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </details>
+    );
+};
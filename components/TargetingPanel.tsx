@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { AbVariant, DeviceType, Targeting, TargetingCondition, TargetingRule, UtmParam } from '../types';
+import {
+    CONDITION_TYPES,
+    DEVICE_TYPES,
+    MAX_TARGETING_RULES,
+    UTM_PARAMS,
+    newCondition,
+} from '../lib/targeting';
+import { weekdayName } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+const newRuleId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const splitList = (input: string) => [...new Set(input.split(',').map(v => v.trim()).filter(Boolean))];
+
+/** Comma-separated list input that only parses on blur, so typing a comma isn't swallowed. */
+const ListInput = ({ value, onChange, placeholder }: { value: string[], onChange: (value: string[]) => void, placeholder: string }) => {
+    const [text, setText] = useState(value.join(', '));
+    useEffect(() => setText(value.join(', ')), [value.join(',')]);
+    return <input type="text" value={text} placeholder={placeholder} onChange={e => setText(e.target.value)} onBlur={() => onChange(splitList(text))} />;
+};
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const ConditionEditor = ({ condition, onChange }: { condition: TargetingCondition, onChange: (c: TargetingCondition) => void }) => {
+    const { locale, t } = useI18n();
+    switch (condition.type) {
+        case 'device':
+            return (
+                <div className="targeting-options">
+                    {DEVICE_TYPES.map(device => (
+                        <label key={device}>
+                            <input type="checkbox" checked={condition.devices.includes(device)} onChange={() => onChange({ ...condition, devices: toggle<DeviceType>(condition.devices, device) })} />
+                            {t(`device.${device}`)}
+                        </label>
+                    ))}
+                </div>
+            );
+        case 'language':
+            return <ListInput value={condition.languages} onChange={languages => onChange({ ...condition, languages })} placeholder="ru, uk, en-GB" />;
+        case 'referrer':
+            return <ListInput value={condition.domains} onChange={domains => onChange({ ...condition, domains })} placeholder="vk.com, t.me" />;
+        case 'utm':
+            return (
+                <div className="targeting-utm">
+                    <select value={condition.param} onChange={e => onChange({ ...condition, param: e.target.value as UtmParam })}>
+                        {UTM_PARAMS.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <ListInput value={condition.values} onChange={values => onChange({ ...condition, values })} placeholder={t('targeting.anyValue')} />
+                </div>
+            );
+        case 'time':
+            return (
+                <div className="targeting-time">
+                    <label>
+                        {t('targeting.fromHour')} <input type="number" min={0} max={24} value={condition.fromHour} onChange={e => onChange({ ...condition, fromHour: Math.min(24, Math.max(0, Math.floor(Number(e.target.value)) || 0)) })} /> {t('targeting.hourUnit')}
+                    </label>
+                    <label>
+                        {t('targeting.toHour')} <input type="number" min={0} max={24} value={condition.toHour} onChange={e => onChange({ ...condition, toHour: Math.min(24, Math.max(0, Math.floor(Number(e.target.value)) || 0)) })} /> {t('targeting.hourUnit')}
+                    </label>
+                    <div className="targeting-weekdays">
+                        {/* Monday first, as on Russian and Ukrainian calendars. */}
+                        {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                            <button key={day} className={condition.weekdays.includes(day) ? 'active' : ''} onClick={() => onChange({ ...condition, weekdays: toggle(condition.weekdays, day) })}>
+                                {weekdayName(day, locale)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            );
+    }
+};
+
+const RuleCard = ({ rule, index, count, variants, onChange, onMove, onDelete }: {
+    rule: TargetingRule,
+    index: number,
+    count: number,
+    variants: AbVariant[],
+    onChange: (rule: TargetingRule) => void,
+    onMove: (delta: number) => void,
+    onDelete: () => void,
+}) => {
+    const { t } = useI18n();
+    const updateCondition = (i: number, condition: TargetingCondition) =>
+        onChange({ ...rule, conditions: rule.conditions.map((c, j) => j === i ? condition : c) });
+    const unknownVariant = !variants.some(v => v.key === rule.variant);
+
+    return (
+        <div className="targeting-rule">
+            <div className="targeting-rule-header">
+                <span>{t('targeting.rule', { index: index + 1 })}</span>
+                <div>
+                    <button onClick={() => onMove(-1)} disabled={index === 0} title={t('common.up')}>↑</button>
+                    <button onClick={() => onMove(1)} disabled={index === count - 1} title={t('common.down')}>↓</button>
+                    <button onClick={onDelete} title={t('targeting.deleteRule')}>×</button>
+                </div>
+            </div>
+            {rule.conditions.map((condition, i) => (
+                <div key={i} className="targeting-condition">
+                    <div className="targeting-condition-header">
+                        <select value={condition.type} onChange={e => updateCondition(i, newCondition(e.target.value as TargetingCondition['type']))}>
+                            {CONDITION_TYPES.map(type => <option key={type} value={type}>{t(`targeting.condition.${type}`)}</option>)}
+                        </select>
+                        <button onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, j) => j !== i) })} title={t('targeting.deleteCondition')}>×</button>
+                    </div>
+                    <ConditionEditor condition={condition} onChange={c => updateCondition(i, c)} />
+                </div>
+            ))}
+            <button className="targeting-add-condition" onClick={() => onChange({ ...rule, conditions: [...rule.conditions, newCondition('device')] })}>{t('targeting.addCondition')}</button>
+            <div className="targeting-rule-variant">
+                <label>{t('targeting.show')}</label>
+                <select value={rule.variant} onChange={e => onChange({ ...rule, variant: e.target.value })}>
+                    {unknownVariant && <option value={rule.variant}>{t('targeting.deletedVariant')}</option>}
+                    {variants.map(v => <option key={v.key} value={v.key}>{v.name || v.key}</option>)}
+                </select>
+            </div>
+            {unknownVariant && <p className="field-error">{t('targeting.variantDeleted')}</p>}
+            {!rule.conditions.length && <p className="field-error">{t('targeting.noConditions')}</p>}
+        </div>
+    );
+};
+
+/**
+ * Rule builder for the A/B tab. Rules are checked top to bottom; the first one
+ * whose conditions all match picks the variant, overriding weighted assignment.
+ */
+export const TargetingPanel = ({ targeting, variants, onChange }: {
+    targeting: Targeting,
+    variants: AbVariant[],
+    onChange: (targeting: Targeting) => void,
+}) => {
+    const { t } = useI18n();
+    const { rules } = targeting;
+    const setRules = (next: TargetingRule[]) => onChange({ ...targeting, rules: next });
+
+    const moveRule = (index: number, delta: number) => {
+        const next = [...rules];
+        const [rule] = next.splice(index, 1);
+        next.splice(index + delta, 0, rule);
+        setRules(next);
+    };
+
+    return (
+        <details className="targeting-panel" open={rules.length > 0}>
+            <summary>{t('targeting.title')} {rules.length > 0 && <span className="targeting-count">{rules.length}</span>}</summary>
+            <p className="schedule-hint">{t('targeting.hint')}</p>
+            {rules.map((rule, i) => (
+                <div key={rule.id}>
+                    <RuleCard
+                        rule={rule}
+                        index={i}
+                        count={rules.length}
+                        variants={variants}
+                        onChange={updated => setRules(rules.map(r => r.id === rule.id ? updated : r))}
+                        onMove={delta => moveRule(i, delta)}
+                        onDelete={() => setRules(rules.filter(r => r.id !== rule.id))}
+                    />
+                </div>
+            ))}
+            <button
+                className="targeting-add-rule"
+                disabled={rules.length >= MAX_TARGETING_RULES}
+                onClick={() => setRules([...rules, { id: newRuleId(), conditions: [newCondition('device')], variant: variants[0].key }])}
+            >
+                {t('targeting.addRule')}
+            </button>
+            <div className="form-group targeting-default">
+                <label htmlFor="targetingDefault">{t('targeting.others')}</label>
+                <select id="targetingDefault" className="font-select" value={targeting.defaultVariant ?? ''} onChange={e => onChange({ ...targeting, defaultVariant: e.target.value || undefined })}>
+                    <option value="">{t('targeting.byWeight')}</option>
+                    {variants.map(v => <option key={v.key} value={v.key}>{v.name || v.key}</option>)}
+                </select>
+            </div>
+        </details>
+    );
+};
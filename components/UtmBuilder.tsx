@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { UtmParam } from '../types';
+import { UTM_PARAMS } from '../lib/targeting';
+import { UtmFields, UtmPreset, applyUtm, loadUtmPresets, parseUtm, saveUtmPresets } from '../lib/utm';
+import { useI18n } from '../hooks/useI18n';
+
+const newPresetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * UTM fields for the button URL. The URL stays the single source of truth:
+ * fields are parsed from it on every render and edits are written back into it.
+ */
+export const UtmBuilder = ({ url, onChange, autoContent }: {
+    url: string,
+    onChange: (url: string) => void,
+    /** utm_content is filled in per variant when the link is generated. */
+    autoContent?: boolean,
+}) => {
+    const { t } = useI18n();
+    const [presets, setPresets] = useState<UtmPreset[]>(loadUtmPresets);
+    const fields = parseUtm(url);
+
+    const updatePresets = (next: UtmPreset[]) => {
+        setPresets(next);
+        saveUtmPresets(next);
+    };
+
+    const setField = (param: UtmParam, value: string) => onChange(applyUtm(url, { [param]: value }));
+
+    const applyPreset = (id: string) => {
+        const preset = presets.find(p => p.id === id);
+        if (preset) onChange(applyUtm(url, preset.fields));
+    };
+
+    const handleSavePreset = () => {
+        if (!fields) return;
+        const name = prompt(t('utm.presetName'))?.trim();
+        if (!name) return;
+        updatePresets([...presets, { id: newPresetId(), name, fields: { ...fields } as UtmFields }]);
+    };
+
+    const handleDeletePreset = (preset: UtmPreset) => {
+        if (confirm(t('utm.confirmDeletePreset', { name: preset.name }))) updatePresets(presets.filter(p => p.id !== preset.id));
+    };
+
+    const tagged = fields && UTM_PARAMS.some(p => fields[p]);
+
+    return (
+        <details className="utm-builder">
+            <summary>{t('utm.title')} {tagged && <span className="targeting-count">{UTM_PARAMS.filter(p => fields[p]).length}</span>}</summary>
+            {!fields ? (
+                <p className="schedule-hint">{t('utm.needUrl')}</p>
+            ) : (
+                <>
+                    {presets.length > 0 && (
+                        <div className="utm-presets">
+                            {presets.map(preset => (
+                                <span key={preset.id} className="utm-preset">
+                                    <button onClick={() => applyPreset(preset.id)} title={t('utm.applyPreset')}>{preset.name}</button>
+                                    <button className="brand-delete" onClick={() => handleDeletePreset(preset)} title={t('common.delete')}>×</button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {UTM_PARAMS.map(param => (
+                        <div key={param} className="utm-field">
+                            <label htmlFor={`utm-${param}`}>{t(`utm.param.${param}`)}</label>
+                            <input
+                                id={`utm-${param}`}
+                                type="text"
+                                value={param === 'utm_content' && autoContent ? '' : fields[param]}
+                                placeholder={param === 'utm_content' && autoContent ? t('utm.autoContent') : ''}
+                                disabled={param === 'utm_content' && autoContent}
+                                onChange={e => setField(param, e.target.value)}
+                            />
+                        </div>
+                    ))}
+                    <button className="utm-save" onClick={handleSavePreset} disabled={!tagged}>{t('utm.savePreset')}</button>
+                </>
+            )}
+        </details>
+    );
+};
@@ -0,0 +1,357 @@
+import React, { useState } from 'react';
+import { CtaButton, CtaData, CtaLayout } from '../types';
+import { buttonHref, newButton } from '../lib/ctaButtons';
+import { isValidEmail } from '../lib/leads';
+import { toSafeUrl, urlFieldError } from '../lib/urlPolicy';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+/** Text the creator can edit in place; buttons are addressed by id. */
+export type EditableElement = 'message' | 'title' | `button:${string}`;
+
+export interface CtaTheme {
+    color: string;
+    logoFilter: string;
+    containerClass: string;
+}
+
+export interface CtaLayoutProps {
+    data: Partial<CtaData>;
+    theme: CtaTheme;
+    isEditable?: boolean;
+    editingElement?: EditableElement | null;
+    onStartEdit?: (element: EditableElement) => void;
+    onUpdateText?: (element: EditableElement, text: string) => void;
+    onFinishEdit?: () => void;
+    onButtonClick?: (buttonId: string) => void;
+    /** Lead form: sends the email. Without it, as in the creator preview, submitting just shows the thank-you state. */
+    onLeadSubmit?: (email: string) => Promise<void>;
+}
+
+export interface CtaLayoutFieldsProps {
+    data: CtaData;
+    updateData: <K extends keyof CtaData>(field: K, value: CtaData[K]) => void;
+}
+
+interface CtaLayoutDefinition {
+    Render: (props: CtaLayoutProps) => React.ReactNode;
+    /** Format-specific inputs, shown in CtaForm after the shared ones. */
+    Fields?: (props: CtaLayoutFieldsProps) => React.ReactNode;
+    /** Shows a close button even when the author didn't enable one. */
+    alwaysDismissible?: boolean;
+}
+
+// --- SHARED PIECES ---
+
+/** Text the creator can double-click to edit in place. */
+const EditableText = ({ element, as: Tag, className, style, placeholder, props }: {
+    element: 'message' | 'title',
+    as: 'p' | 'h3',
+    className: string,
+    style?: React.CSSProperties,
+    placeholder: string,
+    props: CtaLayoutProps,
+}) => {
+    const { data, isEditable, editingElement, onStartEdit, onUpdateText, onFinishEdit } = props;
+    if (isEditable && editingElement === element) {
+        return (
+            <input
+                type="text"
+                value={data[element] ?? ''}
+                onChange={e => onUpdateText?.(element, e.target.value)}
+                onBlur={onFinishEdit}
+                onKeyDown={e => { if (e.key === 'Enter' || e.key === 'Escape') onFinishEdit?.(); }}
+                className="cta-inline-edit"
+                autoFocus
+            />
+        );
+    }
+    return (
+        <Tag className={className} style={style} onDoubleClick={() => isEditable && onStartEdit?.(element)}>
+            {data[element] || placeholder}
+        </Tag>
+    );
+};
+
+const Message = ({ props }: { props: CtaLayoutProps }) => {
+    const { t } = useI18n();
+    return (
+        <EditableText
+            element="message"
+            as="p"
+            className="cta-message"
+            style={{ color: props.theme.color, fontSize: `${props.data.fontSize ?? 14}px` }}
+            placeholder={t('cta.messagePlaceholder')}
+            props={props}
+        />
+    );
+};
+
+const Title = ({ props }: { props: CtaLayoutProps }) => {
+    const { t } = useI18n();
+    return <EditableText element="title" as="h3" className="cta-title" style={{ color: props.theme.color }} placeholder={t('cta.titlePlaceholder')} props={props} />;
+};
+
+const Avatar = ({ data, theme }: CtaLayoutProps) => {
+    const profileImageSrc = toSafeUrl(data.profileImageUrl);
+    return profileImageSrc ? (
+        <img src={profileImageSrc} alt="Profile" className="cta-profile-img" />
+    ) : (
+        <div className="cta-logo" style={{ filter: theme.logoFilter }}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M13.468 3.823a4.072 4.072 0 0 1 5.21 5.21L13 14.732l-5.678-5.677L13.468 3.823Zm-1.616 9.19L3 14.732l5.677 5.678a4.072 4.072 0 0 0 5.21 0l.488-.488L5.94 11.488l6.912 1.523Z" fill="#1877F2"></path></svg>
+        </div>
+    );
+};
+
+const buttonStyle = (data: Partial<CtaData>, button: CtaButton): React.CSSProperties => ({
+    ...(button.style === 'primary' ? { backgroundColor: button.color, borderColor: button.color }
+        : button.style === 'secondary' ? { borderColor: button.color, color: button.color }
+        : { color: button.color }),
+    borderRadius: `${data.cornerRadius ?? 8}px`,
+    fontSize: `${data.fontSize ?? 14}px`,
+});
+
+const buttonClass = (button: CtaButton) => `cta-button cta-button-${button.style}`;
+
+const isEditingButton = ({ isEditable, editingElement }: CtaLayoutProps, button: CtaButton) =>
+    isEditable && editingElement === `button:${button.id}`;
+
+const ButtonTextEditor = ({ button, props }: { button: CtaButton, props: CtaLayoutProps }) => (
+    <input
+        type="text"
+        value={button.text}
+        onChange={e => props.onUpdateText?.(`button:${button.id}`, e.target.value)}
+        onBlur={props.onFinishEdit}
+        onKeyDown={e => { if (e.key === 'Enter' || e.key === 'Escape') props.onFinishEdit?.(); }}
+        className="cta-inline-edit cta-inline-edit-button"
+        autoFocus
+    />
+);
+
+const LinkButton = ({ button, props }: { button: CtaButton, props: CtaLayoutProps }) => {
+    const { data, isEditable, onStartEdit, onButtonClick } = props;
+    const { t } = useI18n();
+    if (isEditingButton(props, button)) return <ButtonTextEditor button={button} props={props} />;
+    const href = buttonHref(button) ?? '#';
+    return (
+        <a
+            href={href}
+            // tel: and mailto: hand over to an app; opening them in a new tab leaves a blank one behind.
+            target={button.action === 'tel' || button.action === 'mailto' ? undefined : '_blank'}
+            rel="noopener noreferrer"
+            className={buttonClass(button)}
+            style={buttonStyle(data, button)}
+            onClick={(e) => { e.stopPropagation(); onButtonClick?.(button.id); }}
+            onDoubleClick={() => isEditable && onStartEdit?.(`button:${button.id}`)}
+        >
+            {button.text || t('button.default')}
+        </a>
+    );
+};
+
+const Buttons = ({ props }: { props: CtaLayoutProps }) => (
+    <div className="cta-buttons">
+        {(props.data.buttons ?? []).map(button => (
+            <span key={button.id} className="cta-button-slot">
+                <LinkButton button={button} props={props} />
+            </span>
+        ))}
+    </div>
+);
+
+const TextField = ({ id, label, value, onChange, placeholder, type = 'text', error }: {
+    id: string,
+    label: MessageKey,
+    value: string | undefined,
+    onChange: (value: string) => void,
+    placeholder?: string,
+    type?: 'text' | 'url',
+    error?: MessageKey | null,
+}) => {
+    const { t } = useI18n();
+    return (
+        <div className="form-group">
+            <label htmlFor={id}>{t(label)}</label>
+            <input id={id} type={type} placeholder={placeholder} value={value ?? ''} onChange={e => onChange(e.target.value)} />
+            {error && <p className="field-error">{t(error)}</p>}
+        </div>
+    );
+};
+
+const ProfileImageField = ({ data, updateData }: CtaLayoutFieldsProps) => (
+    <TextField
+        id="profileImageUrl"
+        type="url"
+        label="layoutField.profileImage"
+        placeholder="https://your-site.com/logo.png"
+        value={data.profileImageUrl}
+        onChange={v => updateData('profileImageUrl', v)}
+        error={urlFieldError(data.profileImageUrl)}
+    />
+);
+
+const TitleField = ({ data, updateData }: CtaLayoutFieldsProps) => {
+    const { t } = useI18n();
+    return <TextField id="ctaTitle" label="layoutField.title" placeholder={t('layoutField.titlePlaceholder')} value={data.title} onChange={v => updateData('title', v)} />;
+};
+
+const CardFields = ({ data, updateData }: CtaLayoutFieldsProps) => (
+    <>
+        <TitleField data={data} updateData={updateData} />
+        <TextField
+            id="heroImageUrl"
+            type="url"
+            label="layoutField.heroImage"
+            placeholder="https://your-site.com/cover.jpg"
+            value={data.heroImageUrl}
+            onChange={v => updateData('heroImageUrl', v)}
+            error={urlFieldError(data.heroImageUrl)}
+        />
+    </>
+);
+
+const LeadFormFields = ({ data, updateData }: CtaLayoutFieldsProps) => {
+    const { t } = useI18n();
+    return (
+        <>
+            <ProfileImageField data={data} updateData={updateData} />
+            <TextField
+                id="leadEndpoint"
+                type="url"
+                label="layoutField.leadEndpoint"
+                placeholder="https://your-crm.com/api/leads"
+                value={data.leadEndpoint}
+                onChange={v => updateData('leadEndpoint', v)}
+                error={urlFieldError(data.leadEndpoint)}
+            />
+            <TextField
+                id="successMessage"
+                label="layoutField.successMessage"
+                placeholder={t('cta.leadThanks')}
+                value={data.successMessage}
+                onChange={v => updateData('successMessage', v)}
+            />
+        </>
+    );
+};
+
+// --- LAYOUTS ---
+
+const ClassicLayout = (props: CtaLayoutProps) => (
+    <>
+        <Avatar {...props} />
+        <Message props={props} />
+        <Buttons props={props} />
+    </>
+);
+
+const TopBarLayout = (props: CtaLayoutProps) => (
+    <>
+        <Message props={props} />
+        <Buttons props={props} />
+    </>
+);
+
+const ModalLayout = (props: CtaLayoutProps) => (
+    <>
+        <Avatar {...props} />
+        {props.data.title && <Title props={props} />}
+        <Message props={props} />
+        <Buttons props={props} />
+    </>
+);
+
+const CardLayout = (props: CtaLayoutProps) => {
+    const heroSrc = toSafeUrl(props.data.heroImageUrl);
+    return (
+        <>
+            {heroSrc ? <img src={heroSrc} alt="" className="cta-hero-img" /> : <div className="cta-hero-placeholder"></div>}
+            <div className="cta-card-body">
+                <Title props={props} />
+                <Message props={props} />
+                <Buttons props={props} />
+            </div>
+        </>
+    );
+};
+
+type LeadStatus = 'idle' | 'invalid' | 'sending' | 'sent' | 'failed';
+
+const LeadFormLayout = (props: CtaLayoutProps) => {
+    const { data, theme, isEditable, onStartEdit, onLeadSubmit } = props;
+    const { t } = useI18n();
+    // The form submits with the first button; its target is not used.
+    const submitButton = data.buttons?.[0];
+    const [email, setEmail] = useState('');
+    const [status, setStatus] = useState<LeadStatus>('idle');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = email.trim();
+        if (!isValidEmail(value)) {
+            setStatus('invalid');
+            return;
+        }
+        setStatus('sending');
+        try {
+            await onLeadSubmit?.(value);
+            setStatus('sent');
+        } catch (err) {
+            console.error("Failed to submit lead:", err);
+            setStatus('failed');
+        }
+    };
+
+    if (status === 'sent') {
+        return <p className="cta-message" style={{ color: theme.color }}>{data.successMessage || t('cta.leadThanks')}</p>;
+    }
+
+    return (
+        <>
+            <Avatar {...props} />
+            <div className="cta-lead-body">
+                <Message props={props} />
+                <form className="cta-lead-form" onSubmit={handleSubmit} noValidate>
+                    <input
+                        type="email"
+                        value={email}
+                        placeholder="you@example.com"
+                        disabled={status === 'sending'}
+                        onChange={e => { setEmail(e.target.value); if (status !== 'sending') setStatus('idle'); }}
+                        onPointerDown={e => e.stopPropagation()}
+                    />
+                    {submitButton && isEditingButton(props, submitButton) ? <ButtonTextEditor button={submitButton} props={props} /> : (
+                        <button
+                            type="submit"
+                            className="cta-button cta-button-primary"
+                            style={buttonStyle(data, { ...(submitButton ?? newButton()), style: 'primary' })}
+                            disabled={status === 'sending'}
+                            onDoubleClick={() => isEditable && submitButton && onStartEdit?.(`button:${submitButton.id}`)}
+                        >
+                            {submitButton?.text || t('cta.leadSubmit')}
+                        </button>
+                    )}
+                </form>
+                {status === 'invalid' && <p className="cta-lead-error">{t('cta.leadInvalid')}</p>}
+                {status === 'failed' && <p className="cta-lead-error">{t('cta.leadFailed')}</p>}
+            </div>
+        </>
+    );
+};
+
+/**
+ * Every CTA format: how it renders inside the shared container, and which
+ * extra fields the editor shows for it.
+ */
+export const CTA_LAYOUT_REGISTRY: Record<CtaLayout, CtaLayoutDefinition> = {
+    'classic': { Render: ClassicLayout, Fields: ProfileImageField },
+    'top-bar': { Render: TopBarLayout },
+    'modal': {
+        Render: ModalLayout,
+        Fields: props => <><ProfileImageField {...props} /><TitleField {...props} /></>,
+        // A modal covers the page; visitors must always be able to get past it.
+        alwaysDismissible: true,
+    },
+    'card': { Render: CardLayout, Fields: CardFields },
+    'lead-form': { Render: LeadFormLayout, Fields: LeadFormFields },
+};
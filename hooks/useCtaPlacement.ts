@@ -0,0 +1,31 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import { CtaPlacement } from '../types';
+import { Size, resolvePlacement } from '../lib/ctaPlacement';
+
+/**
+ * Pixel position of a CTA with a custom placement. Attach `ref` to the CTA;
+ * it and the page it is positioned in are measured before paint and again
+ * whenever either resizes, so the CTA stays in place and on screen.
+ */
+export const useCtaPlacement = (placement: CtaPlacement | undefined, scale: number) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const [sizes, setSizes] = useState<{ page: Size, cta: Size } | null>(null);
+
+    useLayoutEffect(() => {
+        const element = ref.current;
+        if (!placement || !element) return;
+        const page = (element.offsetParent as HTMLElement | null) ?? document.documentElement;
+        // offsetWidth ignores transforms; custom-placed CTAs scale from their top-left corner.
+        const measure = () => setSizes({
+            page: { width: page.clientWidth, height: page.clientHeight },
+            cta: { width: element.offsetWidth * scale, height: element.offsetHeight * scale },
+        });
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(element);
+        observer.observe(page);
+        return () => observer.disconnect();
+    }, [!!placement, scale]);
+
+    return { ref, point: placement && sizes ? resolvePlacement(placement, sizes.page, sizes.cta) : null };
+};
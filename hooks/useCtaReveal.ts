@@ -0,0 +1,47 @@
+import { useCallback, useLayoutEffect, useState } from 'react';
+import { CtaData } from '../types';
+import { canHover, isCtaDismissed, rememberCtaDismissed, revealPlan } from '../lib/ctaBehavior';
+
+interface RevealOptions {
+    /** Remembers dismissal for this link across visits; without it dismissal lasts until the next replay. */
+    linkId?: string;
+    /** Changing it starts the reveal over, e.g. to replay it in the creator preview. */
+    replayKey?: number;
+    /** When false the CTA is shown at once, as while it is being edited. */
+    enabled?: boolean;
+}
+
+/**
+ * Whether the CTA for `data` is on screen: after its delay or exit intent, and
+ * only until the visitor closes it. Render an exit-intent sentinel while
+ * `waitingForExitIntent` and call `onExitIntent` from it.
+ */
+export const useCtaReveal = (data: Partial<CtaData> | null, { linkId, replayKey = 0, enabled = true }: RevealOptions = {}) => {
+    const plan = data && enabled ? revealPlan(data, canHover()) : null;
+    const [revealed, setRevealed] = useState(!plan || plan.delayMs === 0);
+    const [dismissed, setDismissed] = useState(false);
+
+    // A layout effect, so a delayed CTA never flashes for a frame when its data arrives.
+    useLayoutEffect(() => {
+        setDismissed(linkId ? isCtaDismissed(linkId) : false);
+        setRevealed(!plan || plan.delayMs === 0);
+        if (!plan || plan.delayMs === null || plan.delayMs === 0) return;
+        const timer = setTimeout(() => setRevealed(true), plan.delayMs);
+        return () => clearTimeout(timer);
+    }, [!!data, plan?.delayMs, plan?.exitIntent, linkId, replayKey]);
+
+    const onExitIntent = useCallback(() => setRevealed(true), []);
+
+    const dismiss = useCallback(() => {
+        setDismissed(true);
+        if (linkId) rememberCtaDismissed(linkId);
+    }, [linkId]);
+
+    return {
+        visible: !!data && revealed && !dismissed,
+        dismissed,
+        waitingForExitIntent: !!plan?.exitIntent && !revealed && !dismissed,
+        onExitIntent,
+        dismiss,
+    };
+};
@@ -0,0 +1,26 @@
+import { RefObject, useLayoutEffect, useState } from 'react';
+
+/**
+ * Zoom, at most 1, at which a box of `size` plus `margin` on every side fits
+ * inside the element behind `ref`; kept current as that element resizes. 1
+ * when there is no size.
+ */
+export const useFitScale = (ref: RefObject<HTMLElement>, size: { width: number, height: number } | undefined, margin = 0) => {
+    const [scale, setScale] = useState(1);
+
+    useLayoutEffect(() => {
+        const element = ref.current;
+        if (!element || !size) return;
+        const measure = () => setScale(Math.max(0.1, Math.min(
+            1,
+            (element.clientWidth - 2 * margin) / size.width,
+            (element.clientHeight - 2 * margin) / size.height,
+        )));
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [size?.width, size?.height, margin]);
+
+    return size ? scale : 1;
+};
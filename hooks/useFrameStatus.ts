@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FRAME_LOAD_TIMEOUT_MS, FrameStatus, classifyFrameLoad, probeFrame } from '../lib/framing';
+
+/**
+ * Tracks whether an iframe showing `src` actually rendered. Attach `frameRef`
+ * and `onLoad` to the iframe and keep it mounted until the status is
+ * 'blocked'; `markBlocked` lets the UI override the heuristic.
+ */
+export const useFrameStatus = (src: string, timeoutMs = FRAME_LOAD_TIMEOUT_MS) => {
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [status, setStatus] = useState<FrameStatus>('loading');
+
+    useEffect(() => {
+        setStatus('loading');
+        if (!src) return;
+        const timer = setTimeout(() => setStatus(s => s === 'loading' ? 'slow' : s), timeoutMs);
+        return () => clearTimeout(timer);
+    }, [src, timeoutMs]);
+
+    const onLoad = useCallback(() => {
+        if (!frameRef.current || !src) return;
+        setStatus(classifyFrameLoad(src, probeFrame(frameRef.current)));
+    }, [src]);
+
+    const markBlocked = useCallback(() => setStatus('blocked'), []);
+
+    return { frameRef, status, onLoad, markBlocked };
+};
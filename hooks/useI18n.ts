@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, Locale, Translate, createTranslator } from '../lib/i18n';
+
+export interface I18n {
+    locale: Locale;
+    t: Translate;
+    setLocale: (locale: Locale) => void;
+}
+
+/** Provided by App; the default is what components see outside it (and in tests). */
+export const I18nContext = createContext({
+    locale: DEFAULT_LOCALE,
+    t: createTranslator(DEFAULT_LOCALE),
+    setLocale: () => {},
+});
+
+/** The UI language and a translator for it. */
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,188 @@
+import React, { useCallback, useMemo, useReducer } from 'react';
+import { AbVariant, CtaData } from '../types';
+import { variantKey } from '../lib/abAssignment';
+import { MAX_AB_VARIANTS } from '../lib/payloadSchema';
+import { Coalesce, History, emptyHistory, recordChange, redo, undo } from '../lib/history';
+import { useI18n } from './useI18n';
+
+/** Which CtaData the editor is working on: the single link or the active A/B variant. */
+export type EditorMode = 'single' | 'ab';
+
+/**
+ * Setter handed to editing UI. Updates sharing a coalesce key within its
+ * window become one undo step (see lib/history).
+ */
+export type CtaDataSetter = (update: React.SetStateAction<CtaData>, coalesce?: Coalesce) => void;
+
+interface VariantState {
+    single: CtaData;
+    variants: AbVariant[];
+    activeKey: string;
+    /** Undo history per slot: 'single' for the single-link draft, else a variant key. */
+    histories: Record<string, History<CtaData>>;
+}
+
+type VariantAction =
+    | { type: 'update'; mode: EditorMode; variantKey?: string; update: React.SetStateAction<CtaData>; coalesce?: Coalesce; at: number }
+    | { type: 'undo'; mode: EditorMode }
+    | { type: 'redo'; mode: EditorMode }
+    | { type: 'select'; key: string }
+    // Names are in the UI language, so the hook passes in how to make them.
+    | { type: 'add'; data: CtaData; name: (key: string) => string }
+    | { type: 'duplicate'; key: string; name: (sourceName: string) => string }
+    | { type: 'rename'; key: string; name: string }
+    | { type: 'delete'; key: string }
+    | { type: 'setWeight'; key: string; weight: number }
+    | { type: 'replaceVariants'; variants: AbVariant[] }
+    | { type: 'load'; single: CtaData; variants: AbVariant[]; activeKey: string };
+
+const MIN_AB_VARIANTS = 2;
+const SINGLE_SLOT = 'single';
+
+const slotFor = (state: VariantState, mode: EditorMode) => mode === 'single' ? SINGLE_SLOT : state.activeKey;
+
+const slotData = (state: VariantState, slot: string) =>
+    slot === SINGLE_SLOT ? state.single : state.variants.find(v => v.key === slot)?.data;
+
+const withSlotData = (state: VariantState, slot: string, data: CtaData): VariantState =>
+    slot === SINGLE_SLOT
+        ? { ...state, single: data }
+        : { ...state, variants: state.variants.map(v => v.key === slot ? { ...v, data } : v) };
+
+const historyFor = (state: VariantState, slot: string) => state.histories[slot] ?? emptyHistory<CtaData>();
+
+/** Drops histories of variants that no longer exist (keys get reused). */
+const pruneHistories = (histories: Record<string, History<CtaData>>, variants: AbVariant[]) => {
+    const keep = new Set([SINGLE_SLOT, ...variants.map(v => v.key)]);
+    return Object.fromEntries(Object.entries(histories).filter(([slot]) => keep.has(slot)));
+};
+
+const nextVariantKey = (variants: AbVariant[]) => {
+    const used = new Set(variants.map(v => v.key));
+    for (let i = 0; ; i++) {
+        const key = i < 26 ? variantKey(i) : `V${i + 1}`;
+        if (!used.has(key)) return key;
+    }
+};
+
+const applyUpdate = (data: CtaData, update: React.SetStateAction<CtaData>) =>
+    typeof update === 'function' ? update(data) : update;
+
+const reducer = (state: VariantState, action: VariantAction): VariantState => {
+    switch (action.type) {
+        case 'update': {
+            const slot = action.mode === 'ab' && action.variantKey ? action.variantKey : slotFor(state, action.mode);
+            const previous = slotData(state, slot);
+            if (!previous) return state;
+            const next = applyUpdate(previous, action.update);
+            if (next === previous) return state;
+            const history = recordChange(historyFor(state, slot), previous, action.at, action.coalesce);
+            return { ...withSlotData(state, slot, next), histories: { ...state.histories, [slot]: history } };
+        }
+        case 'undo':
+        case 'redo': {
+            const slot = slotFor(state, action.mode);
+            const current = slotData(state, slot);
+            if (!current) return state;
+            const step = (action.type === 'undo' ? undo : redo)(historyFor(state, slot), current);
+            if (!step) return state;
+            return { ...withSlotData(state, slot, step.value), histories: { ...state.histories, [slot]: step.history } };
+        }
+        case 'select':
+            return state.variants.some(v => v.key === action.key) ? { ...state, activeKey: action.key } : state;
+        case 'add': {
+            if (state.variants.length >= MAX_AB_VARIANTS) return state;
+            const key = nextVariantKey(state.variants);
+            const variant: AbVariant = { key, name: action.name(key), weight: 1, data: action.data };
+            return { ...state, variants: [...state.variants, variant], activeKey: key };
+        }
+        case 'duplicate': {
+            const source = state.variants.find(v => v.key === action.key);
+            if (!source || state.variants.length >= MAX_AB_VARIANTS) return state;
+            const key = nextVariantKey(state.variants);
+            const copy: AbVariant = { ...source, key, name: action.name(source.name), data: { ...source.data } };
+            const index = state.variants.indexOf(source);
+            const variants = [...state.variants.slice(0, index + 1), copy, ...state.variants.slice(index + 1)];
+            return { ...state, variants, activeKey: key };
+        }
+        case 'rename':
+            return { ...state, variants: state.variants.map(v => v.key === action.key ? { ...v, name: action.name } : v) };
+        case 'delete': {
+            if (state.variants.length <= MIN_AB_VARIANTS) return state;
+            const index = state.variants.findIndex(v => v.key === action.key);
+            if (index < 0) return state;
+            const variants = state.variants.filter(v => v.key !== action.key);
+            const activeKey = state.activeKey === action.key ? variants[Math.max(0, index - 1)].key : state.activeKey;
+            return { ...state, variants, activeKey, histories: pruneHistories(state.histories, variants) };
+        }
+        case 'setWeight':
+            return { ...state, variants: state.variants.map(v => v.key === action.key ? { ...v, weight: Math.max(0, action.weight) } : v) };
+        case 'replaceVariants':
+            if (action.variants.length < MIN_AB_VARIANTS) return state;
+            return { ...state, variants: action.variants, activeKey: action.variants[0].key, histories: pruneHistories(state.histories, []) };
+        case 'load': {
+            const { single, variants, activeKey } = action;
+            if (variants.length < MIN_AB_VARIANTS) return { ...state, single, histories: {} };
+            return { single, variants, activeKey: variants.some(v => v.key === activeKey) ? activeKey : variants[0].key, histories: {} };
+        }
+    }
+};
+
+/**
+ * Single source of truth for the CtaData the creator edits: the single-link
+ * draft plus an ordered list of named, weighted A/B variants. Callers pick the
+ * mode they are in; everything else (which variant is active, how updates are
+ * routed, the separate undo history of each variant) lives here.
+ */
+export const useVariantStore = (initialSingle: CtaData, initialVariants: AbVariant[]) => {
+    const { t } = useI18n();
+    const [state, dispatch] = useReducer(reducer, null, (): VariantState => ({
+        single: initialSingle,
+        variants: initialVariants,
+        activeKey: initialVariants[0].key,
+        histories: {},
+    }));
+
+    const activeVariant = state.variants.find(v => v.key === state.activeKey) ?? state.variants[0];
+
+    const getData = useCallback((mode: EditorMode) => mode === 'single' ? state.single : activeVariant.data, [state.single, activeVariant]);
+
+    /** Works like a useState setter, plus an optional coalesce key for undo grouping. */
+    const setDataFor = useCallback((mode: EditorMode): CtaDataSetter =>
+        (update, coalesce) => dispatch({ type: 'update', mode, update, coalesce, at: Date.now() }), []);
+
+    /** Setter for a specific A/B variant, active or not. */
+    const setVariantData = useCallback((variantKey: string): CtaDataSetter =>
+        (update, coalesce) => dispatch({ type: 'update', mode: 'ab', variantKey, update, coalesce, at: Date.now() }), []);
+
+    const canUndo = (mode: EditorMode) => historyFor(state, slotFor(state, mode)).past.length > 0;
+    const canRedo = (mode: EditorMode) => historyFor(state, slotFor(state, mode)).future.length > 0;
+
+    const actions = useMemo(() => ({
+        undo: (mode: EditorMode) => dispatch({ type: 'undo', mode }),
+        redo: (mode: EditorMode) => dispatch({ type: 'redo', mode }),
+        selectVariant: (key: string) => dispatch({ type: 'select', key }),
+        addVariant: (data: CtaData) => dispatch({ type: 'add', data, name: key => t('defaults.variantName', { key }) }),
+        duplicateVariant: (key: string) => dispatch({ type: 'duplicate', key, name: name => t('defaults.copyName', { name }) }),
+        renameVariant: (key: string, name: string) => dispatch({ type: 'rename', key, name }),
+        deleteVariant: (key: string) => dispatch({ type: 'delete', key }),
+        setVariantWeight: (key: string, weight: number) => dispatch({ type: 'setWeight', key, weight }),
+        replaceVariants: (variants: AbVariant[]) => dispatch({ type: 'replaceVariants', variants }),
+        /** Restores a previously saved editor state, e.g. the auto-saved draft. */
+        load: (single: CtaData, variants: AbVariant[], activeKey: string) => dispatch({ type: 'load', single, variants, activeKey }),
+    }), [t]);
+
+    return {
+        single: state.single,
+        variants: state.variants,
+        activeVariant,
+        canAddVariant: state.variants.length < MAX_AB_VARIANTS,
+        canDeleteVariant: state.variants.length > MIN_AB_VARIANTS,
+        getData,
+        setDataFor,
+        setVariantData,
+        canUndo,
+        canRedo,
+        ...actions,
+    };
+};
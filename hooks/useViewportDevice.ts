@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { DeviceType } from '../types';
+import { deviceFromWidth } from '../lib/targeting';
+
+/** The visitor's device class, kept current as the window is resized or the phone rotated. */
+export const useViewportDevice = (): DeviceType => {
+    const [device, setDevice] = useState(() => deviceFromWidth(window.innerWidth));
+
+    useEffect(() => {
+        const update = () => setDevice(deviceFromWidth(window.innerWidth));
+        window.addEventListener('resize', update);
+        return () => window.removeEventListener('resize', update);
+    }, []);
+
+    return device;
+};
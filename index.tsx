@@ -1,187 +1,180 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
-
-// --- TYPE DEFINITIONS ---
-interface CtaData {
-    message: string;
-    buttonText: string;
-    buttonUrl: string;
-    position: 'bottom-left' | 'bottom-right' | 'bottom-banner' | 'custom';
-    theme: 'light' | 'dark';
-    bgColor: string;
-    btnColor: string;
-    profileImageUrl?: string;
-    // New Canva-like features
-    fontFamily: string;
-    fontSize: number;
-    scale: number;
-    cornerRadius: number;
-    customPosition?: { x: number; y: number };
-}
-
-type LinkPayload = 
-    | { type: 'single'; data: CtaData & { targetUrl: string } }
-    | { type: 'ab'; targetUrl: string, variants: [CtaData, CtaData] };
-
-interface AISuggestion {
-    message: string;
-    buttonText: string;
-}
-
-// --- API & UTILS ---
-let ai: GoogleGenAI | null = null;
-try {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-} catch (e) {
-    console.error("Failed to initialize GoogleGenAI. Please check API_KEY.", e);
-}
-
+import { CtaData, CtaAnimation, CtaLayout, CtaStyleOverride, DeviceType, LinkPayload, AISuggestion, FramingFallback, LinkSchedule, ScheduleFallback, Targeting } from './types';
+import { AbResultsPanel } from './components/AbResultsPanel';
+import { AbVariantManager } from './components/AbVariantManager';
+import { BrandKitPanel } from './components/BrandKitPanel';
+import { FramingFallbackView } from './components/FramingFallbackView';
+import { SchedulePanel } from './components/SchedulePanel';
+import { TargetingPanel } from './components/TargetingPanel';
+import { ButtonListEditor } from './components/ButtonListEditor';
+import { LinkLibraryView } from './components/LinkLibraryView';
+import { CopySettingsView } from './components/CopySettingsView';
+import { AISuggestionsModal } from './components/AISuggestionsModal';
+import { useVariantStore, EditorMode, CtaDataSetter } from './hooks/useVariantStore';
+import { useFrameStatus } from './hooks/useFrameStatus';
+import { useCtaReveal } from './hooks/useCtaReveal';
+import { useViewportDevice } from './hooks/useViewportDevice';
+import { useFitScale } from './hooks/useFitScale';
+import { I18nContext, useI18n } from './hooks/useI18n';
+import { CtaComponent } from './components/CtaComponent';
+import { CTA_LAYOUT_REGISTRY, EditableElement } from './components/ctaLayouts';
+import { encodeLinkPayload, decodeLinkPayload, LinkDecodeError } from './lib/linkCodec';
+import { parseLinkPayload, FieldError } from './lib/payloadSchema';
+import { CTA_FONTS } from './lib/copyPrompt.mjs';
+import { getEventSink, isUsingLocalSink, linkIdFromHash, trackEvent, AnalyticsEvent } from './lib/analytics';
+import { assignVariant, getVisitorId } from './lib/abAssignment';
+import { computePeriodStats, countClicksByButton, relativeChange, summarizeLinks } from './lib/analyticsStats';
+import { formatNumber, formatPercent, formatSignedPercent } from './lib/format';
+import { createLink, defaultLinkName, listLinks, loadDraft, payloadButtonLabels, saveDraft, updateLink, SavedLink } from './lib/linkLibrary';
+import { LinkServiceError, PublishedLink, fetchPublishedLink, isLinkServiceEnabled, linkIdFromSlug, publishLink, shortLinkUrl, slugFromPath, updatePublishedLink } from './lib/linkService';
+import { deviceFromWidth, evaluateTargeting, readVisitorContext } from './lib/targeting';
+import { tagVariantsWithUtmContent } from './lib/utm';
+import { countImpressions, isEmptySchedule, scheduleStatus } from './lib/schedule';
+import { CTA_ANIMATIONS, DEFAULT_CTA_ANIMATION, MAX_SHOW_DELAY_SECONDS } from './lib/ctaBehavior';
+import { CTA_LAYOUTS, DEFAULT_CTA_LAYOUT, hasButtonLink, isPositionedLayout, missingCtaField } from './lib/ctaLayouts';
+import { submitLead } from './lib/leads';
+import { PageContent, fetchPageContent, isPageContentEnabled } from './lib/pageContent';
+import { CopyOptions, CopyProviderError, CopySettings, DEFAULT_COPY_OPTIONS, applySuggestion, copyRequestFor, generateCopy, loadCopySettings, saveCopySettings } from './lib/copyProviders';
+import { DEVICE_PRESETS, applyDeviceOverrides, clearDeviceOverride, isOverrideDevice, presetScreenSize, setDeviceOverride, MIN_DEVICE_SCALE } from './lib/devices';
+import { SnapGuide, clampPoint, placementFromPoint, resolvePlacement, snapPoint } from './lib/ctaPlacement';
+import { newButton, updateButton } from './lib/ctaButtons';
+import { DEFAULT_FRAMING_FALLBACK, FRAMING_FALLBACKS } from './lib/framing';
+import { toSafeUrl, urlFieldError, findUnsafePayloadUrl, UrlRejectionReason } from './lib/urlPolicy';
+import { LOCALES, LOCALE_LABELS, Locale, MessageKey, createTranslator, loadLocale, saveLocale } from './lib/i18n';
 
 // --- CORE COMPONENTS ---
 
 /**
- * The main CTA visual component. Used in both preview and the final viewer.
+ * A thin strip along the top edge that notices the pointer leaving through it.
+ * The page below is an iframe whose pointer events never reach us, so this is
+ * the only place exit intent can be seen; a very fast flick may skip it.
  */
-const CtaComponent = ({ 
-    data, 
-    isEditable = false, 
-    editingElement, 
-    onStartEdit, 
-    onUpdateText,
-    onFinishEdit
-}: { 
-    data: Partial<CtaData>,
-    isEditable?: boolean,
-    editingElement?: string | null,
-    onStartEdit?: (element: 'message' | 'buttonText') => void,
-    onUpdateText?: (element: 'message' | 'buttonText', text: string) => void,
-    onFinishEdit?: () => void
-}) => {
-    const themeStyles = data.theme === 'dark' 
-        ? { color: '#ffffff', logoFilter: 'brightness(0) invert(1)', containerClass: 'cta-dark' } 
-        : { color: '#1c1e21', logoFilter: '', containerClass: 'cta-light' };
-
-    const handleTextKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'Enter' || e.key === 'Escape') {
-            onFinishEdit?.();
-        }
-    };
-    
-    // FIX: Extended React.CSSProperties to include the custom property '--cta-scale', resolving a TypeScript error on line 76.
-    const containerStyle: React.CSSProperties & { '--cta-scale': number } = {
-        backgroundColor: data.bgColor || '#ffffff',
-        fontFamily: data.fontFamily || "'Inter', sans-serif",
-        borderRadius: `${data.cornerRadius ?? 8}px`,
-        '--cta-scale': data.scale ?? 1,
-    };
+const ExitIntentSentinel = ({ onExit }: { onExit: () => void }) => (
+    <div
+        className="exit-intent-sentinel"
+        onMouseLeave={e => { if (e.clientY <= e.currentTarget.getBoundingClientRect().top) onExit(); }}
+    ></div>
+);
 
-    if (data.position === 'custom' && data.customPosition) {
-        containerStyle.position = 'absolute';
-        containerStyle.left = `${data.customPosition.x}px`;
-        containerStyle.top = `${data.customPosition.y}px`;
-        containerStyle.bottom = 'auto'; // override default position
-        containerStyle.right = 'auto'; // override default position
-    }
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const StatChange = ({ current, previous }: { current: number, previous: number }) => {
+    const { locale } = useI18n();
+    const change = relativeChange(current, previous);
+    if (change === null) return null;
+    return (
+        <span className={`stat-change ${change >= 0 ? 'positive' : 'negative'}`}>
+            {formatSignedPercent(change, 1, locale)}
+        </span>
+    );
+};
+
+const AnalyticsView = () => {
+    const { locale, t } = useI18n();
+    const [events, setEvents] = useState<AnalyticsEvent[] | null>(null);
+    const [loadError, setLoadError] = useState(false);
+    const [selectedLinkId, setSelectedLinkId] = useState('all');
+    const [savedLinks, setSavedLinks] = useState<SavedLink[]>([]);
+    const linkNames = useMemo(() => Object.fromEntries(savedLinks.map(l => [l.linkId, l.name])), [savedLinks]);
+
+    useEffect(() => {
+        listLinks()
+            .then(setSavedLinks)
+            .catch(e => console.warn("Failed to load link names:", e));
+
+        // Two periods: the last 30 days and the 30 before them for the change badges.
+        getEventSink().list({ since: Date.now() - 60 * DAY_MS })
+            .then(setEvents)
+            .catch(e => {
+                console.error("Failed to load analytics events:", e);
+                setLoadError(true);
+            });
+    }, []);
 
+    const links = useMemo(() => summarizeLinks(events ?? []), [events]);
+    const stats = useMemo(() => {
+        const scoped = (events ?? []).filter(e => selectedLinkId === 'all' || e.linkId === selectedLinkId);
+        return computePeriodStats(scoped, Date.now());
+    }, [events, selectedLinkId]);
+    const maxDaily = Math.max(1, ...stats.daily.map(d => d.impressions));
+    const buttonClicks = useMemo(
+        () => selectedLinkId === 'all' ? [] : countClicksByButton((events ?? []).filter(e => e.linkId === selectedLinkId)),
+        [events, selectedLinkId],
+    );
+    const savedPayload = savedLinks.find(l => l.linkId === selectedLinkId)?.payload;
+    const buttonLabels = savedPayload ? payloadButtonLabels(savedPayload) : {};
 
     return (
-        <div 
-            className={`cta-container cta-position-${data.position || 'bottom-left'} ${themeStyles.containerClass}`}
-            style={containerStyle}
-        >
-            {data.profileImageUrl ? (
-                 <img src={data.profileImageUrl} alt="Profile" className="cta-profile-img" />
-            ) : (
-                <div className="cta-logo" style={{ filter: themeStyles.logoFilter }}>
-                    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M13.468 3.823a4.072 4.072 0 0 1 5.21 5.21L13 14.732l-5.678-5.677L13.468 3.823Zm-1.616 9.19L3 14.732l5.677 5.678a4.072 4.072 0 0 0 5.21 0l.488-.488L5.94 11.488l6.912 1.523Z" fill="#1877F2"></path></svg>
-                </div>
-            )}
-             {isEditable && editingElement === 'message' ? (
-                <input
-                    type="text"
-                    value={data.message}
-                    onChange={e => onUpdateText?.('message', e.target.value)}
-                    onBlur={onFinishEdit}
-                    onKeyDown={handleTextKeyDown}
-                    className="cta-inline-edit"
-                    autoFocus
-                />
-            ) : (
-                <p 
-                    className="cta-message" 
-                    style={{ color: themeStyles.color, fontSize: `${data.fontSize ?? 14}px` }}
-                    onDoubleClick={() => isEditable && onStartEdit?.('message')}
-                >
-                    {data.message || 'Ваше сообщение здесь...'}
-                </p>
-            )}
-             {isEditable && editingElement === 'buttonText' ? (
-                <input
-                    type="text"
-                    value={data.buttonText}
-                    onChange={e => onUpdateText?.('buttonText', e.target.value)}
-                    onBlur={onFinishEdit}
-                    onKeyDown={handleTextKeyDown}
-                    className="cta-inline-edit cta-inline-edit-button"
-                    autoFocus
-                />
+        <div className="analytics-view">
+            <div className="analytics-header">
+                <h2>{t('tabs.analytics')}</h2>
+                <p>{t('analytics.subtitle')} {isUsingLocalSink() && <span>{t('analytics.localData')}</span>}</p>
+            </div>
+            {loadError ? (
+                <div className="analytics-empty">{t('analytics.loadFailed')}</div>
+            ) : events === null ? (
+                <div className="loading-spinner"></div>
             ) : (
-                <a
-                    href={data.buttonUrl || '#'}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="cta-button"
-                    style={{ 
-                        backgroundColor: data.btnColor || '#1877F2',
-                        borderRadius: `${data.cornerRadius ?? 8}px`,
-                        fontSize: `${data.fontSize ?? 14}px`
-                    }}
-                    onClick={(e) => e.stopPropagation()}
-                    onDoubleClick={() => isEditable && onStartEdit?.('buttonText')}
-                >
-                    {data.buttonText || 'Кнопка'}
-                </a>
+                <>
+                    {links.length > 0 && (
+                        <div className="form-group analytics-filter">
+                            <label htmlFor="analyticsLink">{t('analytics.link')}</label>
+                            <select id="analyticsLink" className="font-select" value={selectedLinkId} onChange={e => setSelectedLinkId(e.target.value)}>
+                                <option value="all">{t('analytics.allLinks')}</option>
+                                {links.map(l => (
+                                    <option key={l.linkId} value={l.linkId}>{linkNames[l.linkId] || l.targetUrl || l.linkId} — {t('analytics.impressions', { count: l.impressions })}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <div className="stats-grid">
+                        <div className="stat-card">
+                            <h3>{t('analytics.totalImpressions')}</h3>
+                            <p>{formatNumber(stats.current.impressions, locale)}</p>
+                            <StatChange current={stats.current.impressions} previous={stats.previous.impressions} />
+                        </div>
+                        <div className="stat-card">
+                            <h3>{t('analytics.totalClicks')}</h3>
+                            <p>{formatNumber(stats.current.clicks, locale)}</p>
+                            <StatChange current={stats.current.clicks} previous={stats.previous.clicks} />
+                        </div>
+                        <div className="stat-card">
+                            <h3>CTR</h3>
+                            <p>{formatPercent(stats.current.ctr, 2, locale)}</p>
+                            <StatChange current={stats.current.ctr} previous={stats.previous.ctr} />
+                        </div>
+                    </div>
+                    <div className="chart-container">
+                        <h3>{t('analytics.last30Days')}</h3>
+                        <div className="chart">
+                            {stats.daily.map(day => (
+                                <div
+                                    key={day.date}
+                                    className="chart-bar"
+                                    style={{ height: `${(day.impressions / maxDaily) * 100}%` }}
+                                    title={`${day.date}: ${t('analytics.impressions', { count: day.impressions })}, ${t('analytics.clicks', { count: day.clicks })}`}
+                                ></div>
+                            ))}
+                        </div>
+                        {buttonClicks.length > 0 && (
+                            <div className="button-clicks">
+                                <h3>{t('analytics.buttonClicks')}</h3>
+                                <ul>
+                                    {buttonClicks.map(({ button, clicks }) => (
+                                        <li key={button}><span>{buttonLabels[button] || button}</span><strong>{formatNumber(clicks, locale)}</strong></li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </div>
+                </>
             )}
         </div>
     );
 };
 
-const AnalyticsView = () => (
-    <div className="analytics-view">
-        <div className="analytics-header">
-            <h2>Аналитика</h2>
-            <p>Отслеживайте эффективность ваших ссылок. <span>(Это демонстрация)</span></p>
-        </div>
-        <div className="stats-grid">
-            <div className="stat-card">
-                <h3>Всего показов</h3>
-                <p>1,250,304</p>
-                <span className="stat-change positive">+12.5%</span>
-            </div>
-            <div className="stat-card">
-                <h3>Всего кликов</h3>
-                <p>87,521</p>
-                <span className="stat-change positive">+8.2%</span>
-            </div>
-            <div className="stat-card">
-                <h3>CTR</h3>
-                <p>7.00%</p>
-                <span className="stat-change negative">-0.3%</span>
-            </div>
-        </div>
-        <div className="chart-container">
-            <h3>Активность за последние 30 дней</h3>
-            <div className="chart">
-                {[...Array(30)].map((_, i) => (
-                    <div key={i} className="chart-bar" style={{ height: `${Math.random() * 80 + 15}%` }} title={`День ${i+1}`}></div>
-                ))}
-            </div>
-        </div>
-    </div>
-);
-
 
 const Slider = ({ label, value, onChange, min, max, step, unit }: { label: string, value: number, onChange: (v: number) => void, min: number, max: number, step: number, unit: string }) => (
     <div className="form-group">
@@ -197,115 +190,128 @@ const Slider = ({ label, value, onChange, min, max, step, unit }: { label: strin
     </div>
 );
 
-const CtaForm = ({ data, setData, onGenerateAI }: { data: CtaData, setData: React.Dispatch<React.SetStateAction<CtaData>>, onGenerateAI: () => void }) => {
-    const updateData = (field: keyof CtaData, value: any) => {
-        setData(prev => ({ ...prev, [field]: value }));
+const CtaForm = ({ data, setData, onGenerateAI, autoUtmContent, device }: { data: CtaData, setData: CtaDataSetter, onGenerateAI: () => void, autoUtmContent?: boolean, device: DeviceType }) => {
+    const { t } = useI18n();
+    // Typing into one field is a single undo step; a discrete choice always is its own step.
+    const updateData = <K extends keyof CtaData>(field: K, value: CtaData[K]) => {
+        setData(prev => ({ ...prev, [field]: value }), { key: `field:${field}` });
+    };
+
+    // While a tablet or phone is previewed, size and rounding are edited for that device only.
+    const styled = applyDeviceOverrides(data, device);
+    const updateStyle = (field: keyof CtaStyleOverride, value: number) => {
+        if (!isOverrideDevice(device)) updateData(field, value);
+        else setData(prev => setDeviceOverride(prev, device, field, value), { key: `field:${device}:${field}` });
     };
+    const hasOverride = isOverrideDevice(device) && !!data.deviceOverrides?.[device];
+
+    const layout = data.layout || DEFAULT_CTA_LAYOUT;
+    const LayoutFields = CTA_LAYOUT_REGISTRY[layout].Fields;
 
     return (
         <>
             <div className="form-group">
-                <label htmlFor="profileImageUrl">URL изображения профиля (необязательно)</label>
-                <input id="profileImageUrl" type="url" placeholder="https://your-site.com/logo.png" value={data.profileImageUrl} onChange={e => updateData('profileImageUrl', e.target.value)} />
+                <label htmlFor="layout">{t('form.layout')}</label>
+                <select id="layout" className="font-select" value={layout} onChange={e => updateData('layout', e.target.value as CtaLayout)}>
+                    {CTA_LAYOUTS.map(l => <option key={l} value={l}>{t(`layout.${l}`)}</option>)}
+                </select>
             </div>
+            {LayoutFields && <LayoutFields data={data} updateData={updateData} />}
             <div className="form-group">
                 <div className="label-with-action">
-                    <label htmlFor="message">Сообщение (CTA)</label>
-                    <button className="ai-button" onClick={onGenerateAI} title="Сгенерировать с помощью ИИ">✨ ИИ</button>
+                    <label htmlFor="message">{t('form.message')}</label>
+                    <button className="ai-button" onClick={onGenerateAI} title={t('form.aiButtonTitle')}>{t('form.aiButton')}</button>
                 </div>
-                <input id="message" type="text" placeholder="Ваше сообщение..." value={data.message} onChange={e => updateData('message', e.target.value)} />
-            </div>
-            <div className="form-group">
-                <label htmlFor="buttonText">Текст кнопки</label>
-                <input id="buttonText" type="text" placeholder="Текст на кнопке" value={data.buttonText} onChange={e => updateData('buttonText', e.target.value)} />
-            </div>
-            <div className="form-group">
-                <label htmlFor="buttonUrl">URL кнопки</label>
-                <input id="buttonUrl" type="url" placeholder="https://your-brand.com" value={data.buttonUrl} onChange={e => updateData('buttonUrl', e.target.value)} />
+                <input id="message" type="text" placeholder={t('form.messagePlaceholder')} value={data.message} onChange={e => updateData('message', e.target.value)} />
             </div>
-            <div className="form-group">
-                <label>Позиция</label>
+            <ButtonListEditor data={data} setData={setData} leadForm={!hasButtonLink(layout)} autoUtmContent={autoUtmContent} />
+            {isPositionedLayout(layout) && <div className="form-group">
+                <label>{t('form.position')}</label>
                 <div className="radio-group">
-                    <button className={data.position === 'bottom-left' ? 'active' : ''} onClick={() => updateData('position', 'bottom-left')}>Слева</button>
-                    <button className={data.position === 'bottom-right' ? 'active' : ''} onClick={() => updateData('position', 'bottom-right')}>Справа</button>
-                     <button className={data.position === 'bottom-banner' ? 'active' : ''} onClick={() => updateData('position', 'bottom-banner')}>Баннер</button>
-                     <button className={data.position === 'custom' ? 'active' : ''} disabled>Перетащи</button>
+                    <button className={data.position === 'bottom-left' ? 'active' : ''} onClick={() => updateData('position', 'bottom-left')}>{t('form.position.left')}</button>
+                    <button className={data.position === 'bottom-right' ? 'active' : ''} onClick={() => updateData('position', 'bottom-right')}>{t('form.position.right')}</button>
+                     <button className={data.position === 'bottom-banner' ? 'active' : ''} onClick={() => updateData('position', 'bottom-banner')}>{t('form.position.banner')}</button>
+                     <button className={data.position === 'custom' ? 'active' : ''} disabled>{t('form.position.custom')}</button>
                 </div>
-            </div>
+            </div>}
              <div className="form-group">
-                <label>Тема</label>
+                <label>{t('form.theme')}</label>
                 <div className="radio-group">
-                    <button className={data.theme === 'light' ? 'active' : ''} onClick={() => updateData('theme', 'light')}>Светлая</button>
-                    <button className={data.theme === 'dark' ? 'active' : ''} onClick={() => updateData('theme', 'dark')}>Темная</button>
+                    <button className={data.theme === 'light' ? 'active' : ''} onClick={() => updateData('theme', 'light')}>{t('form.theme.light')}</button>
+                    <button className={data.theme === 'dark' ? 'active' : ''} onClick={() => updateData('theme', 'dark')}>{t('form.theme.dark')}</button>
                 </div>
             </div>
             <div className="form-group color-group">
                 <div>
-                    <label htmlFor="bgColor">Цвет фона</label>
+                    <label htmlFor="bgColor">{t('form.bgColor')}</label>
                     <input id="bgColor" type="color" value={data.bgColor} onChange={e => updateData('bgColor', e.target.value)} />
                 </div>
-                <div>
-                    <label htmlFor="btnColor">Цвет кнопки</label>
-                    <input id="btnColor" type="color" value={data.btnColor} onChange={e => updateData('btnColor', e.target.value)} />
-                </div>
             </div>
-            <div className="form-divider">Продвинутый стиль</div>
+            <div className="form-divider">{t('form.advancedStyle')}</div>
             <div className="form-group">
-                <label htmlFor="fontFamily">Шрифт</label>
+                <label htmlFor="fontFamily">{t('form.font')}</label>
                 <select id="fontFamily" className="font-select" value={data.fontFamily} onChange={e => updateData('fontFamily', e.target.value)}>
-                    <option style={{fontFamily: "'Inter', sans-serif"}} value="'Inter', sans-serif">Inter</option>
-                    <option style={{fontFamily: "'Poppins', sans-serif"}} value="'Poppins', sans-serif">Poppins</option>
-                    <option style={{fontFamily: "'Roboto', sans-serif"}} value="'Roboto', sans-serif">Roboto</option>
-                    <option style={{fontFamily: "'Lora', serif"}} value="'Lora', serif">Lora</option>
-                    <option style={{fontFamily: "'Playfair Display', serif"}} value="'Playfair Display', serif">Playfair Display</option>
+                    {CTA_FONTS.map(font => <option key={font.value} style={{fontFamily: font.value}} value={font.value}>{font.label}</option>)}
                 </select>
             </div>
-            <Slider label="Размер шрифта" value={data.fontSize} onChange={v => updateData('fontSize', v)} min={10} max={24} step={1} unit="px" />
-            <Slider label="Масштаб" value={data.scale} onChange={v => updateData('scale', v)} min={0.8} max={1.5} step={0.05} unit="x" />
-            <Slider label="Скругление углов" value={data.cornerRadius} onChange={v => updateData('cornerRadius', v)} min={0} max={30} step={1} unit="px" />
+            {isOverrideDevice(device) && (
+                <p className="schedule-hint device-style-hint">
+                    {t('form.deviceStyleHint', { device: t(`device.${device}`) })}
+                    {hasOverride && <button onClick={() => setData(prev => clearDeviceOverride(prev, device))}>{t('form.sameAsDesktop')}</button>}
+                </p>
+            )}
+            <Slider label={t('form.fontSize')} value={styled.fontSize} onChange={v => updateStyle('fontSize', v)} min={10} max={24} step={1} unit="px" />
+            <Slider label={t('form.scale')} value={styled.scale} onChange={v => updateStyle('scale', v)} min={isOverrideDevice(device) ? MIN_DEVICE_SCALE : 0.8} max={1.5} step={0.05} unit="x" />
+            <Slider label={t('form.cornerRadius')} value={styled.cornerRadius} onChange={v => updateStyle('cornerRadius', v)} min={0} max={30} step={1} unit="px" />
+            <div className="form-divider">{t('form.behavior')}</div>
+            <div className="form-group">
+                <label htmlFor="animation">{t('form.animation')}</label>
+                <select id="animation" className="font-select" value={data.animation || DEFAULT_CTA_ANIMATION} onChange={e => updateData('animation', e.target.value as CtaAnimation)}>
+                    {CTA_ANIMATIONS.map(animation => <option key={animation} value={animation}>{t(`animation.${animation}`)}</option>)}
+                </select>
+            </div>
+            <Slider label={t('form.showDelay')} value={data.showDelay ?? 0} onChange={v => updateData('showDelay', v)} min={0} max={MAX_SHOW_DELAY_SECONDS} step={1} unit={t('form.secondsUnit')} />
+            <label className="checkbox-row">
+                <input type="checkbox" checked={!!data.showOnExitIntent} onChange={e => updateData('showOnExitIntent', e.target.checked)} />
+                {t('form.exitIntent')}
+            </label>
+            {data.showOnExitIntent && (
+                <p className="schedule-hint">{t(data.showDelay ? 'form.exitIntentHintWithDelay' : 'form.exitIntentHint')}</p>
+            )}
+            <label className="checkbox-row">
+                <input type="checkbox" checked={!!data.dismissible} onChange={e => updateData('dismissible', e.target.checked)} />
+                {t('form.dismissible')}
+            </label>
         </>
     );
 }
 
-const AISuggestionsModal = ({ suggestions, onSelect, onClose, isLoading }: { suggestions: AISuggestion[], onSelect: (suggestion: AISuggestion) => void, onClose: () => void, isLoading: boolean }) => (
-    <div className="modal-overlay" onClick={onClose}>
-        <div className="modal-content" onClick={e => e.stopPropagation()}>
-            <h3>✨ AI Предложения</h3>
-            {isLoading ? (
-                <div className="loading-spinner"></div>
-            ) : suggestions.length > 0 ? (
-                <ul>
-                    {suggestions.map((s, i) => (
-                        <li key={i}>
-                            <div className="suggestion-text">
-                                <p><strong>Сообщение:</strong> {s.message}</p>
-                                <p><strong>Текст кнопки:</strong> {s.buttonText}</p>
-                            </div>
-                            <button onClick={() => onSelect(s)}>Использовать</button>
-                        </li>
-                    ))}
-                </ul>
-            ) : (
-                <p>Не удалось сгенерировать предложения. Попробуйте другой URL.</p>
-            )}
-            <button className="modal-close-btn" onClick={onClose}>Закрыть</button>
-        </div>
-    </div>
-);
 
+/** Room around a device frame in the preview, its bezel included; matches .device-frame-sized. */
+const DEVICE_FRAME_MARGIN_PX = 24;
+/** Pointer travel before a press on the CTA counts as a drag. */
+const DRAG_START_PX = 3;
+const NUDGE_KEYS: Record<string, { x: number, y: number }> = {
+    ArrowLeft: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 },
+    ArrowUp: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 },
+};
+
+const EMPTY_SCHEDULE: LinkSchedule = { fallback: { type: 'plain' } };
+const EMPTY_TARGETING: Targeting = { rules: [] };
 
 /**
  * The view for creating and configuring the CTA.
  */
 const CreatorView = () => {
+    const { locale, setLocale, t } = useI18n();
     const initialCtaData: CtaData = {
-        message: 'Продвигайте свой бренд с каждой ссылкой!',
-        buttonText: 'Узнать больше',
-        buttonUrl: '',
+        message: t('defaults.message'),
+        buttons: [newButton({ text: t('defaults.buttonText') })],
         position: 'bottom-left',
         theme: 'light',
         bgColor: '#ffffff',
-        btnColor: '#1877f2',
         profileImageUrl: '',
         fontFamily: "'Inter', sans-serif",
         fontSize: 14,
@@ -314,56 +320,244 @@ const CreatorView = () => {
     };
     
     const [targetUrl, setTargetUrl] = useState('');
-    const [data, setData] = useState<CtaData>(initialCtaData);
-    const [variantA, setVariantA] = useState<CtaData>({...initialCtaData, message: 'Вариант А: Привлекайте новых клиентов!'});
-    const [variantB, setVariantB] = useState<CtaData>({...initialCtaData, message: 'Вариант Б: Увеличьте свои продажи!', btnColor: '#f2184f', position: 'bottom-right'});
-    const [activeAbVariant, setActiveAbVariant] = useState<'A' | 'B'>('A');
+    const store = useVariantStore(initialCtaData, [
+        { key: 'A', name: t('defaults.variantName', { key: 'A' }), weight: 1, data: { ...initialCtaData, message: t('defaults.variantAMessage') } },
+        { key: 'B', name: t('defaults.variantName', { key: 'B' }), weight: 1, data: { ...initialCtaData, message: t('defaults.variantBMessage'), buttons: initialCtaData.buttons.map(b => ({ ...b, color: '#f2184f' })), position: 'bottom-right' } },
+    ]);
 
     const [generatedLink, setGeneratedLink] = useState('');
     const [copied, setCopied] = useState(false);
     const [activeTab, setActiveTab] = useState('create');
+
+    const editorMode: EditorMode = activeTab === 'ab-test' ? 'ab' : 'single';
+    const currentData = store.getData(editorMode);
+    const setCurrentData = store.setDataFor(editorMode);
+
+    const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+    const [savedToLibrary, setSavedToLibrary] = useState(false);
+    // A published short link opened from the library; generating re-publishes it in place.
+    const [editingLink, setEditingLink] = useState<SavedLink | null>(null);
     
     const [previewUrl, setPreviewUrl] = useState('');
     const [previewError, setPreviewError] = useState(false);
+    const previewFrame = useFrameStatus(previewUrl);
+    const isPreviewBlocked = previewError || previewFrame.status === 'blocked';
+    const [framingFallback, setFramingFallback] = useState<FramingFallback>(DEFAULT_FRAMING_FALLBACK);
+    const [schedule, setSchedule] = useState<LinkSchedule>(EMPTY_SCHEDULE);
+    const [targeting, setTargeting] = useState<Targeting>(EMPTY_TARGETING);
+    const [autoUtmContent, setAutoUtmContent] = useState(false);
+    // While editing the CTA is always shown; "play" runs its delay and exit intent as a visitor would see them.
+    const [revealPlayback, setRevealPlayback] = useState({ key: 0, playing: false });
+    const previewReveal = useCtaReveal(currentData, { replayKey: revealPlayback.key, enabled: revealPlayback.playing });
+    const replayReveal = (playing: boolean) => setRevealPlayback(p => ({ key: p.key + 1, playing }));
     
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [aiSuggestions, setAiSuggestions] = useState<AISuggestion[]>([]);
     const [isAiLoading, setIsAiLoading] = useState(false);
+    const [aiError, setAiError] = useState<MessageKey | null>(null);
+    const [copySettings, setCopySettings] = useState<CopySettings>(loadCopySettings);
+    const [copyOptions, setCopyOptions] = useState<CopyOptions>(() => ({ ...DEFAULT_COPY_OPTIONS, language: locale }));
+    // The target page as last read for the AI; content is null when it couldn't be read.
+    const [aiPage, setAiPage] = useState<{ url: string, content: PageContent | null } | null>(null);
 
     // Canva-like editor state
-    const [editingElement, setEditingElement] = useState<null | 'message' | 'buttonText'>(null);
-    const dragData = useRef({ isDragging: false, startX: 0, startY: 0, initialX: 0, initialY: 0 });
-    const previewPanelRef = useRef<HTMLDivElement>(null);
+    const [editingElement, setEditingElement] = useState<EditableElement | null>(null);
+    const dragData = useRef({ isDragging: false, moved: false, startX: 0, startY: 0, origin: { x: 0, y: 0 }, page: { width: 0, height: 0 }, cta: { width: 0, height: 0 }, zoom: 1, gesture: 0 });
+    const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
 
+    // Device preview: the frame gets the device's screen size and is zoomed out to fit the panel.
+    const [devicePreview, setDevicePreview] = useState({ presetId: DEVICE_PRESETS[0].id, landscape: false });
+    const devicePreset = DEVICE_PRESETS.find(p => p.id === devicePreview.presetId) ?? DEVICE_PRESETS[0];
+    const screenSize = presetScreenSize(devicePreset, devicePreview.landscape);
+    const previewDevice: DeviceType = screenSize ? deviceFromWidth(screenSize.width) : 'desktop';
+    const previewContentRef = useRef<HTMLDivElement>(null);
+    const screenZoom = useFitScale(previewContentRef, screenSize, DEVICE_FRAME_MARGIN_PX);
+    const previewData = applyDeviceOverrides(currentData, previewDevice);
 
-    const handleGenerateLink = () => {
+
+    const handleGenerateLink = async () => {
         if (!targetUrl) {
-            alert('Пожалуйста, заполните "Целевой URL".');
+            alert(t('creator.error.targetUrlRequired'));
             return;
         }
 
+        if (!isEmptySchedule(schedule)) {
+            if (schedule.activeFrom !== undefined && schedule.expiresAt !== undefined && schedule.expiresAt <= schedule.activeFrom) {
+                alert(t('creator.error.scheduleWindow'));
+                return;
+            }
+            if (schedule.fallback.type === 'redirect' && !schedule.fallback.url) {
+                alert(t('creator.error.redirectUrlRequired'));
+                return;
+            }
+            const missingFallbackField = schedule.fallback.type === 'alternate' && missingCtaField(schedule.fallback.data);
+            if (missingFallbackField) {
+                alert(t('creator.error.fallbackFieldRequired', { field: t(missingFallbackField) }));
+                return;
+            }
+        }
+        const linkSettings = { fallback: framingFallback, ...(isEmptySchedule(schedule) ? {} : { schedule }) };
+
         let payload: LinkPayload;
 
-        if(activeTab === 'create') {
-             if (!data.buttonUrl) {
-                alert('Пожалуйста, заполните "URL кнопки".');
+        if (editorMode === 'single') {
+            const missingField = missingCtaField(store.single);
+            if (missingField) {
+                alert(t('creator.error.fieldRequired', { field: t(missingField) }));
                 return;
             }
-            payload = { type: 'single', data: { ...data, targetUrl } };
+            payload = { type: 'single', data: { ...store.single, targetUrl }, ...linkSettings };
         } else { // A/B Test
-             if (!variantA.buttonUrl || !variantB.buttonUrl) {
-                alert('Пожалуйста, заполните "URL кнопки" для обоих вариантов.');
+            const missing = store.variants.find(v => missingCtaField(v.data));
+            if (missing) {
+                alert(t('creator.error.variantFieldRequired', { field: t(missingCtaField(missing.data)), variant: missing.name }));
+                return;
+            }
+            if (store.variants.every(v => v.weight <= 0)) {
+                alert(t('creator.error.zeroWeights'));
+                return;
+            }
+            const keys = store.variants.map(v => v.key);
+            const brokenRule = targeting.rules.findIndex(r => !keys.includes(r.variant) || !r.conditions.length);
+            if (brokenRule >= 0) {
+                alert(t('creator.error.brokenRule', { index: brokenRule + 1 }));
                 return;
             }
-            payload = { type: 'ab', targetUrl, variants: [variantA, variantB] };
+            const hasTargeting = targeting.rules.length > 0 || !!targeting.defaultVariant;
+            const variants = autoUtmContent ? tagVariantsWithUtmContent(store.variants) : store.variants;
+            payload = { type: 'ab', targetUrl, variants, ...linkSettings, ...(hasTargeting ? { targeting } : {}) };
+        }
+
+        const unsafe = findUnsafePayloadUrl(payload);
+        if (unsafe) {
+            alert(t('creator.error.unsafeUrl', { url: unsafe.url, reason: t(`url.${unsafe.reason}`) }));
+            return;
         }
 
-        const jsonString = JSON.stringify(payload);
-        const encodedData = btoa(jsonString);
-        const link = `${window.location.origin}${window.location.pathname}#${encodedData}`;
+        setSavedToLibrary(false);
+
+        if (editingLink) {
+            try {
+                await updatePublishedLink(editingLink.slug, editingLink.editToken, payload);
+            } catch (e) {
+                console.error("Failed to update published link:", e);
+                alert(t(e instanceof LinkServiceError && e.code === 'forbidden' ? 'creator.error.updateForbidden' : 'creator.error.updateFailed'));
+                return;
+            }
+            setGeneratedLink(editingLink.url);
+            updateLink(editingLink, { payload })
+                .then(updated => { setEditingLink(updated); setSavedToLibrary(true); })
+                .catch(e => console.warn("Failed to update link in library:", e));
+            return;
+        }
+
+        let published: PublishedLink | undefined;
+        if (isLinkServiceEnabled()) {
+            try {
+                published = await publishLink(payload);
+            } catch (e) {
+                console.warn("Link service unavailable, falling back to a hash link:", e);
+                alert(t('creator.error.shortLinksUnavailable'));
+            }
+        }
+
+        let link: string;
+        let linkId: string;
+        if (published) {
+            link = shortLinkUrl(published.slug);
+            linkId = linkIdFromSlug(published.slug);
+        } else {
+            let encodedData: string;
+            try {
+                encodedData = await encodeLinkPayload(payload);
+            } catch (e) {
+                console.error("Failed to encode link payload:", e);
+                alert(t('creator.error.encodeFailed'));
+                return;
+            }
+            link = `${window.location.origin}${window.location.pathname}#${encodedData}`;
+            linkId = linkIdFromHash(encodedData);
+        }
         setGeneratedLink(link);
+
+        createLink({ payload, url: link, linkId, name: defaultLinkName(payload, t('library.untitled')), ...published })
+            .then(saved => {
+                setSavedToLibrary(true);
+                if (saved.editToken) setEditingLink(saved);
+            })
+            .catch(e => console.warn("Failed to save link to library:", e));
+    };
+
+    const openInEditor = (payload: LinkPayload, link?: SavedLink) => {
+        setEditingLink(link?.slug && link.editToken ? link : null);
+        if (payload.type === 'single') {
+            const { targetUrl: url, ...cta } = payload.data;
+            store.setDataFor('single')(cta);
+            setTargetUrl(url);
+            setActiveTab('create');
+        } else {
+            store.replaceVariants(payload.variants);
+            setTargetUrl(payload.targetUrl);
+            setActiveTab('ab-test');
+        }
+        setFramingFallback(payload.fallback ?? DEFAULT_FRAMING_FALLBACK);
+        setSchedule(payload.schedule ?? EMPTY_SCHEDULE);
+        setTargeting((payload.type === 'ab' && payload.targeting) || EMPTY_TARGETING);
+        setPreviewError(false);
+        setGeneratedLink('');
     };
 
+    // Restore the auto-saved draft once, then keep saving it (debounced) on every change.
+    useEffect(() => {
+        loadDraft()
+            .then(draft => {
+                if (!draft) return;
+                store.load(draft.single, draft.variants, draft.activeVariantKey);
+                setTargetUrl(draft.targetUrl);
+                if (draft.framingFallback) setFramingFallback(draft.framingFallback);
+                if (draft.schedule) setSchedule(draft.schedule);
+                if (draft.targeting) setTargeting(draft.targeting);
+                if (draft.autoUtmContent) setAutoUtmContent(true);
+                if (draft.activeTab === 'create' || draft.activeTab === 'ab-test') setActiveTab(draft.activeTab);
+            })
+            .catch(e => console.warn("Failed to restore draft:", e))
+            .finally(() => setIsDraftLoaded(true));
+    }, []);
+
+    useEffect(() => {
+        if (!isDraftLoaded) return;
+        const timer = setTimeout(() => {
+            saveDraft({
+                targetUrl,
+                framingFallback,
+                schedule,
+                targeting,
+                autoUtmContent,
+                activeTab,
+                single: store.single,
+                variants: store.variants,
+                activeVariantKey: store.activeVariant.key,
+                savedAt: Date.now(),
+            }).catch(e => console.warn("Failed to save draft:", e));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [isDraftLoaded, targetUrl, framingFallback, schedule, targeting, autoUtmContent, activeTab, store.single, store.variants, store.activeVariant.key]);
+
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, on the editor tabs only.
+    useEffect(() => {
+        if (activeTab !== 'create' && activeTab !== 'ab-test') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) store.undo(editorMode);
+            else if ((key === 'z' && e.shiftKey) || key === 'y') store.redo(editorMode);
+            else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [activeTab, editorMode, store.undo, store.redo]);
+
     const handleCopy = () => {
         navigator.clipboard.writeText(generatedLink).then(() => {
             setCopied(true);
@@ -371,124 +565,158 @@ const CreatorView = () => {
         });
     };
     
-    const handleGenerateSuggestions = async () => {
-        if (!ai) {
-            alert("Сервис AI не инициализирован.");
-            return;
-        }
-        const currentData = activeTab === 'create' ? data : (activeAbVariant === 'A' ? variantA : variantB);
-        if (!targetUrl || !currentData.buttonUrl) {
-            alert('Пожалуйста, укажите "Целевой URL" и "URL кнопки" для генерации предложений.');
-            return;
-        }
-        
-        setIsModalOpen(true);
+    const generateSuggestions = async () => {
         setIsAiLoading(true);
         setAiSuggestions([]);
+        setAiError(null);
 
         try {
-            const prompt = `You are a marketing copywriter expert. Analyze the webpage at the URL "${targetUrl}". Based on its content, suggest 3 compelling and concise Call-To-Action (CTA) messages. For each message, also provide a short, motivating button text. The button will link to "${currentData.buttonUrl}". The goal is to maximize user clicks.`;
-            
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            suggestions: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        message: { type: Type.STRING, description: 'The compelling CTA message text.' },
-                                        buttonText: { type: Type.STRING, description: 'The motivating button text.' }
-                                    },
-                                    required: ["message", "buttonText"]
-                                }
-                            }
-                        }
-                    }
-                }
-            });
-            const json = JSON.parse(response.text);
-            setAiSuggestions(json.suggestions || []);
-// FIX: Corrected syntax for catch block. The `=>` is invalid here.
+            let page = aiPage?.url === targetUrl ? aiPage.content : undefined;
+            if (page === undefined && isPageContentEnabled()) {
+                page = await fetchPageContent(targetUrl).catch(e => {
+                    console.warn("Page content extraction failed:", e);
+                    return null;
+                });
+                setAiPage({ url: targetUrl, content: page });
+            }
+            setAiSuggestions(await generateCopy(copyRequestFor(currentData, targetUrl, copyOptions, page ?? undefined), copySettings));
         } catch (error) {
             console.error("AI suggestion generation failed:", error);
-            setAiSuggestions([]);
+            setAiError(error instanceof CopyProviderError ? `copyError.${error.code}` : null);
         } finally {
             setIsAiLoading(false);
         }
     };
     
-    const applySuggestion = (suggestion: AISuggestion) => {
-        const currentSetData = activeTab === 'create' ? setData : (activeAbVariant === 'A' ? setVariantA : setVariantB);
-        currentSetData(prev => ({ ...prev, ...suggestion }));
+    const handleGenerateSuggestions = () => {
+        if (!targetUrl || (hasButtonLink(currentData.layout) && !currentData.buttons[0]?.target)) {
+            alert(t('creator.error.aiInputRequired'));
+            return;
+        }
+        setIsModalOpen(true);
+        generateSuggestions();
+    };
+
+    const handleApplySuggestion = (suggestion: AISuggestion) => {
+        setCurrentData(prev => applySuggestion(prev, suggestion));
+        setIsModalOpen(false);
+    };
+
+    const handleSuggestionAsVariant = (suggestion: AISuggestion) => {
+        store.addVariant(applySuggestion(currentData, suggestion));
+        setActiveTab('ab-test');
         setIsModalOpen(false);
     };
     
     // --- Direct Manipulation Handlers ---
     
-    const handleStartEdit = (element: 'message' | 'buttonText') => {
+    const handleStartEdit = (element: EditableElement) => {
         setEditingElement(element);
     };
 
-    const handleUpdateText = (element: 'message' | 'buttonText', text: string) => {
-         const currentSetData = activeTab === 'create' ? setData : (activeAbVariant === 'A' ? setVariantA : setVariantB);
-         currentSetData(prev => ({ ...prev, [element]: text }));
+    const handleUpdateText = (element: EditableElement, text: string) => {
+         setCurrentData(
+             prev => element.startsWith('button:') ? updateButton(prev, element.slice('button:'.length), { text }) : { ...prev, [element]: text },
+             { key: `text:${element}` },
+         );
     };
     
     const handleFinishEdit = () => {
         setEditingElement(null);
     };
 
-    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (editingElement) return; // Don't drag while editing text
+    const dragCoalesce = () => ({ key: `drag:${dragData.current.gesture}`, windowMs: Infinity });
+
+    /**
+     * The preview (the wrapper covers it) and the CTA as drawn, with the CTA's
+     * top-left corner in it, all in the previewed page's pixels. `zoom` turns
+     * screen pixels into those while a device frame is zoomed out.
+     */
+    const measureCta = (wrapper: HTMLElement) => {
+        const container = wrapper.querySelector<HTMLElement>('.cta-container');
+        if (!container) return null;
+        const wrapperRect = wrapper.getBoundingClientRect();
+        const zoom = wrapperRect.width / wrapper.clientWidth || 1;
+        const page = { width: wrapper.clientWidth, height: wrapper.clientHeight };
+        const cta = { width: container.offsetWidth * previewData.scale, height: container.offsetHeight * previewData.scale };
+        if (previewData.position === 'custom' && previewData.customPosition) {
+            return { page, cta, zoom, point: resolvePlacement(previewData.customPosition, page, cta) };
+        }
+        const rect = container.getBoundingClientRect();
+        return { page, cta, zoom, point: { x: (rect.left - wrapperRect.left) / zoom, y: (rect.top - wrapperRect.top) / zoom } };
+    };
 
-        const target = e.currentTarget;
-        const currentSetData = activeTab === 'create' ? setData : (activeAbVariant === 'A' ? setVariantA : setVariantB);
-        const currentData = activeTab === 'create' ? data : (activeAbVariant === 'A' ? variantA : variantB);
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (editingElement) return; // Don't drag while editing text
+        if (!isPositionedLayout(currentData.layout)) return; // The top bar and the modal place themselves
+        if (e.button !== 0 || !(e.target as HTMLElement).closest('.cta-container')) return;
 
-        currentSetData(prev => ({...prev, position: 'custom'}));
+        const wrapper = e.currentTarget;
+        const measured = measureCta(wrapper);
+        if (!measured) return;
+        wrapper.focus({ preventScroll: true }); // Arrow keys nudge from here on
 
         dragData.current = {
             isDragging: true,
+            moved: false,
             startX: e.clientX,
             startY: e.clientY,
-            initialX: target.offsetLeft,
-            initialY: target.offsetTop
+            origin: measured.point,
+            page: measured.page,
+            cta: measured.cta,
+            zoom: measured.zoom,
+            gesture: dragData.current.gesture + 1,
         };
-        
-        document.addEventListener('mousemove', handleMouseMove);
-        document.addEventListener('mouseup', handleMouseUp);
-    };
 
-    const handleMouseMove = (e: MouseEvent) => {
-        if (!dragData.current.isDragging || !previewPanelRef.current) return;
-        
-        const dx = e.clientX - dragData.current.startX;
-        const dy = e.clientY - dragData.current.startY;
+        document.addEventListener('pointermove', handlePointerMove);
+        document.addEventListener('pointerup', handlePointerUp);
+        document.addEventListener('pointercancel', handlePointerUp);
+    };
 
-        const previewRect = previewPanelRef.current.getBoundingClientRect();
-        
-        const currentSetData = activeTab === 'create' ? setData : (activeAbVariant === 'A' ? setVariantA : setVariantB);
-
-        currentSetData(prev => {
-             const newX = dragData.current.initialX + dx;
-             const newY = dragData.current.initialY + dy;
-             // a bit of clamping to stay within view, this could be improved
-             const clampedX = Math.max(0, Math.min(newX, previewRect.width - (prev.scale * 300))); // assuming avg width
-             const clampedY = Math.max(0, Math.min(newY, previewRect.height - (prev.scale * 60))); // assuming avg height
-             return { ...prev, customPosition: { x: clampedX, y: clampedY } };
-        });
+    const handlePointerMove = (e: PointerEvent) => {
+        const drag = dragData.current;
+        if (!drag.isDragging) return;
+
+        const dx = (e.clientX - drag.startX) / drag.zoom;
+        const dy = (e.clientY - drag.startY) / drag.zoom;
+        // A click or double-click (to edit text) shouldn't turn a preset position into a custom one.
+        if (!drag.moved && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_START_PX) return;
+        drag.moved = true;
+
+        const moved = clampPoint({ x: drag.origin.x + dx, y: drag.origin.y + dy }, drag.page, drag.cta);
+        // Alt turns snapping off for fine placement near a guide.
+        const snapped = e.altKey ? { point: moved, guides: [] } : snapPoint(moved, drag.page, drag.cta);
+        setSnapGuides(snapped.guides);
+        // The whole drag, however long, is one undo step.
+        setCurrentData(prev => ({
+            ...prev,
+            position: 'custom',
+            customPosition: placementFromPoint(snapped.point, drag.page, drag.cta),
+        }), dragCoalesce());
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = () => {
         dragData.current.isDragging = false;
-        document.removeEventListener('mousemove', handleMouseMove);
-        document.removeEventListener('mouseup', handleMouseUp);
+        setSnapGuides([]);
+        document.removeEventListener('pointermove', handlePointerMove);
+        document.removeEventListener('pointerup', handlePointerUp);
+        document.removeEventListener('pointercancel', handlePointerUp);
+    };
+
+    const handleNudge = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = NUDGE_KEYS[e.key];
+        // Keys typed into the CTA's inline editors reach the wrapper too.
+        if (!step || e.target !== e.currentTarget || !isPositionedLayout(currentData.layout)) return;
+        const measured = measureCta(e.currentTarget);
+        if (!measured) return;
+        e.preventDefault();
+        const distance = e.shiftKey ? 10 : 1;
+        const point = clampPoint({ x: measured.point.x + step.x * distance, y: measured.point.y + step.y * distance }, measured.page, measured.cta);
+        setCurrentData(prev => ({
+            ...prev,
+            position: 'custom',
+            customPosition: placementFromPoint(point, measured.page, measured.cta),
+        }), { key: 'nudge' });
     };
 
 
@@ -496,73 +724,161 @@ const CreatorView = () => {
         switch (activeTab) {
             case 'analytics':
                 return <AnalyticsView />;
+            case 'library':
+                return <LinkLibraryView onOpenInEditor={openInEditor} />;
+            case 'settings':
+                return <CopySettingsView settings={copySettings} onChange={settings => { setCopySettings(settings); saveCopySettings(settings); }} />;
             case 'ab-test':
             case 'create':
             default:
                 const isAbTest = activeTab === 'ab-test';
-                const currentData = isAbTest ? (activeAbVariant === 'A' ? variantA : variantB) : data;
-                const currentSetData = isAbTest ? (activeAbVariant === 'A' ? setVariantA : setVariantB) : setData;
+                const targetUrlError = urlFieldError(targetUrl);
 
                 return (
                     <main className="creator-main">
                         <div className="form-panel">
                              <div className="form-group">
-                                <label htmlFor="targetUrl">Целевой URL</label>
+                                <label htmlFor="targetUrl">{t('creator.targetUrl')}</label>
                                 <input id="targetUrl" type="url" placeholder="https://example.com/article" value={targetUrl} onChange={e => { setTargetUrl(e.target.value); setPreviewError(false); }} />
-                                <button className="preview-update-btn" onClick={() => setPreviewUrl(targetUrl)}>Обновить предпросмотр</button>
+                                {targetUrlError && <p className="field-error">{t(targetUrlError)}</p>}
+                                <button className="preview-update-btn" onClick={() => setPreviewUrl(toSafeUrl(targetUrl) ?? '')} disabled={!!targetUrlError}>{t('creator.updatePreview')}</button>
                             </div>
+                            <div className="form-group">
+                                <label htmlFor="framingFallback">{t('creator.framingFallback')}</label>
+                                <select id="framingFallback" className="font-select" value={framingFallback} onChange={e => setFramingFallback(e.target.value as FramingFallback)}>
+                                    {FRAMING_FALLBACKS.map(mode => <option key={mode} value={mode}>{t(`framing.mode.${mode}`)}</option>)}
+                                </select>
+                            </div>
+                            <SchedulePanel schedule={schedule} baseData={currentData} onChange={setSchedule} />
 
                             {isAbTest && (
-                                <div className="ab-variant-switcher">
-                                    <button className={activeAbVariant === 'A' ? 'active' : ''} onClick={() => setActiveAbVariant('A')}>Вариант А</button>
-                                    <button className={activeAbVariant === 'B' ? 'active' : ''} onClick={() => setActiveAbVariant('B')}>Вариант B</button>
+                                <AbVariantManager
+                                    variants={store.variants}
+                                    activeKey={store.activeVariant.key}
+                                    canAdd={store.canAddVariant}
+                                    canDelete={store.canDeleteVariant}
+                                    onSelect={store.selectVariant}
+                                    onAdd={() => store.addVariant({ ...initialCtaData })}
+                                    onDuplicate={store.duplicateVariant}
+                                    onRename={store.renameVariant}
+                                    onDelete={store.deleteVariant}
+                                    onWeightChange={store.setVariantWeight}
+                                />
+                            )}
+                            {isAbTest && (
+                                <label className="checkbox-row">
+                                    <input type="checkbox" checked={autoUtmContent} onChange={e => setAutoUtmContent(e.target.checked)} />
+                                    {t('creator.autoUtmContent')}
+                                </label>
+                            )}
+                            {isAbTest && <TargetingPanel targeting={targeting} variants={store.variants} onChange={setTargeting} />}
+                            <BrandKitPanel
+                                data={currentData}
+                                targets={isAbTest ? store.variants.map(v => ({ key: v.key, name: v.name || v.key })) : [{ key: 'single', name: t('creator.draft') }]}
+                                activeTarget={isAbTest ? store.activeVariant.key : 'single'}
+                                onApply={(key, transform) => (isAbTest ? store.setVariantData(key) : setCurrentData)(transform)}
+                            />
+                            <CtaForm data={currentData} setData={setCurrentData} onGenerateAI={handleGenerateSuggestions} autoUtmContent={isAbTest && autoUtmContent} device={previewDevice} />
+                            {editingLink && (
+                                <div className="editing-link-note">
+                                    <span>{t('creator.editingLink', { name: editingLink.name })}</span>
+                                    <button onClick={() => { setEditingLink(null); setGeneratedLink(''); }}>{t('creator.createNew')}</button>
                                 </div>
                             )}
-                            <CtaForm data={currentData} setData={currentSetData} onGenerateAI={handleGenerateSuggestions} />
-                            <button className="generate-btn" onClick={handleGenerateLink}>Сгенерировать ссылку</button>
+                            <button className="generate-btn" onClick={handleGenerateLink}>{t(editingLink ? 'creator.updateLink' : 'creator.generateLink')}</button>
                             {generatedLink && (
                                 <div className="generated-link-container">
                                     <input type="text" readOnly value={generatedLink} />
-                                    <button onClick={handleCopy}>{copied ? 'Скопировано!' : 'Копировать'}</button>
+                                    <button onClick={handleCopy}>{t(copied ? 'common.copied' : 'common.copy')}</button>
                                 </div>
                             )}
+                            {generatedLink && savedToLibrary && <p className="library-saved-note">{t(editingLink ? 'creator.publishedAndSaved' : 'creator.saved')}</p>}
+                            {isAbTest && <AbResultsPanel initialLink={generatedLink} onOpenInEditor={data => openInEditor({ type: 'single', data })} />}
                         </div>
-                        <div className="preview-panel" ref={previewPanelRef}>
-                            <div className="preview-header">Предпросмотр {isAbTest && `(Вариант ${activeAbVariant})`}</div>
-                            <div className="preview-content">
-                               {previewError ? (
-                                    <div className="preview-error">
-                                        <p>Не удалось загрузить предпросмотр.</p>
-                                        <span>Этот сайт запрещает встраивание на другие страницы. Ваша ссылка будет работать корректно.</span>
-                                    </div>
-                               ) : previewUrl ? (
-                                    <iframe 
-                                        src={previewUrl}
-                                        className="preview-iframe"
-                                        title="Live Preview"
-                                        sandbox="allow-scripts allow-same-origin"
-                                        onError={() => setPreviewError(true)}
-                                    ></iframe>
-                               ) : (
-                                    <div className="preview-bg"></div>
-                               )}
-                                <div 
-                                    className={`cta-wrapper ${dragData.current.isDragging ? 'dragging' : ''}`} 
-                                    onMouseDown={handleMouseDown}
-                                    style={ currentData.position === 'custom' && currentData.customPosition ? { 
-                                            position: 'absolute', 
-                                            left: 0, top: 0, // Wrapper is at top-left
-                                            transform: `translate(${currentData.customPosition.x}px, ${currentData.customPosition.y}px)`,
-                                        } : {} }
+                        <div className="preview-panel">
+                            <div className="preview-header">
+                                <span>{t('preview.title')} {isAbTest && `(${store.activeVariant.name})`}</span>
+                                {previewUrl && !isPreviewBlocked && (
+                                    <button className="preview-blocked-btn" onClick={previewFrame.markBlocked} title={t('preview.markBlockedTitle')}>{t('preview.markBlocked')}</button>
+                                )}
+                                <button className="preview-reveal-btn" onClick={() => replayReveal(true)} title={t('preview.revealTitle')}>{t('preview.reveal')}</button>
+                                <div className="history-controls">
+                                    <button onClick={() => store.undo(editorMode)} disabled={!store.canUndo(editorMode)} title={t('preview.undo')}>↶</button>
+                                    <button onClick={() => store.redo(editorMode)} disabled={!store.canRedo(editorMode)} title={t('preview.redo')}>↷</button>
+                                </div>
+                            </div>
+                            <div className="device-switcher">
+                                <select
+                                    className="font-select"
+                                    aria-label={t('preview.device')}
+                                    value={devicePreset.id}
+                                    onChange={e => setDevicePreview(d => ({ ...d, presetId: e.target.value }))}
                                 >
-                                    <CtaComponent 
-                                        data={currentData}
-                                        isEditable={true}
-                                        editingElement={editingElement}
-                                        onStartEdit={handleStartEdit}
-                                        onUpdateText={handleUpdateText}
-                                        onFinishEdit={handleFinishEdit}
-                                    />
+                                    {DEVICE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label ?? t('device.desktop')}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => setDevicePreview(d => ({ ...d, landscape: !d.landscape }))}
+                                    disabled={!screenSize}
+                                    title={t(devicePreview.landscape ? 'preview.portrait' : 'preview.landscape')}
+                                >⟳</button>
+                                {screenSize && <span>{screenSize.width}×{screenSize.height} · {t(`device.${previewDevice}`)}{screenZoom < 1 && ` · ${Math.round(screenZoom * 100)}%`}</span>}
+                            </div>
+                            <div className="preview-content" ref={previewContentRef}>
+                                <div className={`device-frame ${screenSize ? 'device-frame-sized' : ''}`} style={screenSize ? { width: screenSize.width * screenZoom, height: screenSize.height * screenZoom } : undefined}>
+                                    <div className="device-screen" style={screenSize ? { width: screenSize.width, height: screenSize.height, transform: `scale(${screenZoom})` } : undefined}>
+                                       {isPreviewBlocked ? (
+                                            <div className="preview-error">
+                                                <p>{t('preview.loadFailed')}</p>
+                                                <span>{t('preview.blocked', { fallback: t(`framing.mode.${framingFallback as FramingFallback}`) })}</span>
+                                            </div>
+                                       ) : previewUrl ? (
+                                            <iframe 
+                                                src={previewUrl}
+                                                className="preview-iframe"
+                                                title="Live Preview"
+                                                sandbox="allow-scripts allow-same-origin"
+                                                ref={previewFrame.frameRef}
+                                                onLoad={previewFrame.onLoad}
+                                                onError={() => setPreviewError(true)}
+                                            ></iframe>
+                                       ) : (
+                                            <div className="preview-bg"></div>
+                                       )}
+                                        {previewReveal.waitingForExitIntent && <ExitIntentSentinel onExit={previewReveal.onExitIntent} />}
+                                        {!previewReveal.visible && (
+                                            <div className="preview-reveal-hint">
+                                                {previewReveal.dismissed ? t('preview.dismissed')
+                                                    : previewReveal.waitingForExitIntent ? t('preview.waitingForExit')
+                                                    : t('preview.revealIn', { seconds: currentData.showDelay ?? 0 })}
+                                                <button onClick={() => replayReveal(false)}>{t('preview.showNow')}</button>
+                                            </div>
+                                        )}
+                                        {previewReveal.visible && <div 
+                                            key={currentData.animation || DEFAULT_CTA_ANIMATION}
+                                            className={`cta-wrapper ${dragData.current.isDragging && dragData.current.moved ? 'dragging' : ''}`} 
+                                            tabIndex={isPositionedLayout(currentData.layout) ? 0 : -1}
+                                            aria-label={t('preview.ctaLabel')}
+                                            onPointerDown={handlePointerDown}
+                                            onKeyDown={handleNudge}
+                                        >
+                                            <CtaComponent 
+                                                data={previewData}
+                                                isEditable={true}
+                                                editingElement={editingElement}
+                                                onStartEdit={handleStartEdit}
+                                                onUpdateText={handleUpdateText}
+                                                onFinishEdit={handleFinishEdit}
+                                                onDismiss={previewReveal.dismiss}
+                                            />
+                                            {snapGuides.map(guide => (
+                                                <div
+                                                    key={`${guide.axis}:${guide.position}`}
+                                                    className={`snap-guide snap-guide-${guide.axis}`}
+                                                    style={guide.axis === 'x' ? { left: guide.position } : { top: guide.position }}
+                                                ></div>
+                                            ))}
+                                        </div>}
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -573,15 +889,34 @@ const CreatorView = () => {
 
     return (
         <div className="creator-wrapper">
-             {isModalOpen && <AISuggestionsModal suggestions={aiSuggestions} isLoading={isAiLoading} onSelect={applySuggestion} onClose={() => setIsModalOpen(false)} />}
+             {isModalOpen && (
+                <AISuggestionsModal
+                    base={currentData}
+                    page={aiPage?.url === targetUrl ? aiPage.content : undefined}
+                    options={copyOptions}
+                    onOptionsChange={setCopyOptions}
+                    onGenerate={generateSuggestions}
+                    suggestions={aiSuggestions}
+                    isLoading={isAiLoading}
+                    error={aiError}
+                    onSelect={handleApplySuggestion}
+                    onAddVariant={store.canAddVariant ? handleSuggestionAsVariant : undefined}
+                    onClose={() => setIsModalOpen(false)}
+                />
+             )}
             <header className="creator-header">
                 <h1>Link Brandyler</h1>
-                <p>Добавьте свой призыв к действию на любую страницу в интернете.</p>
+                <p>{t('app.tagline')}</p>
+                <select className="language-select" aria-label={t('app.language')} value={locale} onChange={e => setLocale(e.target.value as Locale)}>
+                    {LOCALES.map(l => <option key={l} value={l}>{LOCALE_LABELS[l]}</option>)}
+                </select>
             </header>
             <div className="creator-tabs">
-                <button className={activeTab === 'create' ? 'active' : ''} onClick={() => setActiveTab('create')}>Создать</button>
-                <button className={activeTab === 'ab-test' ? 'active' : ''} onClick={() => setActiveTab('ab-test')}>A/B Тесты</button>
-                <button className={activeTab === 'analytics' ? 'active' : ''} onClick={() => setActiveTab('analytics')}>Аналитика</button>
+                <button className={activeTab === 'create' ? 'active' : ''} onClick={() => setActiveTab('create')}>{t('tabs.create')}</button>
+                <button className={activeTab === 'ab-test' ? 'active' : ''} onClick={() => setActiveTab('ab-test')}>{t('tabs.abTest')}</button>
+                <button className={activeTab === 'library' ? 'active' : ''} onClick={() => setActiveTab('library')}>{t('tabs.library')}</button>
+                <button className={activeTab === 'analytics' ? 'active' : ''} onClick={() => setActiveTab('analytics')}>{t('tabs.analytics')}</button>
+                <button className={activeTab === 'settings' ? 'active' : ''} onClick={() => setActiveTab('settings')}>{t('tabs.settings')}</button>
             </div>
             {renderContent()}
         </div>
@@ -589,49 +924,193 @@ const CreatorView = () => {
 };
 
 /**
- * The view for displaying the target page with the CTA overlay.
+ * Shown instead of the target page when a link fails the URL policy.
  */
-const ViewerView = ({ encodedData }: { encodedData: string }) => {
+const UrlWarningInterstitial = ({ url, reason }: { url: string, reason: UrlRejectionReason }) => {
+    const { t } = useI18n();
+    return (
+        <div className="url-warning">
+            <div className="url-warning-card">
+                <div className="url-warning-icon">⚠️</div>
+                <h2>{t('viewer.unsafeTitle')}</h2>
+                <p>{t(`url.${reason}`)}</p>
+                <code>{url}</code>
+                <span>{t('viewer.unsafeNote')}</span>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * The view for displaying the target page with the CTA overlay. `loadPayload`
+ * decodes a hash link or fetches a short link; `linkId` is its analytics bucket.
+ */
+const ViewerView = ({ linkId, loadPayload }: { linkId: string, loadPayload: () => Promise<{ version: number; value: unknown }> }) => {
+    const { t } = useI18n();
     const [data, setData] = useState<(CtaData & { targetUrl: string }) | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<{ message: MessageKey; fields?: FieldError[] } | null>(null);
+    const [blockedUrl, setBlockedUrl] = useState<{ url: string; reason: UrlRejectionReason } | null>(null);
+    const [variant, setVariant] = useState<string | undefined>(undefined);
+    const [fallback, setFallback] = useState<FramingFallback>(DEFAULT_FRAMING_FALLBACK);
+    // Set when the link is outside its schedule; holds the fallback being shown.
+    const [outOfSchedule, setOutOfSchedule] = useState<ScheduleFallback['type'] | null>(null);
+
+    const targetSrc = data ? toSafeUrl(data.targetUrl) ?? '' : '';
+    const frame = useFrameStatus(targetSrc);
+    const reveal = useCtaReveal(outOfSchedule === 'plain' ? null : data, { linkId });
+    const impressionTracked = useRef(false);
+    const device = useViewportDevice();
 
     useEffect(() => {
-        try {
-            const decodedString = atob(encodedData);
-            const payload: LinkPayload = JSON.parse(decodedString);
-            
-            if (payload.type === 'single') {
-                setData(payload.data);
-            } else if (payload.type === 'ab') {
-                const chosenVariant = payload.variants[Math.floor(Math.random() * payload.variants.length)];
-                setData({ ...chosenVariant, targetUrl: payload.targetUrl });
-            } else {
-                 throw new Error('Invalid payload type');
-            }
+        let cancelled = false;
+        setData(null);
+        setError(null);
+        setBlockedUrl(null);
+        setOutOfSchedule(null);
+        impressionTracked.current = false;
+
+        loadPayload()
+            .then(async ({ value, version }) => {
+                if (cancelled) return;
+                const result = parseLinkPayload(value, version);
+                if (!result.ok) {
+                    setError({ message: 'viewer.invalidPayload', fields: result.errors });
+                    console.error("Invalid link payload:", result.errors);
+                    return;
+                }
+                const payload = result.value;
+                setFallback(payload.fallback ?? DEFAULT_FRAMING_FALLBACK);
+                const unsafe = findUnsafePayloadUrl(payload);
+                if (unsafe) {
+                    setBlockedUrl(unsafe);
+                    console.warn("Link blocked by URL policy:", unsafe);
+                    return;
+                }
 
-        } catch (e) {
-            setError('Неверная или поврежденная ссылка.');
-            console.error("Failed to decode or parse data:", e);
-        }
-    }, [encodedData]);
+                const schedule = payload.schedule;
+                let impressions = 0;
+                if (schedule?.maxImpressions !== undefined) {
+                    impressions = await countImpressions(linkId).catch(e => {
+                        console.warn("Failed to count impressions, ignoring the cap:", e);
+                        return 0;
+                    });
+                    if (cancelled) return;
+                }
+                // Outside the schedule nothing is tracked, so fallback views never count towards the cap.
+                if (scheduleStatus(schedule, Date.now(), impressions) !== 'active') {
+                    const targetUrl = payload.type === 'single' ? payload.data.targetUrl : payload.targetUrl;
+                    const { fallback: scheduleFallback } = schedule;
+                    setVariant(undefined);
+                    setOutOfSchedule(scheduleFallback.type);
+                    if (scheduleFallback.type === 'redirect') {
+                        window.location.replace(toSafeUrl(scheduleFallback.url) ?? toSafeUrl(targetUrl));
+                    } else if (scheduleFallback.type === 'alternate') {
+                        setData({ ...scheduleFallback.data, targetUrl });
+                    } else {
+                        setData({ ...(payload.type === 'single' ? payload.data : payload.variants[0].data), targetUrl });
+                    }
+                    return;
+                }
+
+                if (payload.type === 'single') {
+                    setData(payload.data);
+                    setVariant(undefined);
+                } else {
+                    const keys = payload.variants.map(v => v.key);
+                    const targeted = evaluateTargeting(payload.targeting, readVisitorContext(), keys);
+                    const index = targeted
+                        ? keys.indexOf(targeted)
+                        : assignVariant(getVisitorId(), linkId, payload.variants.map(v => v.weight), payload.variants.length);
+                    const { key, data: variantData } = payload.variants[index];
+                    setData({ ...variantData, targetUrl: payload.targetUrl });
+                    setVariant(key);
+                    trackEvent({ type: 'exposure', linkId, targetUrl: payload.targetUrl, variant: key });
+                }
+            })
+            .catch(e => {
+                if (cancelled) return;
+                setError({
+                    message: e instanceof LinkDecodeError ? `linkError.${e.code}`
+                        : e instanceof LinkServiceError ? `linkServiceError.${e.code}`
+                        : 'viewer.invalidLink',
+                });
+                console.error("Failed to decode or parse data:", e);
+            });
+
+        return () => { cancelled = true; };
+    }, [loadPayload, linkId]);
+
+    // An impression is the CTA actually appearing, which with a delay or exit intent may never happen.
+    useEffect(() => {
+        if (!reveal.visible || !data || outOfSchedule || impressionTracked.current) return;
+        impressionTracked.current = true;
+        trackEvent({ type: 'impression', linkId, targetUrl: data.targetUrl, variant });
+    }, [reveal.visible, data, outOfSchedule, linkId, variant]);
 
     if (error) {
-        return <div className="error-view">{error}</div>;
+        return (
+            <div className="error-view">
+                <p>{t(error.message)}</p>
+                {error.fields && (
+                    <ul className="error-fields">
+                        {error.fields.map(f => <li key={f.path}><code>{f.path}</code>: {t(f.message, f.params)}</li>)}
+                    </ul>
+                )}
+            </div>
+        );
+    }
+
+    if (blockedUrl) {
+        return <UrlWarningInterstitial url={blockedUrl.url} reason={blockedUrl.reason} />;
+    }
+
+    if (outOfSchedule === 'redirect') {
+        return <div className="loading-view">{t('viewer.redirecting')}</div>;
     }
 
     if (!data) {
-        return <div className="loading-view">Загрузка...</div>;
+        return <div className="loading-view">{t('common.loading')}</div>;
+    }
+
+    const trackClick = (button?: string) => trackEvent({ type: 'click', linkId, targetUrl: data.targetUrl, variant, button });
+    const sendLead = async (email: string) => {
+        const endpoint = toSafeUrl(data.leadEndpoint);
+        if (!endpoint) throw new Error('Lead form has no endpoint');
+        await submitLead(endpoint, { email, linkId, variant, targetUrl: data.targetUrl, submittedAt: Date.now() });
+    };
+    // A sent lead form is the format's conversion, so it counts as the click.
+    const handleLeadSubmit = (email: string) => sendLead(email).then(() => trackClick(data.buttons[0]?.id));
+
+    const styled = applyDeviceOverrides(data, device);
+    const cta = (
+        <>
+            {reveal.waitingForExitIntent && <ExitIntentSentinel onExit={reveal.onExitIntent} />}
+            {!reveal.visible ? null
+                : outOfSchedule === 'alternate' ? <CtaComponent data={styled} onDismiss={reveal.dismiss} onLeadSubmit={sendLead} />
+                : <CtaComponent data={styled} onDismiss={reveal.dismiss} onButtonClick={trackClick} onLeadSubmit={handleLeadSubmit} />}
+        </>
+    );
+
+    if (frame.status === 'blocked') {
+        return <FramingFallbackView mode={fallback} targetUrl={targetSrc}>{cta}</FramingFallbackView>;
     }
 
     return (
         <div className="viewer-wrapper">
             <iframe 
-                src={data.targetUrl} 
+                ref={frame.frameRef}
+                src={targetSrc} 
                 className="viewer-iframe" 
                 title="Target Content"
                 sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
+                onLoad={frame.onLoad}
             ></iframe>
-            <CtaComponent data={data} />
+            {frame.status === 'slow' && (
+                <div className="viewer-slow-notice">
+                    {t('framing.slow')} <a href={targetSrc} target="_blank" rel="noopener noreferrer">{t('framing.openInNewTab')}</a>
+                </div>
+            )}
+            {cta}
         </div>
     );
 };
@@ -641,6 +1120,17 @@ const ViewerView = ({ encodedData }: { encodedData: string }) => {
  */
 const App = () => {
     const [hash, setHash] = useState(window.location.hash.substring(1));
+    const [locale, setLocale] = useState<Locale>(loadLocale);
+    const i18n = useMemo(() => ({
+        locale,
+        t: createTranslator(locale),
+        setLocale: (next: Locale) => { setLocale(next); saveLocale(next); },
+    }), [locale]);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+        document.title = i18n.t('app.title');
+    }, [i18n]);
 
     useEffect(() => {
         const handleHashChange = () => {
@@ -650,11 +1140,18 @@ const App = () => {
         return () => window.removeEventListener('hashchange', handleHashChange);
     }, []);
 
+    // Short links are served as /s/<slug>; the dev server falls back to index.html for them.
+    const slug = useMemo(() => slugFromPath(window.location.pathname), []);
+    const loadShortLink = useCallback(() => fetchPublishedLink(slug), [slug]);
+    const loadHashLink = useCallback(() => decodeLinkPayload(hash), [hash]);
+
     return (
-        <>
+        <I18nContext.Provider value={i18n}>
             <GlobalStyles />
-            {hash ? <ViewerView encodedData={hash} /> : <CreatorView />}
-        </>
+            {slug ? <ViewerView linkId={linkIdFromSlug(slug)} loadPayload={loadShortLink} />
+                : hash ? <ViewerView linkId={linkIdFromHash(hash)} loadPayload={loadHashLink} />
+                : <CreatorView />}
+        </I18nContext.Provider>
     );
 };
 
@@ -683,12 +1180,23 @@ const GlobalStyles = () => (
         }
 
         .creator-header {
+            position: relative;
             padding: 24px 48px;
             background-color: var(--panel-background);
             border-bottom: 1px solid var(--border-color);
         }
         .creator-header h1 { margin: 0; font-size: 24px; color: var(--primary-color); }
         .creator-header p { margin: 4px 0 0; color: var(--text-secondary); }
+        .language-select {
+            position: absolute;
+            top: 24px;
+            right: 48px;
+            padding: 6px 8px;
+            border: 1px solid var(--border-color);
+            border-radius: 6px;
+            background: var(--panel-background);
+            font-size: 14px;
+        }
 
         .creator-tabs {
             padding: 0 48px;
@@ -752,6 +1260,41 @@ const GlobalStyles = () => (
             color: var(--primary-color);
             box-shadow: 0 1px 4px rgba(0,0,0,0.1);
         }
+        .ab-variant-manager .ab-variant-switcher { flex-wrap: wrap; gap: 4px; margin-bottom: 12px; }
+        .ab-variant-switcher button { display: flex; flex-direction: column; align-items: center; min-width: 0; }
+        .ab-variant-name { max-width: 100%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .ab-variant-share { font-size: 11px; font-weight: 400; color: var(--text-secondary); }
+        .ab-variant-switcher .ab-variant-add { flex: 0 0 40px; font-size: 18px; color: var(--primary-color); }
+        .ab-variant-switcher button:disabled { color: #bec3c9; cursor: not-allowed; }
+        .ab-variant-details { display: flex; gap: 12px; }
+        .ab-variant-details > div:first-child { flex: 1; }
+        .ab-variant-details > div:last-child { flex: 0 0 90px; }
+        .ab-variant-details input[type="number"] { width: 100%; padding: 10px 12px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 16px; }
+        .ab-variant-actions { display: flex; gap: 8px; margin: -8px 0 20px; }
+        .ab-variant-actions button { flex: 1; padding: 6px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #f5f6f7; cursor: pointer; }
+        .ab-variant-actions button:disabled { cursor: not-allowed; opacity: 0.5; }
+
+        .brand-panel { margin-bottom: 20px; padding: 12px 14px; border: 1px solid var(--border-color); border-radius: 8px; background: #fafbfc; }
+        .brand-panel summary { font-weight: 600; cursor: pointer; }
+        .brand-panel[open] summary { margin-bottom: 12px; }
+        .brand-panel select { width: 100%; padding: 8px 10px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 14px; }
+        .brand-panel button { padding: 5px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .brand-panel button:disabled { cursor: not-allowed; opacity: 0.5; }
+        .brand-section-header { display: flex; justify-content: space-between; align-items: center; margin: 12px 0 8px; font-size: 14px; font-weight: 600; }
+        .brand-empty { margin: 0; font-size: 13px; color: var(--text-secondary); }
+        .brand-kit-list { list-style: none; margin: 0; padding: 0; display: flex; flex-direction: column; gap: 6px; }
+        .brand-kit-list li { display: flex; align-items: center; gap: 8px; }
+        .brand-swatch { width: 32px; height: 22px; border: 1px solid var(--border-color); display: flex; align-items: center; justify-content: center; flex-shrink: 0; }
+        .brand-swatch span { width: 14px; height: 8px; border-radius: 4px; }
+        .brand-kit-name { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-size: 14px; }
+        .brand-panel .brand-delete { border: none; background: none; color: var(--text-secondary); font-size: 16px; padding: 0 4px; }
+        .template-gallery { display: grid; grid-template-columns: repeat(2, 1fr); gap: 10px; }
+        .template-card { display: flex; flex-direction: column; gap: 4px; min-width: 0; }
+        .brand-panel .template-preview { display: flex; flex-direction: column; align-items: flex-start; gap: 6px; padding: 10px; min-height: 72px; text-align: left; border: 1px solid var(--border-color); }
+        .template-message { font-size: 11px; line-height: 1.3; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
+        .template-button { font-size: 10px; color: #fff; padding: 2px 8px; border-radius: 4px; }
+        .template-name { display: flex; justify-content: space-between; align-items: center; font-size: 12px; color: var(--text-secondary); }
+        .brand-transfer { display: flex; gap: 8px; margin-top: 12px; }
 
 
         .form-group { margin-bottom: 20px; }
@@ -765,7 +1308,7 @@ const GlobalStyles = () => (
         }
         .form-group label span { font-weight: 400; color: var(--text-secondary); }
 
-        .form-group input[type="text"], .form-group input[type="url"], .font-select {
+        .form-group input[type="text"], .form-group input[type="url"], .form-group input[type="email"], .form-group input[type="tel"], .form-group input[type="password"], .font-select {
             width: 100%;
             padding: 10px 12px;
             border: 1px solid var(--border-color);
@@ -804,6 +1347,9 @@ const GlobalStyles = () => (
              margin-top: 8px;
         }
 
+        .field-error { margin: 6px 0 0; font-size: 13px; color: #dc3545; }
+        .preview-update-btn:disabled { cursor: not-allowed; opacity: 0.6; }
+
         .label-with-action {
             display: flex;
             justify-content: space-between;
@@ -857,7 +1403,101 @@ const GlobalStyles = () => (
         .generated-link-container input { flex-grow: 1; border-right: 0; border-top-right-radius: 0; border-bottom-right-radius: 0; background: #f0f2f5; }
         .generated-link-container button { padding: 10px 15px; border-top-left-radius: 0; border-bottom-left-radius: 0; }
 
-        .preview-header { font-weight: 600; margin-bottom: 16px; }
+        .ab-results { margin-top: 24px; overflow-x: auto; }
+        .ab-results-table { width: 100%; border-collapse: collapse; font-size: 13px; }
+        .ab-results-table th, .ab-results-table td { padding: 6px 4px; text-align: left; border-bottom: 1px solid var(--border-color); white-space: nowrap; }
+        .ab-results-table th { color: var(--text-secondary); font-weight: 600; }
+        .ab-results-table tr.winner td { background: #e8f5e9; }
+        .ab-interval { display: block; font-size: 11px; color: var(--text-secondary); }
+        .ab-declare-btn { padding: 4px 8px; font-size: 12px; cursor: pointer; }
+        .ab-verdict { font-size: 14px; color: var(--text-secondary); }
+        .ab-winner p { margin: 16px 0 0; font-weight: 600; }
+
+        .schedule-panel { margin-bottom: 20px; padding: 12px 14px; border: 1px solid var(--border-color); border-radius: 8px; background: #fafbfc; }
+        .schedule-panel summary { font-weight: 600; cursor: pointer; }
+        .schedule-panel[open] summary { margin-bottom: 12px; }
+        .schedule-panel .form-group:last-child { margin-bottom: 0; }
+        .schedule-window { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+        .schedule-status { margin-left: 8px; padding: 2px 8px; border-radius: 10px; font-size: 12px; font-weight: 600; }
+        .schedule-status.active { background: #e6f4ea; color: #1e7e34; }
+        .schedule-status.scheduled { background: #e7f3ff; color: var(--primary-color); }
+        .schedule-status.expired, .schedule-status.capped { background: #fdecea; color: #c0392b; }
+        .checkbox-row { display: flex; align-items: center; gap: 8px; margin-bottom: 16px; font-size: 14px; cursor: pointer; }
+        .utm-builder { margin-top: 8px; font-size: 14px; }
+        .utm-builder summary { color: var(--primary-color); cursor: pointer; }
+        .utm-builder[open] summary { margin-bottom: 8px; }
+        .utm-field { margin-bottom: 8px; }
+        .utm-field label { font-size: 13px; font-weight: 400; color: var(--text-secondary); }
+        .utm-presets { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 10px; }
+        .utm-preset { display: inline-flex; align-items: center; border: 1px solid var(--border-color); border-radius: 12px; background: #fff; }
+        .utm-preset button { padding: 3px 4px 3px 10px; font-size: 13px; border: none; background: none; cursor: pointer; }
+        .utm-preset .brand-delete { padding: 3px 8px 3px 2px; color: var(--text-secondary); }
+        .utm-save { padding: 5px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .utm-save:disabled { cursor: not-allowed; opacity: 0.5; }
+        .button-editor { padding: 10px; margin-bottom: 8px; border: 1px solid var(--border-color); border-radius: 6px; }
+        .button-editor > input { width: 100%; box-sizing: border-box; }
+        .button-editor-row { display: flex; align-items: center; gap: 6px; margin-bottom: 8px; }
+        .button-editor-row input[type="text"], .button-editor-row select { flex: 1; min-width: 0; }
+        .button-editor-row input[type="color"] { flex-shrink: 0; width: 40px; height: 40px; }
+        .button-editor-order { display: inline-flex; flex-shrink: 0; }
+        .button-editor-order button { padding: 2px 6px; border: none; background: none; cursor: pointer; color: var(--text-secondary); }
+        .button-editor-order button:disabled { opacity: 0.3; cursor: default; }
+        .button-add { padding: 6px 12px; font-size: 13px; border: 1px dashed var(--border-color); border-radius: 6px; background: #fff; color: var(--primary-color); cursor: pointer; }
+        .targeting-panel { margin-bottom: 20px; padding: 12px 14px; border: 1px solid var(--border-color); border-radius: 8px; background: #fafbfc; }
+        .targeting-panel summary { font-weight: 600; cursor: pointer; }
+        .targeting-panel[open] summary { margin-bottom: 8px; }
+        .targeting-panel button { padding: 4px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .targeting-panel button:disabled { cursor: not-allowed; opacity: 0.5; }
+        .targeting-panel select, .targeting-panel input[type="text"], .targeting-panel input[type="number"] { padding: 6px 8px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 14px; }
+        .targeting-panel input[type="text"] { width: 100%; }
+        .targeting-count { margin-left: 8px; padding: 2px 8px; border-radius: 10px; font-size: 12px; background: #e7f3ff; color: var(--primary-color); }
+        .targeting-rule { margin: 12px 0; padding: 10px; background: #fff; border: 1px solid var(--border-color); border-radius: 8px; }
+        .targeting-rule-header, .targeting-condition-header { display: flex; justify-content: space-between; align-items: center; gap: 8px; margin-bottom: 8px; }
+        .targeting-rule-header span { font-size: 13px; font-weight: 600; }
+        .targeting-rule-header div { display: flex; gap: 4px; }
+        .targeting-condition { padding: 8px 0; border-top: 1px dashed var(--border-color); }
+        .targeting-options { display: flex; flex-wrap: wrap; gap: 12px; font-size: 14px; }
+        .targeting-options label { display: flex; align-items: center; gap: 4px; }
+        .targeting-utm { display: flex; gap: 8px; }
+        .targeting-time { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; font-size: 14px; }
+        .targeting-time input[type="number"] { width: 60px; }
+        .targeting-weekdays { display: flex; gap: 4px; }
+        .targeting-panel .targeting-weekdays button { padding: 4px 6px; }
+        .targeting-panel .targeting-weekdays button.active { background: var(--primary-color); border-color: var(--primary-color); color: #fff; }
+        .targeting-rule-variant { display: flex; align-items: center; gap: 8px; margin-top: 10px; font-size: 14px; }
+        .targeting-rule-variant select { flex: 1; }
+        .targeting-add-condition { margin-top: 4px; }
+        .targeting-default { margin: 12px 0 0; }
+        .schedule-hint { margin: 6px 0 0; font-size: 12px; color: var(--text-secondary); }
+        .editing-link-note { display: flex; align-items: center; gap: 12px; margin-top: 16px; padding: 10px 12px; font-size: 13px; background: #e7f3ff; border-radius: 6px; }
+        .editing-link-note button { flex-shrink: 0; padding: 5px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .library-saved-note { margin: 8px 0 0; font-size: 13px; color: #28a745; }
+        .library-view { padding: 24px 48px; overflow-y: auto; }
+        .settings-view { padding: 24px 48px; overflow-y: auto; }
+        .settings-section { max-width: 560px; background: var(--panel-background); padding: 24px; border-radius: 8px; box-shadow: var(--shadow); }
+        .settings-section h3 { margin: 0 0 16px; }
+        .library-toolbar { display: flex; gap: 16px; margin-bottom: 24px; align-items: center; }
+        .library-toolbar input[type="search"] { flex: 1; padding: 10px 12px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 16px; }
+        .library-toolbar .radio-group { flex: 0 0 240px; }
+        .library-list { list-style: none; margin: 0; padding: 0; display: grid; grid-template-columns: repeat(auto-fill, minmax(360px, 1fr)); gap: 16px; }
+        .library-card { height: 100%; background: var(--panel-background); padding: 16px; border-radius: 8px; box-shadow: var(--shadow); display: flex; flex-direction: column; gap: 8px; }
+        .library-card.archived { opacity: 0.7; }
+        .library-card-header { display: flex; align-items: center; gap: 8px; }
+        .library-name { flex: 1; font-size: 16px; font-weight: 600; border: 1px solid transparent; border-radius: 4px; padding: 4px; }
+        .library-name:hover, .library-name:focus { border-color: var(--border-color); }
+        .library-badge { font-size: 12px; font-weight: 600; padding: 2px 8px; border-radius: 10px; background: var(--background-color); color: var(--text-secondary); }
+        .library-meta { display: flex; gap: 12px; font-size: 13px; color: var(--text-secondary); min-width: 0; }
+        .library-target { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .library-tags { padding: 6px 8px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 13px; }
+        .library-card .generated-link-container { margin-top: 0; }
+        .library-actions { display: flex; flex-wrap: wrap; gap: 6px; }
+        .library-actions button { padding: 6px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #f5f6f7; cursor: pointer; }
+        .library-actions button.danger { color: #dc3545; }
+
+        .preview-header { font-weight: 600; margin-bottom: 16px; display: flex; justify-content: space-between; align-items: center; gap: 12px; }
+        .history-controls { display: flex; gap: 6px; }
+        .history-controls button { width: 32px; height: 32px; border-radius: 6px; border: 1px solid var(--border-color); background: var(--panel-background); color: var(--text-primary); font-size: 1.1rem; cursor: pointer; }
+        .history-controls button:disabled { opacity: 0.4; cursor: not-allowed; }
         .preview-content {
             flex-grow: 1;
             position: relative;
@@ -869,6 +1509,22 @@ const GlobalStyles = () => (
             justify-content: center;
         }
         .preview-iframe { width: 100%; height: 100%; border: none; }
+        .device-switcher { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; font-size: 13px; color: var(--text-secondary); }
+        .device-switcher .font-select { width: auto; padding: 6px 10px; font-size: 14px; }
+        .device-switcher button { padding: 4px 10px; font-size: 16px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .device-switcher button:disabled { opacity: 0.4; cursor: not-allowed; }
+        .device-frame { width: 100%; height: 100%; }
+        .device-frame-sized { flex: none; margin: 24px; border-radius: 12px; box-shadow: 0 0 0 8px #1c1e21, 0 12px 32px rgba(0, 0, 0, 0.25); overflow: hidden; }
+        .device-screen {
+            position: relative;
+            width: 100%;
+            height: 100%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            transform-origin: top left;
+        }
+        .device-style-hint button { margin-left: 6px; padding: 0; border: none; background: none; color: var(--primary-color); text-decoration: underline; cursor: pointer; font-size: inherit; }
         .preview-bg {
              background-image: linear-gradient(45deg, #ccc 25%, transparent 25%), linear-gradient(-45deg, #ccc 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #ccc 75%), linear-gradient(-45deg, transparent 75%, #ccc 75%);
             background-size: 20px 20px;
@@ -883,19 +1539,29 @@ const GlobalStyles = () => (
         }
         .preview-error p { margin: 0 0 8px; font-weight: 600; }
         .preview-error span { font-size: 14px; color: var(--text-secondary); }
+        .preview-blocked-btn { margin-left: auto; padding: 0; border: none; background: none; font-size: 13px; color: var(--text-secondary); text-decoration: underline; cursor: pointer; }
         
+        /* Covers the preview like the viewer's page, so the CTA is placed the same way; only the CTA takes pointer events. */
         .cta-wrapper {
-            position: relative;
-            transition: box-shadow 0.2s;
+            position: absolute;
+            inset: 0;
+            pointer-events: none;
         }
-        .cta-wrapper:hover {
+        .cta-wrapper:focus { outline: none; }
+        .cta-wrapper .cta-container, .cta-wrapper .cta-modal-backdrop { pointer-events: auto; }
+        .cta-wrapper .cta-container[class*="cta-position-"] {
             cursor: grab;
+            touch-action: none;
         }
-        .cta-wrapper.dragging {
+        .cta-wrapper:focus-visible .cta-container[class*="cta-position-"] { outline: 2px solid var(--primary-color); outline-offset: 2px; }
+        .cta-wrapper.dragging .cta-container {
             cursor: grabbing;
-            z-index: 10000;
             box-shadow: 0 8px 30px rgba(0,0,0,0.2);
+            transition: none;
         }
+        .snap-guide { position: absolute; z-index: 100000; background: #e4405f; pointer-events: none; }
+        .snap-guide-x { top: 0; bottom: 0; width: 1px; }
+        .snap-guide-y { left: 0; right: 0; height: 1px; }
         .cta-wrapper:hover:not(.dragging) .cta-container {
             box-shadow: 0 8px 28px rgba(0, 0, 0, 0.2);
             transform: scale(var(--cta-scale)) translateY(-4px);
@@ -911,7 +1577,6 @@ const GlobalStyles = () => (
             align-items: center;
             gap: 12px;
             z-index: 99999;
-            animation: slide-up 0.5s ease-out;
             max-width: calc(100% - 40px);
             transform-origin: bottom;
             transform: scale(var(--cta-scale));
@@ -919,9 +1584,98 @@ const GlobalStyles = () => (
         }
         .cta-position-custom {
             position: absolute;
-            animation: none;
-            /* Position set by inline styles */
+            /* Position set by inline styles; scaling from the corner keeps the measured box where it is placed */
+            transform-origin: top left;
         }
+        .cta-layout-top-bar {
+            top: 0;
+            bottom: auto;
+            left: 0;
+            right: 0;
+            border-radius: 0 !important;
+            max-width: 100%;
+            justify-content: center;
+            padding: 10px 16px;
+            transform-origin: top;
+        }
+        .cta-modal-backdrop {
+            position: absolute;
+            inset: 0;
+            z-index: 99999;
+            display: grid;
+            place-items: center;
+            padding: 20px;
+            background: rgba(0, 0, 0, 0.45);
+            animation: fade-in 0.3s ease-out;
+        }
+        .cta-layout-modal {
+            position: relative;
+            bottom: auto;
+            flex-direction: column;
+            text-align: center;
+            width: 420px;
+            max-width: 100%;
+            padding: 28px 24px;
+            transform-origin: center;
+        }
+        .cta-layout-modal .cta-profile-img { width: 56px; height: 56px; }
+        .cta-layout-card {
+            flex-direction: column;
+            align-items: stretch;
+            gap: 0;
+            width: 300px;
+            padding: 0;
+            overflow: hidden;
+        }
+        .cta-layout-card.cta-dismissible { padding-right: 0; }
+        .cta-layout-card .cta-dismiss { background: rgba(255, 255, 255, 0.85); border-radius: 50%; color: #1c1e21 !important; }
+        .cta-hero-img { width: 100%; height: 150px; object-fit: cover; display: block; }
+        .cta-hero-placeholder { height: 110px; background: linear-gradient(135deg, rgba(0, 0, 0, 0.05), rgba(0, 0, 0, 0.14)); }
+        .cta-card-body { display: flex; flex-direction: column; align-items: flex-start; gap: 8px; padding: 16px; }
+        .cta-title { margin: 0; font-size: 18px; font-weight: 700; line-height: 1.25; }
+        .cta-lead-body { display: flex; flex-direction: column; gap: 8px; min-width: 0; }
+        .cta-lead-form { display: flex; gap: 8px; }
+        .cta-lead-form input { flex: 1; min-width: 0; padding: 8px 10px; border: 1px solid var(--border-color); border-radius: 6px; font: inherit; font-size: 14px; }
+        .cta-lead-form .cta-button { border: none; font-family: inherit; cursor: pointer; }
+        .cta-lead-form .cta-button:disabled { opacity: 0.6; cursor: wait; }
+        .cta-lead-error { margin: 0; font-size: 12px; color: #dc3545; }
+        .cta-anim-slide { animation: slide-up 0.5s ease-out; }
+        .cta-layout-top-bar.cta-anim-slide { animation-name: slide-down; }
+        .cta-anim-fade { animation: fade-in 0.6s ease-out; }
+        .cta-anim-bounce { animation: bounce-in 0.7s cubic-bezier(0.28, 0.84, 0.42, 1); }
+        .cta-dismissible { padding-right: 32px; }
+        .cta-dismiss {
+            position: absolute;
+            top: 4px;
+            right: 6px;
+            padding: 2px 4px;
+            border: none;
+            background: none;
+            font-size: 18px;
+            line-height: 1;
+            opacity: 0.6;
+            cursor: pointer;
+        }
+        .cta-dismiss:hover { opacity: 1; }
+        .exit-intent-sentinel { position: fixed; top: 0; left: 0; right: 0; height: 8px; z-index: 100000; }
+        .preview-content .exit-intent-sentinel { position: absolute; }
+        .preview-reveal-btn { padding: 4px 10px; font-size: 13px; border: 1px solid var(--border-color); border-radius: 6px; background: #fff; cursor: pointer; }
+        .preview-reveal-hint {
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            padding: 10px 14px;
+            border-radius: 8px;
+            background: rgba(255, 255, 255, 0.95);
+            box-shadow: var(--shadow);
+            font-size: 14px;
+            white-space: nowrap;
+        }
+        .preview-reveal-hint button { padding: 4px 10px; border: none; border-radius: 6px; background: var(--primary-color); color: #fff; font-size: 13px; cursor: pointer; }
 
         .cta-dark { border: 1px solid rgba(255,255,255,0.2); }
         .cta-light { border: 1px solid var(--border-color); }
@@ -940,6 +1694,20 @@ const GlobalStyles = () => (
           from { transform: scale(var(--cta-scale)) translateY(30px); opacity: 0; }
           to { transform: scale(var(--cta-scale)) translateY(0); opacity: 1; }
         }
+        @keyframes slide-down {
+          from { transform: scale(var(--cta-scale)) translateY(-100%); opacity: 0; }
+          to { transform: scale(var(--cta-scale)) translateY(0); opacity: 1; }
+        }
+        @keyframes fade-in {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+        @keyframes bounce-in {
+          0% { transform: scale(calc(var(--cta-scale) * 0.6)); opacity: 0; }
+          60% { transform: scale(calc(var(--cta-scale) * 1.06)); opacity: 1; }
+          80% { transform: scale(calc(var(--cta-scale) * 0.97)); }
+          100% { transform: scale(var(--cta-scale)); }
+        }
         
         .cta-profile-img {
             width: 36px;
@@ -951,16 +1719,22 @@ const GlobalStyles = () => (
 
         .cta-logo { display: flex; align-items: center; flex-shrink: 0;}
         .cta-message { margin: 0; font-weight: 500; line-height: 1.3; }
+        .cta-buttons { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; flex-shrink: 0; }
+        .cta-button-slot { display: contents; }
         .cta-button {
+            display: inline-block;
             padding: 8px 16px;
             color: white;
             text-decoration: none;
+            border: 2px solid transparent;
             border-radius: 6px;
             font-weight: 600;
             white-space: nowrap;
             flex-shrink: 0;
             transition: transform 0.2s ease-out, filter 0.2s ease-out;
         }
+        .cta-button-secondary { background: transparent; }
+        .cta-button-link { background: transparent; padding-left: 4px; padding-right: 4px; text-decoration: underline; }
         .cta-button:hover {
             transform: scale(1.03);
             filter: brightness(0.95);
@@ -989,15 +1763,47 @@ const GlobalStyles = () => (
         .stat-change.positive { color: #28a745; }
         .stat-change.negative { color: #dc3545; }
         
+        .analytics-filter { max-width: 480px; }
+        .analytics-empty { padding: 24px; background: var(--panel-background); border-radius: 8px; box-shadow: var(--shadow); color: var(--text-secondary); }
         .chart-container { background: var(--panel-background); padding: 24px; border-radius: 8px; box-shadow: var(--shadow); }
         .chart-container h3 { margin: 0 0 24px; }
         .chart { display: flex; align-items: flex-end; gap: 8px; height: 250px; border-bottom: 1px solid var(--border-color); }
-        .chart-bar { flex: 1; background-color: var(--primary-color); border-radius: 4px 4px 0 0; transition: background-color 0.2s; }
+        .chart-bar { flex: 1; min-height: 2px; background-color: var(--primary-color); border-radius: 4px 4px 0 0; transition: background-color 0.2s; }
         .chart-bar:hover { background-color: var(--primary-hover); }
+        .button-clicks { margin-top: 24px; }
+        .button-clicks ul { list-style: none; margin: 0; padding: 0; }
+        .button-clicks li { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid var(--border-color); }
 
         .viewer-wrapper { width: 100vw; height: 100vh; position: relative; }
+        /* Pages the CTA is placed on; phone-width rules at the end query these. */
+        .viewer-wrapper, .framing-interstitial, .framing-preview, .framing-newtab, .device-screen { container: page / size; }
         .viewer-iframe { width: 100%; height: 100%; border: none; }
+        .viewer-slow-notice { position: absolute; top: 12px; left: 50%; transform: translateX(-50%); padding: 8px 16px; background: var(--panel-background); border-radius: 20px; box-shadow: var(--shadow); font-size: 14px; white-space: nowrap; }
+        .viewer-slow-notice a { color: var(--primary-color); font-weight: 600; }
+
+        .framing-open-btn { display: inline-block; padding: 8px 16px; border-radius: 6px; background: var(--primary-color); color: #fff; font-weight: 600; text-decoration: none; white-space: nowrap; }
+        .framing-interstitial, .framing-preview, .framing-newtab { width: 100vw; height: 100vh; position: relative; background: var(--background-color); }
+        .framing-interstitial, .framing-preview { display: grid; place-content: center; padding: 24px; }
+        .framing-interstitial-card { max-width: 480px; padding: 32px; background: var(--panel-background); border-radius: 8px; box-shadow: var(--shadow); text-align: center; }
+        .framing-interstitial-card p { margin: 0 0 16px; font-size: 18px; }
+        .framing-preview-card { display: flex; flex-direction: column; align-items: flex-start; gap: 8px; max-width: 480px; padding: 24px; background: var(--panel-background); border-radius: 8px; box-shadow: var(--shadow); color: var(--text-primary); text-decoration: none; }
+        .framing-preview-card img { width: 32px; height: 32px; }
+        .framing-preview-card strong { font-size: 20px; }
+        .framing-preview-card span { font-size: 14px; color: var(--text-secondary); word-break: break-all; }
+        .framing-preview-card em { font-style: normal; font-weight: 600; color: var(--primary-color); }
+        .framing-newtab-bar { display: flex; align-items: center; justify-content: space-between; gap: 16px; padding: 12px 20px; background: var(--panel-background); border-bottom: 1px solid var(--border-color); font-size: 15px; }
         .error-view, .loading-view { display: grid; place-content: center; height: 100vh; font-size: 24px; background: #f0f2f5; }
+        .error-view p { margin: 0; text-align: center; }
+        .error-fields { margin: 16px 0 0; padding: 16px 16px 16px 32px; font-size: 14px; color: var(--text-secondary); background: var(--panel-background); border-radius: 8px; max-height: 50vh; overflow-y: auto; }
+        .error-fields code { color: var(--text-primary); }
+
+        .url-warning { display: grid; place-content: center; height: 100vh; padding: 24px; background: #fff4e5; }
+        .url-warning-card { max-width: 520px; background: var(--panel-background); padding: 32px; border-radius: 8px; box-shadow: var(--shadow); text-align: center; }
+        .url-warning-icon { font-size: 40px; }
+        .url-warning-card h2 { margin: 12px 0 8px; }
+        .url-warning-card p { margin: 0 0 16px; font-weight: 600; color: #b45309; }
+        .url-warning-card code { display: block; padding: 8px 12px; margin-bottom: 16px; background: var(--background-color); border-radius: 6px; word-break: break-all; }
+        .url-warning-card span { font-size: 14px; color: var(--text-secondary); }
 
         .modal-overlay {
             position: fixed;
@@ -1030,6 +1836,30 @@ const GlobalStyles = () => (
             align-items: center;
         }
         .modal-content .suggestion-text p { margin: 0 0 4px; }
+        .modal-content.ai-modal { max-width: 720px; max-height: 90vh; overflow-y: auto; }
+        .ai-modal ul { max-height: none; }
+        .ai-options { display: flex; flex-wrap: wrap; align-items: flex-end; gap: 12px; margin-bottom: 16px; }
+        .ai-options label { display: flex; flex-direction: column; gap: 4px; font-size: 13px; color: var(--text-secondary); }
+        .ai-options .font-select { width: auto; padding: 6px 10px; font-size: 14px; }
+        .ai-options .radio-group { flex-basis: 100%; }
+        .ai-generate { padding: 8px 16px; border: none; border-radius: 6px; background: var(--primary-color); color: #fff; font-weight: 600; cursor: pointer; }
+        .ai-generate:disabled { opacity: 0.6; cursor: not-allowed; }
+        .ai-preview { position: relative; height: 200px; margin-bottom: 16px; border-radius: 6px; overflow: hidden; isolation: isolate; container: page / size;
+            background-image: linear-gradient(45deg, #e4e6eb 25%, transparent 25%), linear-gradient(-45deg, #e4e6eb 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e4e6eb 75%), linear-gradient(-45deg, transparent 75%, #e4e6eb 75%);
+            background-size: 20px 20px; background-position: 0 0, 0 10px, 10px -10px, -10px 0px; }
+        .ai-modal li { cursor: pointer; border: 2px solid transparent; gap: 12px; }
+        .ai-modal li.active { border-color: var(--primary-color); }
+        .page-content { margin-bottom: 16px; padding: 10px 12px; border: 1px solid var(--border-color); border-radius: 6px; font-size: 13px; }
+        .page-content summary { cursor: pointer; font-weight: 600; }
+        .page-content dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 12px; margin: 10px 0 0; }
+        .page-content dt { color: var(--text-secondary); }
+        .page-content dd { margin: 0; }
+        .page-content dd ul { margin: 0; padding-left: 16px; }
+        .page-content-missing { margin: 0 0 12px; }
+        .suggestion-design { display: flex; align-items: center; gap: 6px; }
+        .suggestion-swatch { width: 16px; height: 16px; border-radius: 4px; border: 1px solid var(--border-color); }
+        .suggestion-actions { display: flex; flex-direction: column; gap: 6px; flex: none; }
+        .modal-content li button.suggestion-variant { background: none; border: 1px solid var(--primary-color); color: var(--primary-color); }
         .modal-content .suggestion-text strong { color: var(--text-primary); }
         .modal-content li button {
              padding: 6px 12px;
@@ -1056,10 +1886,12 @@ const GlobalStyles = () => (
             .form-panel { flex-basis: auto; }
             .preview-panel { min-height: 400px; }
             .creator-header, .creator-tabs { padding: 16px; }
+            .language-select { top: 16px; right: 16px; }
         }
         
-        @media (max-width: 480px) {
-            .cta-container:not(.cta-position-bottom-banner) {
+        /* A container query, so a phone-sized preview frame in the creator gets it too. */
+        @container page (max-width: 480px) {
+            .cta-container:not(.cta-position-bottom-banner):not(.cta-position-custom):not(.cta-layout-top-bar):not(.cta-layout-modal) {
                 flex-direction: column;
                 left: 10px !important;
                 right: 10px !important;
@@ -1067,6 +1899,7 @@ const GlobalStyles = () => (
                 align-items: stretch;
                 text-align: center;
             }
+            .cta-buttons { justify-content: center; }
             .cta-button { text-align: center; }
         }
     `}</style>
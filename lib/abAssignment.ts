@@ -0,0 +1,63 @@
+/**
+ * Deterministic A/B variant assignment.
+ *
+ * A visitor gets a random ID persisted in localStorage. Hashing it together
+ * with the link ID gives a stable bucket in [0, 1), which is mapped onto the
+ * variants by their traffic weights. The same visitor therefore always sees the
+ * same variant of a link for as long as its weights don't change.
+ */
+import { hashToUnit } from './hash';
+
+const VISITOR_ID_KEY = 'sniply.visitorId';
+
+let memoryVisitorId: string | null = null;
+
+const newVisitorId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const getVisitorId = (): string => {
+    try {
+        let id = localStorage.getItem(VISITOR_ID_KEY);
+        if (!id) {
+            id = newVisitorId();
+            localStorage.setItem(VISITOR_ID_KEY, id);
+        }
+        return id;
+    } catch {
+        // Storage blocked (e.g. privacy mode): sticky for this page load only.
+        memoryVisitorId ??= newVisitorId();
+        return memoryVisitorId;
+    }
+};
+
+/** Normalizes weights to fractions summing to 1; invalid or all-zero weights fall back to an even split. */
+export const normalizeWeights = (weights: number[] | undefined, count: number): number[] => {
+    const valid = weights && weights.length === count && weights.every(w => Number.isFinite(w) && w >= 0);
+    const total = valid ? weights.reduce((sum, w) => sum + w, 0) : 0;
+    if (!valid || total <= 0) {
+        return Array(count).fill(1 / count);
+    }
+    return weights.map(w => w / total);
+};
+
+/** Picks the variant index whose cumulative weight range contains `bucket` (0 <= bucket < 1). */
+export const pickWeighted = (bucket: number, weights: number[]): number => {
+    let cumulative = 0;
+    for (let i = 0; i < weights.length; i++) {
+        cumulative += weights[i];
+        if (bucket < cumulative) return i;
+    }
+    // Floating point rounding can leave the last boundary just below 1.
+    for (let i = weights.length - 1; i >= 0; i--) {
+        if (weights[i] > 0) return i;
+    }
+    return 0;
+};
+
+export const assignVariant = (visitorId: string, linkId: string, weights: number[] | undefined, count: number): number =>
+    pickWeighted(hashToUnit(`${visitorId}:${linkId}`), normalizeWeights(weights, count));
+
+/** Display/analytics key for a variant index: 0 -> 'A', 1 -> 'B', ... */
+export const variantKey = (index: number): string => String.fromCharCode(65 + index);
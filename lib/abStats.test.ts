@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import {
+    analyzeAbTest,
+    countVariants,
+    normalCdf,
+    normalQuantile,
+    probabilityBBeatsA,
+    twoProportionZTest,
+    wilsonInterval,
+} from './abStats';
+import { AnalyticsEvent } from './analytics';
+
+describe('normal distribution helpers', () => {
+    it('matches known CDF values', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+        expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+        expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+    });
+
+    it('inverts the CDF', () => {
+        expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+        expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+        expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+    });
+});
+
+describe('wilsonInterval', () => {
+    it('matches a reference interval', () => {
+        // 20 successes out of 100 at 95%: [0.1333, 0.2888]
+        const { low, high } = wilsonInterval(20, 100);
+        expect(low).toBeCloseTo(0.1333, 3);
+        expect(high).toBeCloseTo(0.2888, 3);
+    });
+
+    it('stays within [0, 1] at the extremes', () => {
+        expect(wilsonInterval(0, 10).low).toBe(0);
+        expect(wilsonInterval(10, 10).high).toBe(1);
+    });
+
+    it('returns an empty interval without trials', () => {
+        expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 });
+    });
+});
+
+describe('twoProportionZTest', () => {
+    it('computes z and a two-sided p-value', () => {
+        // 100/1000 vs 130/1000: pooled p = 0.115, z ≈ 2.1027
+        const { z, pValue } = twoProportionZTest(100, 1000, 130, 1000);
+        expect(z).toBeCloseTo(2.1027, 3);
+        expect(pValue).toBeCloseTo(0.0355, 3);
+    });
+
+    it('is symmetric in sign', () => {
+        expect(twoProportionZTest(130, 1000, 100, 1000).z).toBeCloseTo(-2.1027, 3);
+    });
+
+    it('returns p = 1 when there is no variance or data', () => {
+        expect(twoProportionZTest(0, 100, 0, 100).pValue).toBe(1);
+        expect(twoProportionZTest(0, 0, 5, 10).pValue).toBe(1);
+    });
+});
+
+describe('probabilityBBeatsA', () => {
+    it('is 0.5 for identical results', () => {
+        expect(probabilityBBeatsA(10, 100, 10, 100)).toBeCloseTo(0.5, 6);
+    });
+
+    it('favours the variant with the higher CTR', () => {
+        expect(probabilityBBeatsA(100, 1000, 130, 1000)).toBeGreaterThan(0.95);
+        expect(probabilityBBeatsA(130, 1000, 100, 1000)).toBeLessThan(0.05);
+    });
+
+    it('agrees with the normal approximation for large counts', () => {
+        // Normal approximation of the difference of the two Beta posteriors.
+        const normal = (clicksA: number, impressionsA: number, clicksB: number, impressionsB: number) => {
+            const moments = (clicks: number, impressions: number) => {
+                const a = clicks + 1;
+                const b = impressions - clicks + 1;
+                return { mean: a / (a + b), variance: (a * b) / ((a + b) ** 2 * (a + b + 1)) };
+            };
+            const pa = moments(clicksA, impressionsA);
+            const pb = moments(clicksB, impressionsB);
+            return normalCdf((pb.mean - pa.mean) / Math.sqrt(pa.variance + pb.variance));
+        };
+        // Below the switch-over the exact sum is used, above it the approximation.
+        expect(probabilityBBeatsA(4000, 50000, 4100, 50000)).toBeCloseTo(normal(4000, 50000, 4100, 50000), 3);
+        expect(probabilityBBeatsA(6000, 60000, 6150, 60000)).toBeCloseTo(normal(6000, 60000, 6150, 60000), 6);
+    });
+});
+
+describe('countVariants', () => {
+    const event = (type: AnalyticsEvent['type'], variant: string, linkId = 'l1'): AnalyticsEvent =>
+        ({ id: Math.random().toString(36), type, linkId, variant, timestamp: 0 });
+
+    it('counts exposures, impressions and clicks per variant of one link', () => {
+        const counts = countVariants([
+            event('exposure', 'B'),
+            event('impression', 'B'),
+            event('exposure', 'A'),
+            event('impression', 'A'),
+            event('click', 'A'),
+            event('exposure', 'A'),
+            event('exposure', 'A', 'other'),
+        ], 'l1');
+        expect(counts).toEqual([
+            { key: 'A', exposures: 2, impressions: 1, clicks: 1 },
+            { key: 'B', exposures: 1, impressions: 1, clicks: 0 },
+        ]);
+    });
+
+    it('never counts more clicks than exposures', () => {
+        const counts = countVariants([
+            event('exposure', 'A'),
+            event('impression', 'A'),
+            event('click', 'A'),
+            event('click', 'A'),
+        ], 'l1');
+        expect(counts).toEqual([{ key: 'A', exposures: 1, impressions: 1, clicks: 1 }]);
+    });
+});
+
+describe('analyzeAbTest', () => {
+    it('stays finite when clicks exceed exposures', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 3, impressions: 3, clicks: 5 },
+            { key: 'B', exposures: 3, impressions: 3, clicks: 1 },
+        ]);
+        for (const v of analysis.variants) {
+            expect(Number.isFinite(v.ctrInterval.low) && Number.isFinite(v.ctrInterval.high)).toBe(true);
+            expect(v.ctrInterval.high).toBeLessThanOrEqual(1);
+        }
+        expect(Number.isFinite(analysis.variants[1].pValue)).toBe(true);
+        expect(analysis.variants[0].ctr).toBe(1);
+        expect(analysis.variants[1].probabilityToBeatControl).toBeGreaterThanOrEqual(0);
+        expect(analysis.variants[1].probabilityToBeatControl).toBeLessThan(0.5);
+    });
+
+    it('declares a significantly better variant the winner', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 1000, impressions: 1000, clicks: 100 },
+            { key: 'B', exposures: 1000, impressions: 1000, clicks: 140 },
+        ]);
+        expect(analysis.enoughData).toBe(true);
+        expect(analysis.winner).toBe('B');
+        expect(analysis.variants[1].lift).toBeCloseTo(0.4, 6);
+        expect(analysis.variants[0].pValue).toBeNull();
+    });
+
+    it('rates variants per exposure, so a CTA shown less often is not favoured', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 1000, impressions: 1000, clicks: 100 },
+            { key: 'B', exposures: 1000, impressions: 500, clicks: 100 },
+        ]);
+        expect(analysis.variants[1].ctr).toBeCloseTo(0.1, 6);
+        expect(analysis.winner).toBeNull();
+    });
+
+    it('can declare the control the winner', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 1000, impressions: 1000, clicks: 140 },
+            { key: 'B', exposures: 1000, impressions: 1000, clicks: 100 },
+        ]);
+        expect(analysis.winner).toBe('A');
+    });
+
+    it('does not declare a winner for insignificant differences', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 1000, impressions: 1000, clicks: 100 },
+            { key: 'B', exposures: 1000, impressions: 1000, clicks: 105 },
+        ]);
+        expect(analysis.winner).toBeNull();
+    });
+
+    it('waits for the minimum sample size', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 50, impressions: 50, clicks: 1 },
+            { key: 'B', exposures: 50, impressions: 50, clicks: 20 },
+        ]);
+        expect(analysis.enoughData).toBe(false);
+        expect(analysis.winner).toBeNull();
+    });
+
+    it('requires the best of several variants to beat every other one', () => {
+        const analysis = analyzeAbTest([
+            { key: 'A', exposures: 1000, impressions: 1000, clicks: 100 },
+            { key: 'B', exposures: 1000, impressions: 1000, clicks: 150 },
+            { key: 'C', exposures: 1000, impressions: 1000, clicks: 145 },
+        ]);
+        expect(analysis.winner).toBeNull();
+    });
+});
@@ -0,0 +1,237 @@
+/**
+ * Statistics for A/B link results. Everything here is pure so it can be unit
+ * tested and reused by any view.
+ */
+import { AnalyticsEvent } from './analytics';
+
+export interface VariantCounts {
+    key: string;
+    /**
+     * Views the variant was assigned in (`exposure` events). CTRs are clicks per
+     * exposure, so a variant whose show delay or exit intent keeps the CTA
+     * hidden more often isn't credited with a higher rate for it.
+     */
+    exposures: number;
+    /** Views in which the CTA actually appeared. */
+    impressions: number;
+    clicks: number;
+}
+
+export interface Interval {
+    low: number;
+    high: number;
+}
+
+export interface VariantResult extends VariantCounts {
+    /** Clicks per exposure. */
+    ctr: number;
+    /** Wilson score interval for the CTR. */
+    ctrInterval: Interval;
+    /** Relative CTR lift over the control (first variant); null for the control itself or a zero baseline. */
+    lift: number | null;
+    /** Two-sided p-value of the two-proportion z-test against the control; null for the control. */
+    pValue: number | null;
+    /** Bayesian probability that this variant's true CTR beats the control's; null for the control. */
+    probabilityToBeatControl: number | null;
+}
+
+export interface AbTestAnalysis {
+    variants: VariantResult[];
+    /** Key of the variant with a significantly higher CTR than every other one, if any. */
+    winner: string | null;
+    /** False while any variant has fewer exposures than `minExposures`. */
+    enoughData: boolean;
+}
+
+/** Exposures each variant needs by default before a winner can be declared. */
+export const MIN_EXPOSURES = 100;
+
+export interface AbTestOptions {
+    /** Significance level for the z-test. */
+    alpha?: number;
+    /** Confidence level for the CTR intervals. */
+    confidence?: number;
+    /** Minimum exposures per variant before a winner can be declared. */
+    minExposures?: number;
+}
+
+// --- DISTRIBUTIONS ---
+
+/** Error function, Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7). */
+export const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const ax = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * ax);
+    const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+    return sign * y;
+};
+
+export const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+/** Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9). */
+export const normalQuantile = (p: number): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+    if (p < low) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - low) {
+        return -normalQuantile(1 - p);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/** log Γ(x) for x > 0 (Lanczos approximation, g = 7). */
+export const logGamma = (x: number): number => {
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+        -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+    if (x < 0.5) {
+        return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    }
+    x -= 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) {
+        sum += coefficients[i] / (x + i);
+    }
+    const t = x + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+const logBeta = (a: number, b: number) => logGamma(a) + logGamma(b) - logGamma(a + b);
+
+// --- TESTS ---
+
+export const ctr = (clicks: number, impressions: number) => (impressions > 0 ? clicks / impressions : 0);
+
+/**
+ * Clicks are logged per click but exposures once per view, so a visitor
+ * clicking twice (or two buttons) can push clicks past exposures. The
+ * binomial math below needs successes <= trials.
+ */
+const boundedClicks = (clicks: number, trials: number) => Math.min(Math.max(0, clicks), Math.max(0, trials));
+
+/** Wilson score interval for a binomial proportion. */
+export const wilsonInterval = (successes: number, trials: number, confidence = 0.95): Interval => {
+    if (trials <= 0) return { low: 0, high: 0 };
+    const z = normalQuantile(1 - (1 - confidence) / 2);
+    const p = boundedClicks(successes, trials) / trials;
+    const z2 = z * z;
+    const denominator = 1 + z2 / trials;
+    const center = (p + z2 / (2 * trials)) / denominator;
+    const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+    return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+};
+
+/** Pooled two-proportion z-test. Returns z for (b - a) and the two-sided p-value. */
+export const twoProportionZTest = (clicksA: number, impressionsA: number, clicksB: number, impressionsB: number): { z: number; pValue: number } => {
+    if (impressionsA <= 0 || impressionsB <= 0) return { z: 0, pValue: 1 };
+    clicksA = boundedClicks(clicksA, impressionsA);
+    clicksB = boundedClicks(clicksB, impressionsB);
+    const pooled = (clicksA + clicksB) / (impressionsA + impressionsB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / impressionsA + 1 / impressionsB));
+    if (standardError === 0) return { z: 0, pValue: 1 };
+    const z = (ctr(clicksB, impressionsB) - ctr(clicksA, impressionsA)) / standardError;
+    return { z, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+};
+
+/** Above this many successes the exact sum gets slow; a normal approximation is accurate there anyway. */
+const EXACT_BAYES_LIMIT = 5000;
+
+/**
+ * P(CTR_B > CTR_A) with independent Beta(1 + clicks, 1 + misses) posteriors
+ * (uniform priors). Exact closed-form sum (Evan Miller) for moderate counts.
+ */
+export const probabilityBBeatsA = (clicksA: number, impressionsA: number, clicksB: number, impressionsB: number): number => {
+    clicksA = boundedClicks(clicksA, impressionsA);
+    clicksB = boundedClicks(clicksB, impressionsB);
+    const alphaA = clicksA + 1;
+    const betaA = impressionsA - clicksA + 1;
+    const alphaB = clicksB + 1;
+    const betaB = impressionsB - clicksB + 1;
+
+    if (alphaB > EXACT_BAYES_LIMIT) {
+        const mean = (a: number, b: number) => a / (a + b);
+        const variance = (a: number, b: number) => (a * b) / ((a + b) ** 2 * (a + b + 1));
+        const diff = mean(alphaB, betaB) - mean(alphaA, betaA);
+        const sd = Math.sqrt(variance(alphaA, betaA) + variance(alphaB, betaB));
+        return normalCdf(diff / sd);
+    }
+
+    let total = 0;
+    for (let i = 0; i < alphaB; i++) {
+        total += Math.exp(logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - logBeta(1 + i, betaB) - logBeta(alphaA, betaA));
+    }
+    return Math.min(1, Math.max(0, total));
+};
+
+// --- ANALYSIS ---
+
+/**
+ * Counts exposures, impressions and clicks per variant for one link, sorted by
+ * variant key. Each variant's click total is capped at its exposure total so
+ * the binomial math stays defined; repeat clicks in one view are not deduplicated.
+ */
+export const countVariants = (events: AnalyticsEvent[], linkId: string): VariantCounts[] => {
+    const counts = new Map<string, VariantCounts>();
+    for (const e of events) {
+        if (e.linkId !== linkId || !e.variant) continue;
+        const entry = counts.get(e.variant) ?? { key: e.variant, exposures: 0, impressions: 0, clicks: 0 };
+        if (e.type === 'exposure') entry.exposures++;
+        else if (e.type === 'impression') entry.impressions++;
+        else entry.clicks++;
+        counts.set(e.variant, entry);
+    }
+    return [...counts.values()]
+        .map(entry => ({ ...entry, clicks: boundedClicks(entry.clicks, entry.exposures) }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Compares every variant against the first one (the control) and declares a
+ * winner only when the best variant is significantly better than each of the
+ * others and every variant has enough data.
+ */
+export const analyzeAbTest = (rawCounts: VariantCounts[], options: AbTestOptions = {}): AbTestAnalysis => {
+    const { alpha = 0.05, confidence = 0.95, minExposures = MIN_EXPOSURES } = options;
+    const counts = rawCounts.map(v => ({ ...v, clicks: boundedClicks(v.clicks, v.exposures) }));
+    if (counts.length === 0) {
+        return { variants: [], winner: null, enoughData: false };
+    }
+
+    const control = counts[0];
+    const controlCtr = ctr(control.clicks, control.exposures);
+    const variants: VariantResult[] = counts.map((v, i) => {
+        const variantCtr = ctr(v.clicks, v.exposures);
+        const isControl = i === 0;
+        return {
+            ...v,
+            ctr: variantCtr,
+            ctrInterval: wilsonInterval(v.clicks, v.exposures, confidence),
+            lift: isControl || controlCtr === 0 ? null : (variantCtr - controlCtr) / controlCtr,
+            pValue: isControl ? null : twoProportionZTest(control.clicks, control.exposures, v.clicks, v.exposures).pValue,
+            probabilityToBeatControl: isControl ? null : probabilityBBeatsA(control.clicks, control.exposures, v.clicks, v.exposures),
+        };
+    });
+
+    const enoughData = counts.length > 1 && counts.every(v => v.exposures >= minExposures);
+    let winner: string | null = null;
+    if (enoughData) {
+        const best = variants.reduce((a, b) => (b.ctr > a.ctr ? b : a));
+        const beatsAll = variants.every(other =>
+            other === best
+            || (best.ctr > other.ctr && twoProportionZTest(other.clicks, other.exposures, best.clicks, best.exposures).pValue < alpha));
+        if (beatsAll) winner = best.key;
+    }
+
+    return { variants, winner, enoughData };
+};
@@ -0,0 +1,6 @@
+/**
+ * The AI proxy (server/aiProxy.mjs) holds the Gemini key and reads pages on
+ * the app's behalf. Its address comes from AI_PROXY_ENDPOINT; any server
+ * speaking the same protocol, such as a local stub, can stand in for it.
+ */
+export const aiProxyEndpoint = () => (process.env.AI_PROXY_ENDPOINT || '').replace(/\/+$/, '');
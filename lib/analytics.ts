@@ -0,0 +1,163 @@
+/**
+ * Event tracking for shared links.
+ *
+ * ViewerView records events through an EventSink. The default sink keeps them
+ * in this browser (IndexedDB, falling back to localStorage); setting
+ * ANALYTICS_ENDPOINT switches to the HTTP collector so events from every
+ * visitor end up in one place.
+ *
+ * Collector protocol (see server/collector.mjs for a stand-in):
+ *   POST {endpoint}/events            body: AnalyticsEvent
+ *   GET  {endpoint}/events?since=<ms>&linkId=<id>  -> AnalyticsEvent[]
+ */
+import { STORES, idbGetAll, idbPut, isIndexedDbAvailable } from './idb';
+import { cyrb53 } from './hash';
+
+/**
+ * `exposure` is recorded once per view of an A/B link and names the variant
+ * the visitor was assigned; A/B results count clicks per exposure (see
+ * countVariants in lib/abStats.ts).
+ */
+export type AnalyticsEventType = 'impression' | 'click' | 'exposure';
+
+export interface AnalyticsEvent {
+    id: string;
+    type: AnalyticsEventType;
+    linkId: string;
+    timestamp: number;
+    /** Target page of the link, so analytics can label links without decoding them. */
+    targetUrl?: string;
+    /** Variant key for A/B links ('A', 'B', ...). */
+    variant?: string;
+    /** Id of the clicked CTA button; clicks recorded before CTAs had several buttons have none. */
+    button?: string;
+}
+
+export interface EventQuery {
+    linkId?: string;
+    /** Only events at or after this timestamp (ms). */
+    since?: number;
+}
+
+export interface EventSink {
+    record(event: AnalyticsEvent): Promise<void>;
+    list(query?: EventQuery): Promise<AnalyticsEvent[]>;
+}
+
+const matchesQuery = (event: AnalyticsEvent, query: EventQuery) =>
+    (!query.linkId || event.linkId === query.linkId) && (!query.since || event.timestamp >= query.since);
+
+// --- LOCAL SINK ---
+
+const LOCAL_STORAGE_KEY = 'sniply.events';
+/** localStorage is small; keep only the most recent events there. */
+const LOCAL_STORAGE_LIMIT = 5000;
+
+export class LocalEventSink implements EventSink {
+    async record(event: AnalyticsEvent): Promise<void> {
+        if (isIndexedDbAvailable()) {
+            try {
+                await idbPut(STORES.events, event);
+                return;
+            } catch (e) {
+                console.warn("IndexedDB unavailable, falling back to localStorage.", e);
+            }
+        }
+        const events = this.readLocalStorage();
+        events.push(event);
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(events.slice(-LOCAL_STORAGE_LIMIT)));
+    }
+
+    async list(query: EventQuery = {}): Promise<AnalyticsEvent[]> {
+        let events: AnalyticsEvent[] = [];
+        if (isIndexedDbAvailable()) {
+            try {
+                events = query.linkId
+                    ? await idbGetAll<AnalyticsEvent>(STORES.events, 'linkId', query.linkId)
+                    : await idbGetAll<AnalyticsEvent>(STORES.events, 'timestamp', query.since ? IDBKeyRange.lowerBound(query.since) : undefined);
+            } catch (e) {
+                console.warn("Failed to read events from IndexedDB.", e);
+            }
+        }
+        // Events written while IndexedDB was unavailable live in localStorage.
+        events = events.concat(this.readLocalStorage());
+        return events.filter(e => matchesQuery(e, query));
+    }
+
+    private readLocalStorage(): AnalyticsEvent[] {
+        try {
+            const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+            return raw ? JSON.parse(raw) : [];
+        } catch {
+            return [];
+        }
+    }
+}
+
+// --- HTTP SINK ---
+
+export class HttpEventSink implements EventSink {
+    constructor(private readonly endpoint: string) {}
+
+    async record(event: AnalyticsEvent): Promise<void> {
+        const url = `${this.endpoint}/events`;
+        const body = JSON.stringify(event);
+        // sendBeacon survives the page being closed right after a click. text/plain
+        // keeps it a CORS "simple" request; the collector parses the body as JSON anyway.
+        if (typeof navigator !== 'undefined' && navigator.sendBeacon?.(url, new Blob([body], { type: 'text/plain' }))) {
+            return;
+        }
+        const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true });
+        if (!response.ok) {
+            throw new Error(`Collector rejected event: ${response.status}`);
+        }
+    }
+
+    async list(query: EventQuery = {}): Promise<AnalyticsEvent[]> {
+        const params = new URLSearchParams();
+        if (query.linkId) params.set('linkId', query.linkId);
+        if (query.since) params.set('since', String(query.since));
+        const response = await fetch(`${this.endpoint}/events?${params}`);
+        if (!response.ok) {
+            throw new Error(`Collector returned ${response.status}`);
+        }
+        return response.json();
+    }
+}
+
+// --- TRACKING ---
+
+let sink: EventSink | null = null;
+
+export const getEventSink = (): EventSink => {
+    if (!sink) {
+        const endpoint = process.env.ANALYTICS_ENDPOINT;
+        sink = endpoint ? new HttpEventSink(endpoint.replace(/\/+$/, '')) : new LocalEventSink();
+    }
+    return sink;
+};
+
+/** Replaces the sink used by `trackEvent`, e.g. for tests or a custom backend. */
+export const setEventSink = (next: EventSink) => {
+    sink = next;
+};
+
+export const isUsingLocalSink = () => getEventSink() instanceof LocalEventSink;
+
+const randomId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/** Records an event without ever throwing: analytics must not break the viewer. */
+export const trackEvent = (event: Omit<AnalyticsEvent, 'id' | 'timestamp'>): void => {
+    getEventSink()
+        .record({ ...event, id: randomId(), timestamp: Date.now() })
+        .catch(e => console.warn("Failed to record analytics event.", e));
+};
+
+/**
+ * Derives a stable ID from the encoded link payload, so the same link always
+ * maps to the same analytics bucket.
+ */
+export const linkIdFromHash = (encoded: string): string => cyrb53(encoded).toString(36);
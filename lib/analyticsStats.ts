@@ -0,0 +1,120 @@
+/**
+ * Pure aggregation of analytics events into the numbers AnalyticsView shows.
+ */
+import { AnalyticsEvent } from './analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Totals {
+    impressions: number;
+    clicks: number;
+    /** Click-through rate as a fraction (0..1); 0 when there are no impressions. */
+    ctr: number;
+}
+
+export interface DailyPoint extends Totals {
+    /** Local calendar date, `YYYY-MM-DD`. */
+    date: string;
+}
+
+export interface PeriodStats {
+    current: Totals;
+    previous: Totals;
+    daily: DailyPoint[];
+}
+
+export interface LinkSummary extends Totals {
+    linkId: string;
+    targetUrl?: string;
+    lastSeen: number;
+}
+
+const totals = (impressions: number, clicks: number): Totals => ({
+    impressions,
+    clicks,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+});
+
+const countTotals = (events: AnalyticsEvent[]): Totals => {
+    let impressions = 0;
+    let clicks = 0;
+    for (const e of events) {
+        if (e.type === 'impression') impressions++;
+        else if (e.type === 'click') clicks++;
+    }
+    return totals(impressions, clicks);
+};
+
+export const toDateKey = (timestamp: number): string => {
+    const d = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const startOfDay = (timestamp: number) => {
+    const d = new Date(timestamp);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+};
+
+/**
+ * Totals for the last `days` days (today included), the same-length period
+ * before it, and one point per day of the current period, oldest first.
+ */
+export const computePeriodStats = (events: AnalyticsEvent[], now: number, days = 30): PeriodStats => {
+    const periodStart = startOfDay(now) - (days - 1) * DAY_MS;
+    const previousStart = periodStart - days * DAY_MS;
+
+    const current = events.filter(e => e.timestamp >= periodStart && e.timestamp <= now);
+    const previous = events.filter(e => e.timestamp >= previousStart && e.timestamp < periodStart);
+
+    const byDay = new Map<string, AnalyticsEvent[]>();
+    for (const e of current) {
+        const key = toDateKey(e.timestamp);
+        const bucket = byDay.get(key);
+        if (bucket) bucket.push(e);
+        else byDay.set(key, [e]);
+    }
+
+    const daily: DailyPoint[] = [];
+    for (let i = 0; i < days; i++) {
+        // Step from noon so DST shifts never skip or repeat a calendar day.
+        const date = toDateKey(periodStart + i * DAY_MS + DAY_MS / 2);
+        daily.push({ date, ...countTotals(byDay.get(date) ?? []) });
+    }
+
+    return { current: countTotals(current), previous: countTotals(previous), daily };
+};
+
+/** Relative change between two values, or null when there's no baseline. */
+export const relativeChange = (current: number, previous: number): number | null =>
+    previous > 0 ? (current - previous) / previous : null;
+
+/** Per-link totals, most recently active link first. */
+export const summarizeLinks = (events: AnalyticsEvent[]): LinkSummary[] => {
+    const byLink = new Map<string, AnalyticsEvent[]>();
+    for (const e of events) {
+        const bucket = byLink.get(e.linkId);
+        if (bucket) bucket.push(e);
+        else byLink.set(e.linkId, [e]);
+    }
+    return [...byLink.entries()]
+        .map(([linkId, linkEvents]) => ({
+            linkId,
+            targetUrl: linkEvents.find(e => e.targetUrl)?.targetUrl,
+            lastSeen: Math.max(...linkEvents.map(e => e.timestamp)),
+            ...countTotals(linkEvents),
+        }))
+        .sort((a, b) => b.lastSeen - a.lastSeen);
+};
+
+/** Clicks per CTA button id, most clicked first; clicks recorded without a button are left out. */
+export const countClicksByButton = (events: AnalyticsEvent[]): { button: string; clicks: number }[] => {
+    const counts = new Map<string, number>();
+    for (const e of events) {
+        if (e.type === 'click' && e.button) counts.set(e.button, (counts.get(e.button) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .map(([button, clicks]) => ({ button, clicks }))
+        .sort((a, b) => b.clicks - a.clicks);
+};
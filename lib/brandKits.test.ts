@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CtaData } from '../types';
+import { applyBrandKit, applyTemplate, brandKitFromData, builtInTemplates, parseBrandAssets, serializeBrandAssets, templateFromData } from './brandKits';
+import { createTranslator } from './i18n';
+
+const builtIns = builtInTemplates(createTranslator('ru'));
+
+const data: CtaData = {
+    ...builtIns[0].data,
+    message: 'Мой текст',
+    buttons: [
+        { id: 'buy', text: 'Купить', action: 'url', target: 'https://shop.example', style: 'primary', color: '#1877f2' },
+        { id: 'call', text: 'Позвонить', action: 'tel', target: '+79001234567', style: 'secondary', color: '#1877f2' },
+    ],
+    profileImageUrl: 'https://shop.example/logo.png',
+};
+
+describe('applying kits and templates', () => {
+    it('applies kit styling and keeps the text unless the kit sets button text', () => {
+        const kit = { ...brandKitFromData('Бренд', { ...data, bgColor: '#000000', fontFamily: "'Lora', serif" }), btnColor: '#ff0000', buttonText: undefined };
+        const next = applyBrandKit(data, kit);
+        expect(next).toMatchObject({ bgColor: '#000000', fontFamily: "'Lora', serif", message: 'Мой текст' });
+        expect(next.buttons.map(b => [b.text, b.color])).toEqual([['Купить', '#ff0000'], ['Позвонить', '#ff0000']]);
+        expect(applyBrandKit(data, { ...kit, buttonText: 'Заказать' }).buttons.map(b => b.text)).toEqual(['Заказать', 'Позвонить']);
+    });
+
+    it('applies a template but keeps the link URLs', () => {
+        const next = applyTemplate(data, builtIns[1]);
+        expect(next.theme).toBe('dark');
+        expect(next.message).toBe(builtIns[1].data.message);
+        expect(next.buttons.map(b => [b.text, b.target])).toEqual([['Подписаться', 'https://shop.example'], ['Позвонить', '+79001234567']]);
+        expect(next.profileImageUrl).toBe('https://shop.example/logo.png');
+    });
+});
+
+describe('brand asset files', () => {
+    it('round-trips kits and user templates, dropping built-ins', () => {
+        const kit = brandKitFromData('Бренд', data);
+        const template = templateFromData('Мой шаблон', data);
+        const parsed = parseBrandAssets(serializeBrandAssets({ brandKits: [kit], templates: [...builtIns, template] }));
+        expect(parsed.ok).toBe(true);
+        expect(parsed.value.brandKits).toEqual([kit]);
+        expect(parsed.value.templates.map(t => t.id)).toEqual([template.id]);
+        expect(parsed.value.templates[0].data.buttons.map(b => b.target)).toEqual(['', '']);
+    });
+
+    it('imports templates exported before CTAs had several buttons', () => {
+        const { buttons, ...legacy } = builtIns[0].data;
+        const file = JSON.stringify({
+            format: 'sniply.brand-assets',
+            version: 1,
+            templates: [{ id: 't', name: 'Старый', updatedAt: 1, data: { ...legacy, buttonText: 'Читать', buttonUrl: '', btnColor: '#3d3d3d' } }],
+        });
+        expect(parseBrandAssets(file).value.templates[0].data.buttons).toEqual([
+            { id: 'main', text: 'Читать', action: 'url', target: '', style: 'primary', color: '#3d3d3d' },
+        ]);
+    });
+
+    it('rejects foreign files and reports invalid entries by path', () => {
+        expect(parseBrandAssets('{"hello": 1}').errors[0].path).toBe('format');
+        expect(parseBrandAssets('not json').ok).toBe(false);
+        const file = JSON.stringify({ format: 'sniply.brand-assets', version: 1, brandKits: [{ id: 'x', name: 'X', bgColor: 'red', btnColor: '#fff', fontFamily: 'Inter', cornerRadius: 4 }] });
+        expect(parseBrandAssets(file).errors.map(e => e.path)).toEqual(['brandKits.0.bgColor']);
+    });
+});
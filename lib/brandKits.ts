@@ -0,0 +1,254 @@
+/**
+ * Brand kits and CTA templates: reusable styling that can be applied to the
+ * draft or any A/B variant, stored in IndexedDB and shared as a JSON file.
+ */
+import { CtaData } from '../types';
+import { DEFAULT_BUTTON_COLOR } from './ctaButtons';
+import { upgradeStoredCta } from './storedCta';
+import { STORES, idbDelete, idbGetAll, idbPut } from './idb';
+import { FieldError, FieldReader, ValidationResult, isRecord, validateCtaData } from './payloadSchema';
+import { Translate } from './i18n';
+
+export interface BrandKit {
+    id: string;
+    name: string;
+    bgColor: string;
+    /** Applied to every button. */
+    btnColor: string;
+    fontFamily: string;
+    cornerRadius: number;
+    /** Logo, applied as the CTA's profile image. */
+    profileImageUrl?: string;
+    /** First button's text; applied only when set, so a kit can leave the current wording alone. */
+    buttonText?: string;
+    updatedAt: number;
+}
+
+export interface CtaTemplate {
+    id: string;
+    name: string;
+    data: CtaData;
+    /** Shipped with the app; can't be deleted and isn't exported. */
+    builtIn?: boolean;
+    updatedAt: number;
+}
+
+/** Fields a template never overwrites: they belong to the link, not the design. */
+type LinkOwnedField = 'profileImageUrl';
+const TEMPLATE_KEEPS: readonly LinkOwnedField[] = ['profileImageUrl'];
+
+const copyField = <K extends LinkOwnedField>(to: CtaData, from: CtaData, field: K) => {
+    to[field] = from[field];
+};
+
+const BUILT_IN_BASE: CtaData = {
+    message: '',
+    buttons: [],
+    position: 'bottom-left',
+    theme: 'light',
+    bgColor: '#ffffff',
+    fontFamily: "'Inter', sans-serif",
+    fontSize: 14,
+    scale: 1,
+    cornerRadius: 8,
+};
+
+const builtInButton = (text: string, color = DEFAULT_BUTTON_COLOR) =>
+    ({ id: 'main', text, action: 'url', target: '', style: 'primary', color } as const);
+
+/** The shipped templates, with names and copy in the UI language. */
+export const builtInTemplates = (t: Translate): CtaTemplate[] => [
+    {
+        id: 'builtin-classic',
+        name: t('template.classic.name'),
+        builtIn: true,
+        updatedAt: 0,
+        data: { ...BUILT_IN_BASE, message: t('template.classic.message'), buttons: [builtInButton(t('template.classic.button'))] },
+    },
+    {
+        id: 'builtin-night',
+        name: t('template.night.name'),
+        builtIn: true,
+        updatedAt: 0,
+        data: { ...BUILT_IN_BASE, message: t('template.night.message'), buttons: [builtInButton(t('template.night.button'), '#42b72a')], position: 'bottom-right', theme: 'dark', bgColor: '#1c1e21', cornerRadius: 12 },
+    },
+    {
+        id: 'builtin-promo-banner',
+        name: t('template.promoBanner.name'),
+        builtIn: true,
+        updatedAt: 0,
+        data: { ...BUILT_IN_BASE, message: t('template.promoBanner.message'), buttons: [builtInButton(t('template.promoBanner.button'), '#f2184f')], position: 'bottom-banner', bgColor: '#fff4e5', fontFamily: "'Poppins', sans-serif", fontSize: 16, cornerRadius: 0 },
+    },
+    {
+        id: 'builtin-editorial',
+        name: t('template.editorial.name'),
+        builtIn: true,
+        updatedAt: 0,
+        data: { ...BUILT_IN_BASE, message: t('template.editorial.message'), buttons: [builtInButton(t('template.editorial.button'), '#3d3d3d')], bgColor: '#faf7f2', fontFamily: "'Lora', serif", fontSize: 15, scale: 1.1, cornerRadius: 2 },
+    },
+];
+
+const newId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// --- APPLYING ---
+
+export const applyBrandKit = (data: CtaData, kit: BrandKit): CtaData => ({
+    ...data,
+    bgColor: kit.bgColor,
+    fontFamily: kit.fontFamily,
+    cornerRadius: kit.cornerRadius,
+    buttons: data.buttons.map((b, i) => ({ ...b, color: kit.btnColor, ...(i === 0 && kit.buttonText ? { text: kit.buttonText } : {}) })),
+    ...(kit.profileImageUrl ? { profileImageUrl: kit.profileImageUrl } : {}),
+});
+
+/**
+ * Takes the template's design and copy but keeps the link's own URLs: each
+ * template button takes over where the link's button in the same slot led,
+ * and the link's buttons beyond the template's are kept as they are.
+ */
+export const applyTemplate = (data: CtaData, template: CtaTemplate): CtaData => {
+    const next: CtaData = { ...template.data };
+    for (const field of TEMPLATE_KEEPS) copyField(next, data, field);
+    next.buttons = [
+        ...template.data.buttons.map((b, i) => {
+            const own = data.buttons[i];
+            return own ? { ...b, id: own.id, action: own.action, target: own.target } : b;
+        }),
+        ...data.buttons.slice(template.data.buttons.length),
+    ];
+    return next;
+};
+
+/** Snapshot of the current styling, for "save as brand kit". */
+export const brandKitFromData = (name: string, data: CtaData): BrandKit => ({
+    id: newId(),
+    name,
+    bgColor: data.bgColor,
+    btnColor: data.buttons[0]?.color ?? DEFAULT_BUTTON_COLOR,
+    fontFamily: data.fontFamily,
+    cornerRadius: data.cornerRadius,
+    profileImageUrl: data.profileImageUrl || undefined,
+    buttonText: data.buttons[0]?.text || undefined,
+    updatedAt: Date.now(),
+});
+
+export const templateFromData = (name: string, data: CtaData): CtaTemplate => ({
+    id: newId(),
+    name,
+    data: { ...data, buttons: data.buttons.map(b => ({ ...b, target: '' })) },
+    updatedAt: Date.now(),
+});
+
+// --- STORAGE ---
+
+const byName = <T extends { name: string }>(items: T[]) => items.sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+
+export const listBrandKits = async () => byName(await idbGetAll<BrandKit>(STORES.brandKits));
+
+export const saveBrandKit = (kit: BrandKit) => idbPut(STORES.brandKits, kit);
+
+export const deleteBrandKit = (id: string) => idbDelete(STORES.brandKits, id);
+
+/** User templates only; callers prepend builtInTemplates() for the gallery. */
+export const listTemplates = async () =>
+    byName((await idbGetAll<CtaTemplate>(STORES.templates)).map(t => ({ ...t, data: upgradeStoredCta(t.data) as CtaData })));
+
+export const saveTemplate = (template: CtaTemplate) => idbPut(STORES.templates, template);
+
+export const deleteTemplate = (id: string) => idbDelete(STORES.templates, id);
+
+// --- EXPORT / IMPORT ---
+
+export const BRAND_ASSETS_FORMAT = 'sniply.brand-assets';
+export const BRAND_ASSETS_VERSION = 1;
+
+export interface BrandAssets {
+    brandKits: BrandKit[];
+    templates: CtaTemplate[];
+}
+
+export const serializeBrandAssets = ({ brandKits, templates }: BrandAssets): string =>
+    JSON.stringify({
+        format: BRAND_ASSETS_FORMAT,
+        version: BRAND_ASSETS_VERSION,
+        brandKits,
+        templates: templates.filter(t => !t.builtIn),
+    }, null, 2);
+
+const validateBrandKit = (value: unknown, path: string, errors: FieldError[]): BrandKit | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const kit = {
+        id: r.string('id', { required: true, maxLength: 100 }),
+        name: r.string('name', { required: true, maxLength: 60 }),
+        bgColor: r.color('bgColor'),
+        btnColor: r.color('btnColor'),
+        fontFamily: r.string('fontFamily', { required: true, maxLength: 100 }),
+        cornerRadius: r.number('cornerRadius', 0, 30),
+        profileImageUrl: r.string('profileImageUrl', { maxLength: 2048 }) || undefined,
+        buttonText: r.string('buttonText') || undefined,
+        updatedAt: r.number('updatedAt', 0, Number.MAX_SAFE_INTEGER) ?? Date.now(),
+    };
+    for (const field of ['bgColor', 'btnColor', 'cornerRadius'] as const) {
+        if (value[field] === undefined) r.fail(field, 'validation.required');
+    }
+    errors.push(...r.errors);
+    return r.errors.length ? undefined : kit;
+};
+
+const validateTemplate = (value: unknown, path: string, errors: FieldError[]): CtaTemplate | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const id = r.string('id', { required: true, maxLength: 100 });
+    const name = r.string('name', { required: true, maxLength: 60 });
+    const updatedAt = r.number('updatedAt', 0, Number.MAX_SAFE_INTEGER) ?? Date.now();
+    errors.push(...r.errors);
+    // Files exported before CTAs had a button list still import.
+    const data = validateCtaData(upgradeStoredCta(value.data), `${path}.data`);
+    if (!data.ok) errors.push(...data.errors);
+    return r.errors.length || !data.ok ? undefined : { id, name, data: data.value, updatedAt };
+};
+
+/** Parses and validates an exported JSON file. Nothing is imported if any entry is invalid. */
+export const parseBrandAssets = (text: string): ValidationResult<BrandAssets> => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return { ok: false, errors: [{ path: '(root)', message: 'validation.invalidJson' }] };
+    }
+    if (!isRecord(value) || value.format !== BRAND_ASSETS_FORMAT) {
+        return { ok: false, errors: [{ path: 'format', message: 'validation.notBrandFile' }] };
+    }
+    if (typeof value.version !== 'number' || value.version > BRAND_ASSETS_VERSION) {
+        return { ok: false, errors: [{ path: 'version', message: 'validation.newerVersion' }] };
+    }
+
+    const errors: FieldError[] = [];
+    const list = (field: 'brandKits' | 'templates') => {
+        const items = value[field] ?? [];
+        if (!Array.isArray(items)) {
+            errors.push({ path: field, message: 'validation.array' });
+            return [];
+        }
+        return items;
+    };
+    const brandKits = list('brandKits').map((kit, i) => validateBrandKit(kit, `brandKits.${i}`, errors));
+    const templates = list('templates').map((t, i) => validateTemplate(t, `templates.${i}`, errors));
+    if (errors.length) return { ok: false, errors };
+    return { ok: true, value: { brandKits, templates } };
+};
+
+/** Saves every entry; entries with an existing ID overwrite it, so re-importing a shared file updates it. */
+export const importBrandAssets = async ({ brandKits, templates }: BrandAssets) => {
+    await Promise.all([...brandKits.map(saveBrandKit), ...templates.map(saveTemplate)]);
+};
@@ -0,0 +1,65 @@
+/**
+ * The prompt for AI copy suggestions, shared by lib/copyProviders.ts and
+ * server/aiProxy.mjs so every provider asks the model the same thing. Plain
+ * JavaScript, so the proxy can import it without a build step.
+ */
+
+export const TONE_INSTRUCTIONS = {
+    neutral: '',
+    formal: 'Use a formal, professional tone.',
+    playful: 'Use a playful, friendly tone.',
+    urgent: 'Create a sense of urgency.',
+};
+
+/**
+ * Languages the copy can be written in; `name` goes into the prompt.
+ * @type {{ code: string, label: string, name: string }[]}
+ */
+export const COPY_LANGUAGES = [
+    { code: 'ru', label: 'Русский', name: 'Russian' },
+    { code: 'en', label: 'English', name: 'English' },
+    { code: 'uk', label: 'Українська', name: 'Ukrainian' },
+    { code: 'de', label: 'Deutsch', name: 'German' },
+    { code: 'es', label: 'Español', name: 'Spanish' },
+    { code: 'fr', label: 'Français', name: 'French' },
+];
+
+/**
+ * Fonts the editor offers and a design may pick; index.html loads them.
+ * @type {{ label: string, value: string }[]}
+ */
+export const CTA_FONTS = [
+    { label: 'Inter', value: "'Inter', sans-serif" },
+    { label: 'Poppins', value: "'Poppins', sans-serif" },
+    { label: 'Roboto', value: "'Roboto', sans-serif" },
+    { label: 'Lora', value: "'Lora', serif" },
+    { label: 'Playfair Display', value: "'Playfair Display', serif" },
+];
+
+/** @type {('bottom-left' | 'bottom-right' | 'bottom-banner')[]} */
+export const DESIGN_POSITIONS = ['bottom-left', 'bottom-right', 'bottom-banner'];
+
+export const MAX_BUTTON_TEXT_LENGTH = 40;
+
+/**
+ * @param {{
+ *     targetUrl: string, buttonDestination?: string, theme: 'light' | 'dark',
+ *     tone: keyof typeof TONE_INSTRUCTIONS, language: string, maxMessageLength: number, count: number,
+ *     design: boolean, positioned: boolean, pageSummary?: string,
+ * }} options The body the AI proxy accepts, minus the model.
+ * @returns {string}
+ */
+export const suggestionPrompt = ({ targetUrl, buttonDestination, theme, tone, language, maxMessageLength, count, design, positioned, pageSummary }) => {
+    const languageName = COPY_LANGUAGES.find(l => l.code === language)?.name ?? 'Russian';
+    const intro = pageSummary
+        ? `This is what the webpage at the URL "${targetUrl}" contains:\n<page>\n${pageSummary}\n</page>\nBased on this content,`
+        : `Analyze the webpage at the URL "${targetUrl}". Based on its content,`;
+    return [
+        `You are a marketing copywriter expert. ${intro} suggest ${count} compelling and concise Call-To-Action (CTA) messages. For each message, also provide a short, motivating button text.`,
+        buttonDestination ? `The button will lead to "${buttonDestination}".` : 'The button submits an email sign-up form.',
+        `Write in ${languageName}. Keep each message under ${maxMessageLength} characters and each button text under ${MAX_BUTTON_TEXT_LENGTH}.`,
+        TONE_INSTRUCTIONS[tone],
+        design && `Also design each CTA: a background color that ${theme === 'dark' ? 'white' : 'dark'} text reads well on, a button color that white button text reads well on (both as #rrggbb), a font from ${CTA_FONTS.map(f => `"${f.value}"`).join(', ')}${positioned ? `, and a position from ${DESIGN_POSITIONS.join(', ')}` : ''}.`,
+        'The goal is to maximize user clicks.',
+    ].filter(Boolean).join(' ');
+};
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CtaData } from '../types';
+import {
+    CopyProviderError,
+    CopyRequest,
+    DEFAULT_COPY_OPTIONS,
+    DEFAULT_COPY_SETTINGS,
+    applySuggestion,
+    buildCopyPrompt,
+    generateCopy,
+    validateSuggestions,
+} from './copyProviders';
+
+const request: CopyRequest = {
+    targetUrl: 'https://www.shop.example/sale',
+    buttonDestination: 'https://shop.example/cart',
+    theme: 'dark',
+    positioned: true,
+    options: DEFAULT_COPY_OPTIONS,
+};
+const designOptions = { ...DEFAULT_COPY_OPTIONS, mode: 'design' as const };
+
+describe('validateSuggestions', () => {
+    it('accepts well-formed suggestions and trims them', () => {
+        expect(validateSuggestions({ suggestions: [{ message: ' Скидки до 50% ', buttonText: 'Купить' }] }))
+            .toEqual({ ok: true, value: [{ message: 'Скидки до 50%', buttonText: 'Купить' }] });
+    });
+
+    it('rejects replies of the wrong shape with paths', () => {
+        expect(validateSuggestions({ text: 'Купите' }).errors).toEqual([{ path: 'suggestions', message: expect.any(String) }]);
+        expect(validateSuggestions({ suggestions: [] }).ok).toBe(false);
+        const result = validateSuggestions({ suggestions: [{ message: 'Ок', buttonText: '  ' }, 'Купите', { message: 42, buttonText: 'Да' }] });
+        expect(result.errors.map(e => e.path)).toEqual(['suggestions.0.buttonText', 'suggestions.1', 'suggestions.2.message']);
+    });
+
+    it('holds replies to the requested length and count', () => {
+        const options = { ...DEFAULT_COPY_OPTIONS, maxMessageLength: 60, count: 1 };
+        const long = { message: 'Очень '.repeat(12), buttonText: 'Да' };
+        expect(validateSuggestions({ suggestions: [long] }, options).errors.map(e => e.path)).toEqual(['suggestions.0.message']);
+        expect(validateSuggestions({ suggestions: [{ message: 'Да', buttonText: 'Да' }, long] }, options).value).toHaveLength(1);
+    });
+
+    it('requires a usable design in design mode', () => {
+        const design = { bgColor: '#ffffff', buttonColor: '#1877f2', fontFamily: "'Lora', serif", position: 'bottom-banner' };
+        expect(validateSuggestions({ suggestions: [{ message: 'Да', buttonText: 'Да', design }] }, designOptions).value[0].design).toEqual(design);
+        const result = validateSuggestions({ suggestions: [
+            { message: 'Да', buttonText: 'Да' },
+            { message: 'Да', buttonText: 'Да', design: { ...design, bgColor: 'white', fontFamily: 'Comic Sans' } },
+        ] }, designOptions);
+        expect(result.errors.map(e => e.path)).toEqual(['suggestions.0.design', 'suggestions.1.design.bgColor', 'suggestions.1.design.fontFamily']);
+    });
+});
+
+describe('buildCopyPrompt', () => {
+    it('asks for the chosen tone, language, length and count', () => {
+        const prompt = buildCopyPrompt({ ...request, options: { ...designOptions, tone: 'urgent', language: 'en', maxMessageLength: 90, count: 5 } });
+        expect(prompt).toContain('suggest 5');
+        expect(prompt).toContain('Write in English');
+        expect(prompt).toContain('under 90 characters');
+        expect(prompt).toContain('urgency');
+        expect(prompt).toContain('white text');
+        expect(prompt).toContain('bottom-banner');
+    });
+
+    it('bases the copy on the page when it was read', () => {
+        const page = { url: request.targetUrl, title: 'Распродажа обуви', openGraph: {}, headings: ['Кроссовки −40%'], text: '' };
+        const prompt = buildCopyPrompt({ ...request, page });
+        expect(prompt).toContain('<page>\nTitle: Распродажа обуви\nHeadings: Кроссовки −40%\n</page>');
+        expect(buildCopyPrompt(request)).not.toContain('<page>');
+    });
+});
+
+describe('generateCopy', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    it('gives the same mock suggestions for the same page', async () => {
+        const settings = { ...DEFAULT_COPY_SETTINGS, provider: 'mock' as const };
+        const first = await generateCopy(request, settings);
+        expect(first).toHaveLength(3);
+        expect(first[0].message).toContain('shop.example');
+        expect(await generateCopy(request, settings)).toEqual(first);
+        const designs = await generateCopy({ ...request, options: { ...designOptions, count: 6 } }, settings);
+        expect(designs).toHaveLength(6);
+        expect(designs.every(s => s.design?.position)).toBe(true);
+    });
+
+    it('calls an OpenAI-compatible endpoint and validates its reply', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+            choices: [{ message: { content: JSON.stringify({ suggestions: [{ message: 'Распродажа', buttonText: 'В корзину' }] }) } }],
+        })));
+        vi.stubGlobal('fetch', fetchMock);
+        const settings = { ...DEFAULT_COPY_SETTINGS, provider: 'openai' as const, baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1' };
+        expect(await generateCopy(request, settings)).toEqual([{ message: 'Распродажа', buttonText: 'В корзину' }]);
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(JSON.parse(init.body as string)).toMatchObject({ model: 'llama3.1', response_format: { type: 'json_object' } });
+    });
+
+    it('asks the AI proxy for Gemini suggestions', async () => {
+        vi.stubEnv('AI_PROXY_ENDPOINT', 'http://localhost:8789/');
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ suggestions: [{ message: 'Распродажа', buttonText: 'В корзину' }] })));
+        vi.stubGlobal('fetch', fetchMock);
+        expect(await generateCopy(request, DEFAULT_COPY_SETTINGS)).toHaveLength(1);
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('http://localhost:8789/suggestions');
+        const body = JSON.parse(init.body as string);
+        expect(body).toMatchObject({
+            targetUrl: request.targetUrl, model: 'gemini-2.5-flash', buttonDestination: request.buttonDestination, theme: 'dark',
+            tone: 'neutral', language: 'ru', maxMessageLength: 120, count: 3, design: false, positioned: true,
+        });
+        // The proxy builds the prompt; the browser never sends one.
+        expect(body).not.toHaveProperty('prompt');
+        expect(init.headers).not.toHaveProperty('Authorization');
+
+        vi.stubGlobal('fetch', async () => new Response('{}', { status: 429, headers: { 'Retry-After': '30' } }));
+        await expect(generateCopy(request, DEFAULT_COPY_SETTINGS)).rejects.toMatchObject({ code: 'rate-limited' });
+        vi.stubEnv('AI_PROXY_ENDPOINT', '');
+        await expect(generateCopy(request, DEFAULT_COPY_SETTINGS)).rejects.toMatchObject({ code: 'not-configured' });
+    });
+
+    it('reports replies that are not suggestions', async () => {
+        vi.stubGlobal('fetch', async () => new Response(JSON.stringify({ choices: [{ message: { content: 'Купите сейчас!' } }] })));
+        const settings = { ...DEFAULT_COPY_SETTINGS, provider: 'openai' as const };
+        await expect(generateCopy(request, settings)).rejects.toMatchObject({ code: 'invalid-response' });
+        await expect(generateCopy(request, settings)).rejects.toBeInstanceOf(CopyProviderError);
+    });
+});
+
+describe('applySuggestion', () => {
+    const data = {
+        message: 'Привет',
+        buttons: [
+            { id: 'a', text: 'Купить', action: 'url', target: 'https://shop.example', style: 'primary', color: '#000000' },
+            { id: 'b', text: 'Позвонить', action: 'tel', target: '+79001234567', style: 'secondary', color: '#000000' },
+        ],
+        position: 'custom',
+        bgColor: '#ffffff',
+        fontFamily: "'Inter', sans-serif",
+        layout: 'top-bar',
+    } as CtaData;
+
+    it('replaces the message and the main button text', () => {
+        const next = applySuggestion(data, { message: 'Скидки', buttonText: 'В магазин' });
+        expect(next.message).toBe('Скидки');
+        expect(next.buttons.map(b => b.text)).toEqual(['В магазин', 'Позвонить']);
+        expect(next.bgColor).toBe('#ffffff');
+    });
+
+    it('applies a design, with the position only where the format has one', () => {
+        const design = { bgColor: '#2b193d', buttonColor: '#f2184f', fontFamily: "'Lora', serif", position: 'bottom-right' as const };
+        const next = applySuggestion(data, { message: 'Скидки', buttonText: 'В магазин', design });
+        expect(next).toMatchObject({ bgColor: '#2b193d', fontFamily: "'Lora', serif", position: 'custom' });
+        expect(next.buttons.map(b => b.color)).toEqual(['#f2184f', '#f2184f']);
+        expect(applySuggestion({ ...data, layout: 'classic' }, { message: 'Скидки', buttonText: 'В магазин', design }).position).toBe('bottom-right');
+    });
+});
@@ -0,0 +1,337 @@
+/**
+ * AI copy generation behind interchangeable providers: Gemini through the AI
+ * proxy (server/aiProxy.mjs, which holds the API key), any OpenAI-compatible chat completions endpoint (a hosted API or a local LLM
+ * server such as Ollama or LM Studio), and an offline mock for tests and
+ * demos. Whatever a provider returns is validated before it is shown.
+ * In 'design' mode each suggestion also carries colors, a font and a position.
+ */
+import { AIDesign, AISuggestion, CtaData } from '../types';
+import { buttonHref } from './ctaButtons';
+import { hasButtonLink, isPositionedLayout } from './ctaLayouts';
+import { FieldError, FieldReader, ValidationResult, isRecord } from './payloadSchema';
+import { aiProxyEndpoint } from './aiProxy';
+import { PageContent, summarizePage } from './pageContent';
+import { CTA_FONTS, DESIGN_POSITIONS, MAX_BUTTON_TEXT_LENGTH, suggestionPrompt } from './copyPrompt.mjs';
+
+export type CopyProviderId = 'gemini' | 'openai' | 'mock';
+
+export type CopyProviderErrorCode = 'not-configured' | 'unavailable' | 'rate-limited' | 'invalid-response';
+
+export class CopyProviderError extends Error {
+    constructor(public readonly code: CopyProviderErrorCode, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'CopyProviderError';
+    }
+}
+
+export type CopyTone = 'neutral' | 'formal' | 'playful' | 'urgent';
+
+export const COPY_TONES: readonly CopyTone[] = ['neutral', 'formal', 'playful', 'urgent'];
+
+/** 'copy' asks for texts only; 'design' also for colors, a font and a position. */
+export type CopyMode = 'copy' | 'design';
+
+export interface CopyOptions {
+    mode: CopyMode;
+    tone: CopyTone;
+    /** A code from COPY_LANGUAGES in copyPrompt.mjs. */
+    language: string;
+    maxMessageLength: number;
+    count: number;
+}
+
+export const MAX_SUGGESTION_COUNT = 6;
+/** Message length limits offered in the suggestions dialog. */
+export const MESSAGE_LENGTH_LIMITS = [60, 90, 120, 180, 280];
+
+export const DEFAULT_COPY_OPTIONS: CopyOptions = { mode: 'copy', tone: 'neutral', language: 'ru', maxMessageLength: 120, count: 3 };
+
+/** What the copy is for. */
+export interface CopyRequest {
+    targetUrl: string;
+    /** Where the main button leads; absent when it submits a lead form. */
+    buttonDestination?: string;
+    /** Designs are kept readable in the CTA's theme. */
+    theme: CtaData['theme'];
+    /** Whether the format can be placed, so a design may propose a position. */
+    positioned: boolean;
+    options: CopyOptions;
+    /** What the page says; without it the model only sees the URL. */
+    page?: PageContent;
+}
+
+export const copyRequestFor = (data: CtaData, targetUrl: string, options: CopyOptions, page?: PageContent): CopyRequest => {
+    const mainButton = data.buttons[0];
+    return {
+        targetUrl,
+        buttonDestination: hasButtonLink(data.layout) && mainButton ? buttonHref(mainButton) ?? mainButton.target : undefined,
+        theme: data.theme,
+        positioned: isPositionedLayout(data.layout),
+        options,
+        ...(page ? { page } : {}),
+    };
+};
+
+/** Chosen in the creator's settings and kept in this browser. */
+export interface CopySettings {
+    provider: CopyProviderId;
+    /** Model name; the provider's default when empty. */
+    model: string;
+    /** OpenAI-compatible API root, e.g. `http://localhost:11434/v1`. */
+    baseUrl: string;
+    /** Sent as a bearer token to the OpenAI-compatible endpoint; local servers usually need none. */
+    apiKey: string;
+}
+
+export interface CopyProvider {
+    defaultModel: string;
+    /** The model's answer, parsed from JSON but not yet validated. */
+    generate(request: CopyRequest, settings: CopySettings): Promise<unknown>;
+}
+
+/** What the prompt is built from; the Gemini provider sends exactly this to the proxy, which builds it there. */
+const promptOptions = ({ targetUrl, buttonDestination, theme, positioned, options, page }: CopyRequest) => ({
+    targetUrl,
+    buttonDestination,
+    theme,
+    tone: options.tone,
+    language: options.language,
+    maxMessageLength: options.maxMessageLength,
+    count: options.count,
+    design: options.mode === 'design',
+    positioned,
+    ...(page ? { pageSummary: summarizePage(page) } : {}),
+});
+
+export const buildCopyPrompt = (request: CopyRequest) => suggestionPrompt(promptOptions(request));
+
+const jsonInstructions = ({ options, positioned }: CopyRequest) => {
+    const design = options.mode === 'design'
+        ? `, "design": {"bgColor": string, "buttonColor": string, "fontFamily": string${positioned ? ', "position": string' : ''}}`
+        : '';
+    return `Reply with JSON only, in the form {"suggestions": [{"message": string, "buttonText": string${design}}]}.`;
+};
+
+const parseJson = (text: string | undefined) => {
+    try {
+        return JSON.parse(text ?? '');
+    } catch (e) {
+        throw new CopyProviderError('invalid-response', 'Model reply is not JSON', e);
+    }
+};
+
+/**
+ * Protocol: see server/aiProxy.mjs. The proxy writes the prompt itself from
+ * these options, so it can't be used to send Gemini anything but CTA requests.
+ */
+const gemini: CopyProvider = {
+    defaultModel: 'gemini-2.5-flash',
+    async generate(request, settings) {
+        const endpoint = aiProxyEndpoint();
+        if (!endpoint) throw new CopyProviderError('not-configured', 'AI_PROXY_ENDPOINT is not set');
+        let response: Response;
+        try {
+            response = await fetch(`${endpoint}/suggestions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...promptOptions(request), model: settings.model || gemini.defaultModel }),
+            });
+        } catch (e) {
+            throw new CopyProviderError('unavailable', 'AI proxy is unreachable', e);
+        }
+        if (response.status === 429) throw new CopyProviderError('rate-limited', `AI proxy rate limit hit, retry after ${response.headers.get('Retry-After') ?? '?'}s`);
+        if (!response.ok) throw new CopyProviderError('unavailable', `AI proxy returned ${response.status}`);
+        return response.json().catch(e => { throw new CopyProviderError('invalid-response', 'AI proxy reply is not JSON', e); });
+    },
+};
+
+const openAiCompatible: CopyProvider = {
+    defaultModel: 'gpt-4o-mini',
+    async generate(request, settings) {
+        const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+        if (!baseUrl) throw new CopyProviderError('not-configured', 'OpenAI-compatible base URL is not set');
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model: settings.model || openAiCompatible.defaultModel,
+                    messages: [
+                        { role: 'system', content: jsonInstructions(request) },
+                        { role: 'user', content: buildCopyPrompt(request) },
+                    ],
+                    response_format: { type: 'json_object' },
+                }),
+            });
+        } catch (e) {
+            throw new CopyProviderError('unavailable', 'OpenAI-compatible endpoint is unreachable', e);
+        }
+        if (response.status === 401 || response.status === 403) throw new CopyProviderError('not-configured', `Endpoint rejected the API key (${response.status})`);
+        if (!response.ok) throw new CopyProviderError('unavailable', `Endpoint returned ${response.status}`);
+        const body = await response.json().catch(e => { throw new CopyProviderError('invalid-response', 'Endpoint reply is not JSON', e); });
+        return parseJson(body?.choices?.[0]?.message?.content);
+    },
+};
+
+const MOCK_COPY: AISuggestion[] = [
+    { message: 'Понравилась статья? На {site} есть ещё больше полезного.', buttonText: 'Перейти' },
+    { message: 'Получите персональное предложение от {site} уже сегодня.', buttonText: 'Получить' },
+    { message: 'Присоединяйтесь к тысячам читателей {site}.', buttonText: 'Присоединиться' },
+    { message: 'Не упустите главное: подпишитесь на новости {site}.', buttonText: 'Подписаться' },
+    { message: 'Есть вопрос? Команда {site} ответит за пару минут.', buttonText: 'Спросить' },
+    { message: 'Только на этой неделе: специальные условия от {site}.', buttonText: 'Узнать' },
+];
+
+const MOCK_PALETTES: Record<CtaData['theme'], { bgColor: string, buttonColor: string }[]> = {
+    light: [
+        { bgColor: '#ffffff', buttonColor: '#1877f2' },
+        { bgColor: '#fff4e5', buttonColor: '#f2184f' },
+        { bgColor: '#eefbf3', buttonColor: '#128c4a' },
+    ],
+    dark: [
+        { bgColor: '#1c1e21', buttonColor: '#1877f2' },
+        { bgColor: '#2b193d', buttonColor: '#f2184f' },
+        { bgColor: '#0f2a2e', buttonColor: '#17a589' },
+    ],
+};
+
+/**
+ * Same page, same suggestions: picks and fills templates from the page's host
+ * name, without any network. Texts are always Russian and the tone is ignored.
+ */
+const mock: CopyProvider = {
+    defaultModel: 'mock',
+    async generate({ targetUrl, theme, positioned, options, page }) {
+        let site = page?.openGraph.site_name ?? targetUrl;
+        if (!page?.openGraph.site_name) {
+            try {
+                site = new URL(targetUrl).hostname.replace(/^www\./, '');
+            } catch {
+                // Not a URL; use it as written.
+            }
+        }
+        const offset = [...site].reduce((sum, char) => sum + char.charCodeAt(0), 0) % MOCK_COPY.length;
+        return {
+            suggestions: Array.from({ length: options.count }, (_, i) => {
+                const { message, buttonText } = MOCK_COPY[(offset + i) % MOCK_COPY.length];
+                const palette = MOCK_PALETTES[theme][(offset + i) % MOCK_PALETTES[theme].length];
+                const design: AIDesign = {
+                    ...palette,
+                    fontFamily: CTA_FONTS[(offset + i) % CTA_FONTS.length].value,
+                    ...(positioned ? { position: DESIGN_POSITIONS[i % DESIGN_POSITIONS.length] } : {}),
+                };
+                return {
+                    message: message.replace('{site}', site).slice(0, options.maxMessageLength),
+                    buttonText,
+                    ...(options.mode === 'design' ? { design } : {}),
+                };
+            }),
+        };
+    },
+};
+
+export const COPY_PROVIDERS: Record<CopyProviderId, CopyProvider> = { gemini, openai: openAiCompatible, mock };
+
+export const COPY_PROVIDER_IDS = Object.keys(COPY_PROVIDERS) as CopyProviderId[];
+
+const validateDesign = (value: unknown, path: string, errors: FieldError[]): AIDesign | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const bgColor = r.color('bgColor');
+    const buttonColor = r.color('buttonColor');
+    const fontFamily = r.oneOf('fontFamily', CTA_FONTS.map(f => f.value));
+    const position = r.oneOf('position', DESIGN_POSITIONS);
+    for (const field of ['bgColor', 'buttonColor', 'fontFamily'] as const) {
+        if (value[field] === undefined) r.fail(field, 'validation.required');
+    }
+    errors.push(...r.errors);
+    if (r.errors.length) return undefined;
+    return position ? { bgColor, buttonColor, fontFamily, position } : { bgColor, buttonColor, fontFamily };
+};
+
+/**
+ * Checks a model's answer against `{ suggestions: [{ message, buttonText, design? }] }`,
+ * with `design` required in 'design' mode. Blank or overlong entries make the
+ * whole answer invalid rather than being shown cut off.
+ */
+export const validateSuggestions = (value: unknown, options = DEFAULT_COPY_OPTIONS): ValidationResult<AISuggestion[]> => {
+    if (!isRecord(value) || !Array.isArray(value.suggestions)) {
+        return { ok: false, errors: [{ path: 'suggestions', message: 'validation.array' }] };
+    }
+    if (!value.suggestions.length) {
+        return { ok: false, errors: [{ path: 'suggestions', message: 'validation.noSuggestions' }] };
+    }
+    const errors: FieldError[] = [];
+    const suggestions = value.suggestions.slice(0, options.count).map((item, i): AISuggestion | undefined => {
+        const path = `suggestions.${i}`;
+        if (!isRecord(item)) {
+            errors.push({ path, message: 'validation.object' });
+            return undefined;
+        }
+        const r = new FieldReader(item, path);
+        const message = r.string('message', { required: true, maxLength: options.maxMessageLength })?.trim();
+        const buttonText = r.string('buttonText', { required: true, maxLength: MAX_BUTTON_TEXT_LENGTH })?.trim();
+        if (message === '') r.fail('message', 'validation.empty');
+        if (buttonText === '') r.fail('buttonText', 'validation.empty');
+        errors.push(...r.errors);
+        if (options.mode !== 'design') return r.errors.length ? undefined : { message, buttonText };
+        const design = validateDesign(item.design, `${path}.design`, errors);
+        return r.errors.length || !design ? undefined : { message, buttonText, design };
+    });
+    return errors.length ? { ok: false, errors } : { ok: true, value: suggestions };
+};
+
+/** Suggestions from the provider chosen in `settings`; throws CopyProviderError. */
+export const generateCopy = async (request: CopyRequest, settings: CopySettings): Promise<AISuggestion[]> => {
+    const raw = await COPY_PROVIDERS[settings.provider].generate(request, settings);
+    const result = validateSuggestions(raw, request.options);
+    if (!result.ok) {
+        throw new CopyProviderError('invalid-response', `Model reply failed validation: ${result.errors.map(e => `${e.path}: ${e.message}`).join('; ')}`);
+    }
+    return result.value;
+};
+
+/** `data` with the suggestion's texts, and its design when it has one. */
+export const applySuggestion = (data: CtaData, { message, buttonText, design }: AISuggestion): CtaData => ({
+    ...data,
+    message,
+    buttons: data.buttons.map((button, i) => ({
+        ...button,
+        ...(i === 0 ? { text: buttonText } : {}),
+        ...(design ? { color: design.buttonColor } : {}),
+    })),
+    ...(design ? { bgColor: design.bgColor, fontFamily: design.fontFamily } : {}),
+    ...(design?.position && isPositionedLayout(data.layout) ? { position: design.position } : {}),
+});
+
+// --- SETTINGS ---
+
+const SETTINGS_STORAGE_KEY = 'sniply.copySettings';
+
+export const DEFAULT_COPY_SETTINGS: CopySettings = { provider: 'gemini', model: '', baseUrl: 'http://localhost:11434/v1', apiKey: '' };
+
+export const loadCopySettings = (): CopySettings => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        const stored = raw ? JSON.parse(raw) : {};
+        const settings = { ...DEFAULT_COPY_SETTINGS, ...(isRecord(stored) ? stored : {}) };
+        return COPY_PROVIDER_IDS.includes(settings.provider) ? settings : DEFAULT_COPY_SETTINGS;
+    } catch {
+        return DEFAULT_COPY_SETTINGS;
+    }
+};
+
+export const saveCopySettings = (settings: CopySettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Failed to save AI settings:", e);
+    }
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { revealPlan } from './ctaBehavior';
+
+describe('revealPlan', () => {
+    it('shows the CTA at once or after its delay', () => {
+        expect(revealPlan({}, true)).toEqual({ delayMs: 0, exitIntent: false });
+        expect(revealPlan({ showDelay: 5 }, true)).toEqual({ delayMs: 5000, exitIntent: false });
+    });
+
+    it('waits for exit intent, with the delay as a deadline', () => {
+        expect(revealPlan({ showOnExitIntent: true }, true)).toEqual({ delayMs: null, exitIntent: true });
+        expect(revealPlan({ showOnExitIntent: true, showDelay: 10 }, true)).toEqual({ delayMs: 10000, exitIntent: true });
+    });
+
+    it('ignores exit intent on touch screens', () => {
+        expect(revealPlan({ showOnExitIntent: true }, false)).toEqual({ delayMs: 0, exitIntent: false });
+        expect(revealPlan({ showOnExitIntent: true, showDelay: 3 }, false)).toEqual({ delayMs: 3000, exitIntent: false });
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * When and how the CTA appears in the viewer: an optional delay, an exit-intent
+ * trigger, the entrance animation, and remembering that a visitor closed it.
+ */
+import { CtaAnimation, CtaData } from '../types';
+
+export const CTA_ANIMATIONS: readonly CtaAnimation[] = ['slide', 'fade', 'bounce'];
+
+/** The only entrance there was before animations became selectable. */
+export const DEFAULT_CTA_ANIMATION: CtaAnimation = 'slide';
+
+export const MAX_SHOW_DELAY_SECONDS = 60;
+
+export interface RevealPlan {
+    /** Milliseconds until the CTA is shown; null means no timer, only exit intent can show it. */
+    delayMs: number | null;
+    exitIntent: boolean;
+}
+
+/**
+ * How the CTA gets on screen. With exit intent the delay becomes a deadline:
+ * whichever comes first shows the CTA. Touch screens have no pointer to leave
+ * the page, so there exit intent is ignored and only the delay applies.
+ */
+export const revealPlan = (data: Pick<CtaData, 'showDelay' | 'showOnExitIntent'>, canHover: boolean): RevealPlan => {
+    const delayMs = Math.max(0, data.showDelay ?? 0) * 1000;
+    const exitIntent = !!data.showOnExitIntent && canHover;
+    return { delayMs: exitIntent && delayMs === 0 ? null : delayMs, exitIntent };
+};
+
+export const canHover = () =>
+    typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia('(hover: hover)').matches;
+
+// --- DISMISSAL ---
+
+const DISMISSED_STORAGE_KEY = 'sniply.dismissedLinks';
+/** Oldest dismissals are forgotten first once the list grows past this. */
+const DISMISSED_LIMIT = 500;
+
+const readDismissed = (): string[] => {
+    try {
+        const raw = localStorage.getItem(DISMISSED_STORAGE_KEY);
+        const ids = raw ? JSON.parse(raw) : [];
+        return Array.isArray(ids) ? ids : [];
+    } catch {
+        return [];
+    }
+};
+
+export const isCtaDismissed = (linkId: string) => readDismissed().includes(linkId);
+
+export const rememberCtaDismissed = (linkId: string) => {
+    const ids = readDismissed().filter(id => id !== linkId);
+    try {
+        localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify([...ids, linkId].slice(-DISMISSED_LIMIT)));
+    } catch (e) {
+        console.warn("Failed to remember CTA dismissal:", e);
+    }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LinkPayload } from '../types';
+import { buttonHref, buttonTargetError, upgradeLegacyButtons } from './ctaButtons';
+import { mapPayloadCtas } from './storedCta';
+
+describe('buttonHref', () => {
+    it('builds a link for every action', () => {
+        expect(buttonHref({ action: 'url', target: 'https://shop.example/' })).toBe('https://shop.example/');
+        expect(buttonHref({ action: 'tel', target: '+7 (900) 123-45-67' })).toBe('tel:+79001234567');
+        expect(buttonHref({ action: 'mailto', target: ' hello@shop.example ' })).toBe('mailto:hello@shop.example');
+        expect(buttonHref({ action: 'whatsapp', target: '+7 900 123 45 67' })).toBe('https://wa.me/79001234567');
+        expect(buttonHref({ action: 'telegram', target: '@shop_bot' })).toBe('https://t.me/shop_bot');
+        expect(buttonHref({ action: 'telegram', target: 'https://t.me/shop_bot' })).toBe('https://t.me/shop_bot');
+    });
+
+    it('has no link for unusable targets', () => {
+        expect(buttonHref({ action: 'url', target: 'javascript:alert(1)' })).toBeUndefined();
+        expect(buttonHref({ action: 'tel', target: 'call me' })).toBeUndefined();
+        expect(buttonHref({ action: 'telegram', target: '@ab' })).toBeUndefined();
+    });
+
+    it('explains only filled-in targets', () => {
+        expect(buttonTargetError({ action: 'tel', target: '' })).toBeNull();
+        expect(buttonTargetError({ action: 'mailto', target: 'nope' })).toEqual(expect.any(String));
+        expect(buttonTargetError({ action: 'url', target: 'ftp://files.example' })).toEqual(expect.any(String));
+    });
+});
+
+describe('upgradeLegacyButtons', () => {
+    const legacy = { message: 'Привет', buttonText: 'Купить', buttonUrl: 'https://shop.example', btnColor: '#ff0000' };
+
+    it('turns the single button into a list', () => {
+        expect(upgradeLegacyButtons(legacy)).toEqual({
+            message: 'Привет',
+            buttons: [{ id: 'main', text: 'Купить', action: 'url', target: 'https://shop.example', style: 'primary', color: '#ff0000' }],
+        });
+    });
+
+    it('leaves upgraded data alone', () => {
+        const upgraded = upgradeLegacyButtons(legacy);
+        expect(upgradeLegacyButtons(upgraded)).toBe(upgraded);
+    });
+
+    it('upgrades every CTA in a payload', () => {
+        const payload = mapPayloadCtas({
+            type: 'ab',
+            targetUrl: 'https://example.com',
+            variants: [{ key: 'A', data: legacy }],
+            schedule: { fallback: { type: 'alternate', data: legacy } },
+        }, upgradeLegacyButtons) as Extract<LinkPayload, { type: 'ab' }>;
+        expect(payload.variants[0].data.buttons).toHaveLength(1);
+        expect(payload.schedule).toMatchObject({ fallback: { data: { buttons: [{ id: 'main' }] } } });
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * CTA buttons: what each action type turns into when clicked, checking what
+ * the author typed, and upgrading CTAs saved before a CTA could have several
+ * buttons (a single `buttonText` / `buttonUrl` / `btnColor`).
+ */
+import { CtaButton, CtaButtonAction, CtaButtonStyle, CtaData } from '../types';
+import { MessageKey } from './i18n';
+import { isValidEmail } from './leads';
+import { toSafeUrl, urlFieldError } from './urlPolicy';
+import { isRecord } from './payloadSchema';
+
+export const BUTTON_ACTIONS: readonly CtaButtonAction[] = ['url', 'tel', 'mailto', 'whatsapp', 'telegram'];
+export const BUTTON_STYLES: readonly CtaButtonStyle[] = ['primary', 'secondary', 'link'];
+
+export const BUTTON_TARGET_PLACEHOLDERS: Record<CtaButtonAction, string> = {
+    url: 'https://your-brand.com',
+    tel: '+7 900 123-45-67',
+    mailto: 'hello@your-brand.com',
+    whatsapp: '+7 900 123-45-67',
+    telegram: '@your_brand',
+};
+
+export const MAX_CTA_BUTTONS = 4;
+export const DEFAULT_BUTTON_COLOR = '#1877f2';
+
+const PHONE = /^\+?\d{5,15}$/;
+const TELEGRAM_USERNAME = /^[A-Za-z][A-Za-z0-9_]{4,31}$/;
+
+/** Digits with an optional leading +, or null if `value` isn't a plausible phone number. */
+export const normalizePhone = (value: string): string | null => {
+    const phone = value.trim().replace(/[\s().-]/g, '');
+    return PHONE.test(phone) ? phone : null;
+};
+
+const telegramUsername = (value: string): string | null => {
+    const name = value.trim().replace(/^@/, '').replace(/^(?:https?:\/\/)?t\.me\//i, '');
+    return TELEGRAM_USERNAME.test(name) ? name : null;
+};
+
+/** Where the button leads, or undefined if its target is empty or invalid for its action. */
+export const buttonHref = ({ action, target }: Pick<CtaButton, 'action' | 'target'>): string | undefined => {
+    switch (action) {
+        case 'url':
+            return toSafeUrl(target);
+        case 'tel': {
+            const phone = normalizePhone(target);
+            return phone ? `tel:${phone}` : undefined;
+        }
+        case 'mailto':
+            return isValidEmail(target.trim()) ? `mailto:${target.trim()}` : undefined;
+        case 'whatsapp': {
+            const phone = normalizePhone(target);
+            return phone ? `https://wa.me/${phone.replace(/^\+/, '')}` : undefined;
+        }
+        case 'telegram': {
+            const name = telegramUsername(target);
+            return name ? `https://t.me/${name}` : undefined;
+        }
+    }
+};
+
+/** Message key of the editor error for a filled-in but unusable target, or null when it is empty or fine. */
+export const buttonTargetError = (button: Pick<CtaButton, 'action' | 'target'>): MessageKey | null => {
+    if (button.action === 'url') return urlFieldError(button.target);
+    if (!button.target.trim() || buttonHref(button)) return null;
+    switch (button.action) {
+        case 'tel':
+        case 'whatsapp':
+            return 'button.error.phone';
+        case 'mailto':
+            return 'button.error.email';
+        case 'telegram':
+            return 'button.error.telegram';
+    }
+};
+
+export const newButtonId = () => Math.random().toString(36).slice(2, 8);
+
+export const newButton = (fields: Partial<CtaButton> = {}): CtaButton => ({
+    id: newButtonId(),
+    text: '',
+    action: 'url',
+    target: '',
+    style: 'primary',
+    color: DEFAULT_BUTTON_COLOR,
+    ...fields,
+});
+
+export const updateButton = (data: CtaData, id: string, changes: Partial<CtaButton>): CtaData => ({
+    ...data,
+    buttons: data.buttons.map(b => b.id === id ? { ...b, ...changes } : b),
+});
+
+/** Stable id given to the single button of a CTA saved before buttons were a list. */
+export const LEGACY_BUTTON_ID = 'main';
+
+/**
+ * Turns a CTA saved with one `buttonText` / `buttonUrl` / `btnColor` into one
+ * with `buttons`. Anything that already has `buttons`, or isn't an object, is
+ * returned as is, so stored data can be passed through unconditionally.
+ */
+export const upgradeLegacyButtons = (data: unknown): unknown => {
+    if (!isRecord(data) || Array.isArray(data.buttons)) return data;
+    const { buttonText, buttonUrl, btnColor, ...rest } = data;
+    return {
+        ...rest,
+        buttons: [{
+            id: LEGACY_BUTTON_ID,
+            text: typeof buttonText === 'string' ? buttonText : '',
+            action: 'url',
+            target: typeof buttonUrl === 'string' ? buttonUrl : '',
+            style: 'primary',
+            color: typeof btnColor === 'string' ? btnColor : DEFAULT_BUTTON_COLOR,
+        }],
+    };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { CtaButton, CtaLayout } from '../types';
+import { isPositionedLayout, missingCtaField } from './ctaLayouts';
+
+const button = (fields: Partial<CtaButton>): CtaButton =>
+    ({ id: 'b', text: 'Кнопка', action: 'url', target: '', style: 'primary', color: '#1877f2', ...fields });
+
+describe('missingCtaField', () => {
+    it('requires a target on every button of link formats', () => {
+        expect(missingCtaField({ buttons: [] })).toBe('button.default');
+        expect(missingCtaField({ buttons: [button({ target: 'https://shop.example' }), button({ action: 'tel' })] })).toBe('button.target.tel');
+        expect(missingCtaField({ layout: 'card', buttons: [button({ target: 'https://shop.example' })] })).toBeNull();
+    });
+
+    it('requires an endpoint, not a button target, for the lead form', () => {
+        expect(missingCtaField({ layout: 'lead-form', buttons: [button({})] })).toBe('layoutField.leadEndpoint');
+        expect(missingCtaField({ layout: 'lead-form', buttons: [button({})], leadEndpoint: 'https://crm.example/leads' })).toBeNull();
+    });
+});
+
+describe('isPositionedLayout', () => {
+    it('leaves placement to the top bar and the modal', () => {
+        const layouts: (CtaLayout | undefined)[] = [undefined, 'classic', 'top-bar', 'modal', 'card', 'lead-form'];
+        expect(layouts.map(isPositionedLayout))
+            .toEqual([true, true, false, false, true, true]);
+    });
+});
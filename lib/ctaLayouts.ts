@@ -0,0 +1,27 @@
+/**
+ * The CTA formats and what each needs. Renderers and editor fields live in
+ * components/ctaLayouts.tsx; this module only holds what validation and the
+ * creator's checks share.
+ */
+import { CtaData, CtaLayout } from '../types';
+import { MessageKey } from './i18n';
+
+export const CTA_LAYOUTS: readonly CtaLayout[] = ['classic', 'top-bar', 'modal', 'card', 'lead-form'];
+
+/** What every CTA looked like before formats existed. */
+export const DEFAULT_CTA_LAYOUT: CtaLayout = 'classic';
+
+/** Top bar and modal place themselves; `position` and dragging apply to the rest. */
+export const isPositionedLayout = (layout: CtaLayout | undefined) =>
+    layout !== 'top-bar' && layout !== 'modal';
+
+/** Whether the format's buttons lead somewhere; the lead form's first button submits it instead. */
+export const hasButtonLink = (layout: CtaLayout | undefined) => layout !== 'lead-form';
+
+/** Label key of the first field a link can't be generated without, or null when the CTA is complete. */
+export const missingCtaField = (data: Pick<CtaData, 'layout' | 'buttons' | 'leadEndpoint'>): MessageKey | null => {
+    if (!hasButtonLink(data.layout)) return data.leadEndpoint ? null : 'layoutField.leadEndpoint';
+    if (!data.buttons.length) return 'button.default';
+    const incomplete = data.buttons.find(b => !b.target.trim());
+    return incomplete ? `button.target.${incomplete.action}` : null;
+};
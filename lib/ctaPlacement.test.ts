@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { placementFromPoint, resolvePlacement, snapPoint, upgradeLegacyPlacement } from './ctaPlacement';
+
+const desktop = { width: 1200, height: 800 };
+const phone = { width: 375, height: 667 };
+const cta = { width: 300, height: 60 };
+
+describe('placement', () => {
+    it('anchors to the nearest corner and keeps the spot on other page sizes', () => {
+        const placement = placementFromPoint({ x: 880, y: 700 }, desktop, cta);
+        expect(placement).toEqual({ anchor: 'bottom-right', x: 1.67, y: 5 });
+        const onPhone = resolvePlacement(placement, phone, cta);
+        expect(onPhone.x).toBeCloseTo(375 - 0.0167 * 375 - 300, 1);
+        expect(onPhone.y).toBeCloseTo(667 - 0.05 * 667 - 60, 1);
+    });
+
+    it('measures centered axes from the middle of the page', () => {
+        const placement = placementFromPoint({ x: 450, y: 20 }, desktop, cta);
+        expect(placement).toEqual({ anchor: 'top', x: 0, y: 2.5 });
+        expect(resolvePlacement(placement, phone, cta)).toEqual({ x: 37.5, y: 16.675 });
+    });
+
+    it('keeps the CTA on the page using its real size', () => {
+        const placement = { anchor: 'top-left' as const, x: 90, y: 95 };
+        expect(resolvePlacement(placement, phone, cta)).toEqual({ x: 75, y: 607 });
+        expect(resolvePlacement(placement, phone, { width: 500, height: 60 }).x).toBe(0);
+    });
+
+    it('round-trips a point on the same page', () => {
+        for (const point of [{ x: 10, y: 10 }, { x: 500, y: 400 }, { x: 890, y: 730 }]) {
+            const resolved = resolvePlacement(placementFromPoint(point, desktop, cta), desktop, cta);
+            expect(resolved.x).toBeCloseTo(point.x, 0);
+            expect(resolved.y).toBeCloseTo(point.y, 0);
+        }
+    });
+});
+
+describe('snapPoint', () => {
+    it('snaps edges to the margins and the center to the middle', () => {
+        expect(snapPoint({ x: 25, y: 374 }, desktop, cta)).toEqual({
+            point: { x: 20, y: 370 },
+            guides: [{ axis: 'x', position: 20 }, { axis: 'y', position: 400 }],
+        });
+    });
+
+    it('leaves points away from guides alone', () => {
+        expect(snapPoint({ x: 200, y: 200 }, desktop, cta)).toEqual({ point: { x: 200, y: 200 }, guides: [] });
+    });
+});
+
+describe('upgradeLegacyPlacement', () => {
+    it('converts pixel positions and leaves placements alone', () => {
+        expect(upgradeLegacyPlacement({ customPosition: { x: 640, y: 72 } })).toEqual({ customPosition: { anchor: 'top-left', x: 50, y: 10 } });
+        const current = { customPosition: { anchor: 'center', x: 0, y: 0 } };
+        expect(upgradeLegacyPlacement(current)).toBe(current);
+        expect(upgradeLegacyPlacement({ message: 'Привет' })).toEqual({ message: 'Привет' });
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Custom CTA placement. A dragged CTA is saved as an anchor plus percentage
+ * offsets rather than pixels, so a spot picked on a wide preview is the same
+ * spot on a phone. Sizes here are in pixels: the page the CTA is placed on and
+ * the CTA as drawn, scale included.
+ */
+import { CtaAnchor, CtaPlacement } from '../types';
+import { isRecord } from './payloadSchema';
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/** Top-left corner of the CTA, from the top-left corner of the page. */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** A line the dragged CTA snapped to: vertical at `position` px for 'x', horizontal for 'y'. */
+export interface SnapGuide {
+    axis: 'x' | 'y';
+    position: number;
+}
+
+export const CTA_ANCHORS: readonly CtaAnchor[] = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const SNAP_THRESHOLD_PX = 8;
+/** Gap from the page edge that edges snap to; the preset positions use the same. */
+export const EDGE_MARGIN_PX = 20;
+
+type AxisAnchor = 'start' | 'center' | 'end';
+
+const axesOf = (anchor: CtaAnchor): { h: AxisAnchor, v: AxisAnchor } => ({
+    h: anchor.endsWith('left') ? 'start' : anchor.endsWith('right') ? 'end' : 'center',
+    v: anchor.startsWith('top') ? 'start' : anchor.startsWith('bottom') ? 'end' : 'center',
+});
+
+const anchorOf = (h: AxisAnchor, v: AxisAnchor): CtaAnchor => {
+    const vertical = { start: 'top', center: '', end: 'bottom' }[v];
+    const horizontal = { start: 'left', center: '', end: 'right' }[h];
+    return ([vertical, horizontal].filter(Boolean).join('-') || 'center') as CtaAnchor;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const axisStart = (anchor: AxisAnchor, percent: number, page: number, size: number) => {
+    const offset = (percent / 100) * page;
+    return anchor === 'start' ? offset
+        : anchor === 'end' ? page - offset - size
+        : page / 2 + offset - size / 2;
+};
+
+const axisPercent = (anchor: AxisAnchor, start: number, page: number, size: number) => {
+    if (page <= 0) return 0;
+    const offset = anchor === 'start' ? start
+        : anchor === 'end' ? page - start - size
+        : start + size / 2 - page / 2;
+    return round((offset / page) * 100);
+};
+
+/** The third of the page the CTA's center is in. */
+const nearestAxisAnchor = (start: number, page: number, size: number): AxisAnchor => {
+    const center = page > 0 ? (start + size / 2) / page : 0;
+    return center < 1 / 3 ? 'start' : center > 2 / 3 ? 'end' : 'center';
+};
+
+/** Keeps the CTA fully on the page; one larger than the page is pinned to its top-left. */
+export const clampPoint = (point: Point, page: Size, cta: Size): Point => ({
+    x: clamp(point.x, 0, page.width - cta.width),
+    y: clamp(point.y, 0, page.height - cta.height),
+});
+
+/** Where a CTA with `placement` is drawn on this page. */
+export const resolvePlacement = (placement: CtaPlacement, page: Size, cta: Size): Point => {
+    const { h, v } = axesOf(placement.anchor);
+    return clampPoint({
+        x: axisStart(h, placement.x, page.width, cta.width),
+        y: axisStart(v, placement.y, page.height, cta.height),
+    }, page, cta);
+};
+
+/** Placement that draws the CTA at `point`, anchored to the nearest corner, edge or center. */
+export const placementFromPoint = (point: Point, page: Size, cta: Size): CtaPlacement => {
+    const h = nearestAxisAnchor(point.x, page.width, cta.width);
+    const v = nearestAxisAnchor(point.y, page.height, cta.height);
+    return {
+        anchor: anchorOf(h, v),
+        x: axisPercent(h, point.x, page.width, cta.width),
+        y: axisPercent(v, point.y, page.height, cta.height),
+    };
+};
+
+const snapAxis = (start: number, page: number, size: number, threshold: number): { start: number, guide?: number } => {
+    const targets = [
+        { start: EDGE_MARGIN_PX, guide: EDGE_MARGIN_PX },
+        { start: page / 2 - size / 2, guide: page / 2 },
+        { start: page - EDGE_MARGIN_PX - size, guide: page - EDGE_MARGIN_PX },
+    ];
+    let best: { start: number, guide?: number } = { start };
+    let bestDistance = threshold;
+    for (const target of targets) {
+        const distance = Math.abs(target.start - start);
+        if (distance <= bestDistance) {
+            best = target;
+            bestDistance = distance;
+        }
+    }
+    return best;
+};
+
+/** Snaps the CTA's edges to the page margins and its center to the page center when they are within `threshold`. */
+export const snapPoint = (point: Point, page: Size, cta: Size, threshold = SNAP_THRESHOLD_PX): { point: Point, guides: SnapGuide[] } => {
+    const x = snapAxis(point.x, page.width, cta.width, threshold);
+    const y = snapAxis(point.y, page.height, cta.height, threshold);
+    const guides: SnapGuide[] = [];
+    if (x.guide !== undefined) guides.push({ axis: 'x', position: x.guide });
+    if (y.guide !== undefined) guides.push({ axis: 'y', position: y.guide });
+    return { point: { x: x.start, y: y.start }, guides };
+};
+
+/** The creator's preview on a laptop screen, which pixel positions were picked on. */
+const LEGACY_PAGE: Size = { width: 1280, height: 720 };
+
+/**
+ * Turns a `customPosition` saved in pixels from the top-left corner into a
+ * placement. Anything else is returned as is, so stored data can be passed
+ * through unconditionally.
+ */
+export const upgradeLegacyPlacement = (data: unknown): unknown => {
+    if (!isRecord(data)) return data;
+    const position = data.customPosition;
+    if (!isRecord(position) || 'anchor' in position) return data;
+    if (typeof position.x !== 'number' || typeof position.y !== 'number') return data;
+    return {
+        ...data,
+        customPosition: {
+            anchor: 'top-left',
+            x: round(clamp((position.x / LEGACY_PAGE.width) * 100, 0, 100)),
+            y: round(clamp((position.y / LEGACY_PAGE.height) * 100, 0, 100)),
+        },
+    };
+};
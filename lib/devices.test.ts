@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CtaData } from '../types';
+import { DEVICE_PRESETS, applyDeviceOverrides, clearDeviceOverride, presetScreenSize, setDeviceOverride } from './devices';
+
+const data = { message: 'Привет', buttons: [], scale: 1, fontSize: 14, cornerRadius: 8 } as CtaData;
+
+describe('device overrides', () => {
+    it('applies only the override for the device shown', () => {
+        const withOverride = setDeviceOverride(data, 'mobile', 'scale', 0.7);
+        expect(applyDeviceOverrides(withOverride, 'mobile')).toMatchObject({ scale: 0.7, fontSize: 14 });
+        expect(applyDeviceOverrides(withOverride, 'tablet')).toBe(withOverride);
+        expect(applyDeviceOverrides(withOverride, 'desktop')).toBe(withOverride);
+    });
+
+    it('merges fields and drops empty overrides on reset', () => {
+        const both = setDeviceOverride(setDeviceOverride(data, 'mobile', 'scale', 0.7), 'mobile', 'fontSize', 12);
+        expect(both.deviceOverrides).toEqual({ mobile: { scale: 0.7, fontSize: 12 } });
+        const tablet = setDeviceOverride(both, 'tablet', 'cornerRadius', 0);
+        expect(clearDeviceOverride(tablet, 'mobile').deviceOverrides).toEqual({ tablet: { cornerRadius: 0 } });
+        expect(clearDeviceOverride(both, 'mobile')).not.toHaveProperty('deviceOverrides');
+    });
+});
+
+describe('presetScreenSize', () => {
+    it('swaps sides in landscape and has no size for the desktop', () => {
+        const iphone = DEVICE_PRESETS.find(p => p.id === 'iphone-se');
+        expect(presetScreenSize(iphone, false)).toEqual({ width: 375, height: 667 });
+        expect(presetScreenSize(iphone, true)).toEqual({ width: 667, height: 375 });
+        expect(presetScreenSize(DEVICE_PRESETS[0], true)).toBeUndefined();
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Per-device style overrides and the creator's device preview frames. Devices
+ * are told apart by page width exactly as targeting does (`deviceFromWidth`),
+ * so a rotated phone previews the way visitors will see it.
+ */
+import { CtaData, CtaStyleOverride, DeviceType, OverrideDevice } from '../types';
+import { DEVICE_TYPES } from './targeting';
+
+export const isOverrideDevice = (device: DeviceType): device is OverrideDevice => device !== 'desktop';
+
+export const OVERRIDE_DEVICES: readonly OverrideDevice[] = DEVICE_TYPES.filter(isOverrideDevice);
+
+/** Phones may shrink the CTA further than the base style allows. */
+export const MIN_DEVICE_SCALE = 0.6;
+
+/** The style `data` is shown with on `device`. */
+export const applyDeviceOverrides = <T extends Partial<CtaData>>(data: T, device: DeviceType): T => {
+    const override = isOverrideDevice(device) ? data.deviceOverrides?.[device] : undefined;
+    return override ? { ...data, ...override } : data;
+};
+
+export const setDeviceOverride = (data: CtaData, device: OverrideDevice, field: keyof CtaStyleOverride, value: number): CtaData => ({
+    ...data,
+    deviceOverrides: { ...data.deviceOverrides, [device]: { ...data.deviceOverrides?.[device], [field]: value } },
+});
+
+/** Drops `device`'s override, and `deviceOverrides` itself once no device has one. */
+export const clearDeviceOverride = (data: CtaData, device: OverrideDevice): CtaData => {
+    const { [device]: _removed, ...rest } = data.deviceOverrides ?? {};
+    const { deviceOverrides, ...base } = data;
+    return Object.keys(rest).length ? { ...base, deviceOverrides: rest } : base;
+};
+
+export interface DevicePreset {
+    id: string;
+    /** Model name; the desktop preset has none and is labelled in the UI language. */
+    label?: string;
+    /** Portrait size in CSS pixels; the desktop preset has none and fills the preview panel. */
+    size?: { width: number, height: number };
+}
+
+export const DEVICE_PRESETS: readonly DevicePreset[] = [
+    { id: 'desktop' },
+    { id: 'ipad', label: 'iPad', size: { width: 768, height: 1024 } },
+    { id: 'iphone-se', label: 'iPhone SE', size: { width: 375, height: 667 } },
+    { id: 'iphone-15', label: 'iPhone 15', size: { width: 393, height: 852 } },
+    { id: 'pixel-8', label: 'Pixel 8', size: { width: 412, height: 915 } },
+    { id: 'galaxy-a', label: 'Galaxy A', size: { width: 360, height: 800 } },
+];
+
+/** Size of the preset's screen in the given orientation, or undefined for the desktop preset. */
+export const presetScreenSize = (preset: DevicePreset, landscape: boolean) =>
+    preset.size && (landscape ? { width: preset.size.height, height: preset.size.width } : preset.size);
@@ -0,0 +1,22 @@
+/**
+ * Number and date formatting shared by the analytics and A/B result views,
+ * in the UI language.
+ */
+import { DEFAULT_LOCALE, Locale } from './i18n';
+
+/** `digits` fixes the number of decimals; by default the locale's own rounding applies. */
+export const formatNumber = (n: number, locale: Locale = DEFAULT_LOCALE, digits?: number) =>
+    n.toLocaleString(locale, digits === undefined ? undefined : { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export const formatPercent = (fraction: number, digits = 2, locale: Locale = DEFAULT_LOCALE) =>
+    fraction.toLocaleString(locale, { style: 'percent', minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export const formatSignedPercent = (fraction: number, digits = 1, locale: Locale = DEFAULT_LOCALE) =>
+    fraction.toLocaleString(locale, { style: 'percent', signDisplay: 'always', minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export const formatDate = (timestamp: number, locale: Locale = DEFAULT_LOCALE) => new Date(timestamp).toLocaleDateString(locale);
+
+/** Short weekday name; 0 is Sunday, as in Date.getDay(). */
+export const weekdayName = (day: number, locale: Locale = DEFAULT_LOCALE) =>
+    // 7 January 2024 was a Sunday.
+    new Date(2024, 0, 7 + day).toLocaleDateString(locale, { weekday: 'short' });
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { classifyFrameLoad } from './framing';
+
+describe('classifyFrameLoad', () => {
+    it('treats an unreadable cross-origin document as loaded', () => {
+        expect(classifyFrameLoad('https://example.com', { readable: false })).toBe('loaded');
+    });
+
+    it('treats a readable blank document as blocked', () => {
+        expect(classifyFrameLoad('https://example.com', { readable: true, href: 'about:blank', bodyChildCount: 0 })).toBe('blocked');
+    });
+
+    it('accepts a readable page from the target origin', () => {
+        expect(classifyFrameLoad('https://example.com/a', { readable: true, href: 'https://example.com/a', bodyChildCount: 0 })).toBe('loaded');
+    });
+
+    it('accepts a readable document that has content', () => {
+        expect(classifyFrameLoad('https://example.com', { readable: true, href: 'about:blank', bodyChildCount: 3 })).toBe('loaded');
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Detecting target pages that refuse to be framed (X-Frame-Options, CSP
+ * frame-ancestors) and what to show instead.
+ *
+ * Browsers don't fire `error` on an iframe for a refused frame, so detection is
+ * heuristic: a `load` whose document we can read and that turns out to be a
+ * blank page (Firefox and Safari swap a refused frame for an empty same-origin
+ * document). Chrome shows a cross-origin error page that is indistinguishable
+ * from a real page from the outside, so the creator preview also lets the
+ * author mark the page as blocked by hand. A page that hasn't loaded after
+ * FRAME_LOAD_TIMEOUT_MS is only 'slow': it may still render, so it stays up.
+ */
+import { FramingFallback } from '../types';
+
+export const FRAMING_FALLBACKS: readonly FramingFallback[] = ['interstitial', 'preview-card', 'new-tab-bar'];
+
+/** Used when a link doesn't specify a mode, e.g. links created before modes existed. */
+export const DEFAULT_FRAMING_FALLBACK: FramingFallback = 'new-tab-bar';
+
+export const FRAME_LOAD_TIMEOUT_MS = 8000;
+
+/** Seconds the redirect interstitial shows the CTA before leaving. */
+export const INTERSTITIAL_SECONDS = 5;
+
+/** 'slow': still loading after FRAME_LOAD_TIMEOUT_MS, which says nothing about framing either way. */
+export type FrameStatus = 'loading' | 'slow' | 'loaded' | 'blocked';
+
+export interface FrameProbe {
+    /** Whether the iframe's document could be read, i.e. it is same-origin with the app. */
+    readable: boolean;
+    href?: string;
+    /** Number of child nodes in the body; only meaningful when readable. */
+    bodyChildCount?: number;
+}
+
+/**
+ * Reads what it can of a just-loaded iframe. Cross-origin access throws,
+ * which is the expected outcome for a page that did render.
+ */
+export const probeFrame = (iframe: HTMLIFrameElement): FrameProbe => {
+    try {
+        const doc = iframe.contentDocument;
+        if (!doc) return { readable: false };
+        return { readable: true, href: doc.location?.href, bodyChildCount: doc.body?.childNodes.length ?? 0 };
+    } catch {
+        return { readable: false };
+    }
+};
+
+/** Classifies a `load` event for a frame whose intended source was `src`. */
+export const classifyFrameLoad = (src: string, probe: FrameProbe): 'loaded' | 'blocked' => {
+    if (!probe.readable) return 'loaded';
+    // Same-origin targets (e.g. the app previewing itself) are read normally.
+    let sameOriginTarget = false;
+    try {
+        sameOriginTarget = !!probe.href && probe.href !== 'about:blank' && new URL(probe.href).origin === new URL(src).origin;
+    } catch {
+        sameOriginTarget = false;
+    }
+    if (sameOriginTarget) return 'loaded';
+    return probe.bodyChildCount ? 'loaded' : 'blocked';
+};
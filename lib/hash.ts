@@ -0,0 +1,19 @@
+/**
+ * cyrb53: a fast, well-distributed 53-bit string hash. Not cryptographic;
+ * used for stable IDs and bucketing.
+ */
+export const cyrb53 = (input: string, seed = 0): number => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/** Maps a string to a uniformly distributed number in [0, 1). */
+export const hashToUnit = (input: string): number => cyrb53(input) / 2 ** 53;
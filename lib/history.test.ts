@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { HISTORY_LIMIT, emptyHistory, recordChange, redo, undo } from './history';
+
+describe('history', () => {
+    it('undoes and redoes single steps', () => {
+        let h = recordChange(emptyHistory<number>(), 1, 0);
+        h = recordChange(h, 2, 10);
+        // current value is 3
+        const first = undo(h, 3)!;
+        expect(first.value).toBe(2);
+        const second = undo(first.history, first.value)!;
+        expect(second.value).toBe(1);
+        expect(undo(second.history, second.value)).toBeNull();
+
+        const again = redo(second.history, second.value)!;
+        expect(again.value).toBe(2);
+    });
+
+    it('coalesces updates with the same key inside the window', () => {
+        let h = recordChange(emptyHistory<number>(), 0, 0, { key: 'slider:fontSize' });
+        h = recordChange(h, 1, 200, { key: 'slider:fontSize' });
+        h = recordChange(h, 2, 400, { key: 'slider:fontSize' });
+        expect(h.past).toEqual([0]);
+    });
+
+    it('starts a new step after the window or for another key', () => {
+        let h = recordChange(emptyHistory<number>(), 0, 0, { key: 'a' });
+        h = recordChange(h, 1, 5000, { key: 'a' });
+        h = recordChange(h, 2, 5100, { key: 'b' });
+        expect(h.past).toEqual([0, 1, 2]);
+    });
+
+    it('honours a custom window for long gestures', () => {
+        let h = recordChange(emptyHistory<number>(), 0, 0, { key: 'drag:1', windowMs: Infinity });
+        h = recordChange(h, 1, 60_000, { key: 'drag:1', windowMs: Infinity });
+        expect(h.past).toEqual([0]);
+    });
+
+    it('never coalesces across an undo', () => {
+        let h = recordChange(emptyHistory<number>(), 0, 0, { key: 'a' });
+        h = undo(h, 1)!.history;
+        h = recordChange(h, 0, 10, { key: 'a' });
+        expect(h.past).toEqual([0]);
+    });
+
+    it('clears the redo stack on a new change', () => {
+        let h = recordChange(emptyHistory<number>(), 0, 0);
+        h = undo(h, 1)!.history;
+        expect(h.future).toEqual([1]);
+        h = recordChange(h, 0, 10);
+        expect(h.future).toEqual([]);
+    });
+
+    it('caps the number of steps', () => {
+        let h = emptyHistory<number>();
+        for (let i = 0; i < HISTORY_LIMIT + 10; i++) h = recordChange(h, i, i * 10_000);
+        expect(h.past).toHaveLength(HISTORY_LIMIT);
+        expect(h.past[0]).toBe(10);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Generic undo/redo history with coalescing.
+ *
+ * Continuous edits (dragging a slider, moving the CTA, typing) arrive as many
+ * small updates. Updates that share a coalesce key and arrive within the key's
+ * window are merged into the step that was already recorded, so one gesture is
+ * one undo step.
+ */
+
+export interface History<T> {
+    past: T[];
+    future: T[];
+    lastKey: string | null;
+    lastAt: number;
+}
+
+export interface Coalesce {
+    key: string;
+    /** Max gap between updates that still merge (ms). Defaults to COALESCE_WINDOW_MS. */
+    windowMs?: number;
+}
+
+export const COALESCE_WINDOW_MS = 1000;
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [], lastKey: null, lastAt: 0 });
+
+/**
+ * Records that the value is about to change from `previous`. Returns the
+ * history unchanged (apart from the timestamp) when the update coalesces
+ * with the previous one.
+ */
+export const recordChange = <T>(history: History<T>, previous: T, at: number, coalesce?: Coalesce): History<T> => {
+    const windowMs = coalesce?.windowMs ?? COALESCE_WINDOW_MS;
+    if (coalesce && history.lastKey === coalesce.key && at - history.lastAt <= windowMs) {
+        return { ...history, lastAt: at };
+    }
+    return {
+        past: [...history.past, previous].slice(-HISTORY_LIMIT),
+        future: [],
+        lastKey: coalesce?.key ?? null,
+        lastAt: at,
+    };
+};
+
+export const undo = <T>(history: History<T>, current: T): { history: History<T>; value: T } | null => {
+    if (!history.past.length) return null;
+    const value = history.past[history.past.length - 1];
+    return {
+        value,
+        history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastKey: null, lastAt: 0 },
+    };
+};
+
+export const redo = <T>(history: History<T>, current: T): { history: History<T>; value: T } | null => {
+    if (!history.future.length) return null;
+    const [value, ...future] = history.future;
+    return {
+        value,
+        history: { past: [...history.past, current].slice(-HISTORY_LIMIT), future, lastKey: null, lastAt: 0 },
+    };
+};
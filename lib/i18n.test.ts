@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { detectLocale, translate } from './i18n';
+
+describe('detectLocale', () => {
+    it('picks the first supported language by its primary subtag', () => {
+        expect(detectLocale(['de-DE', 'uk-UA', 'ru'])).toBe('uk');
+        expect(detectLocale(['EN-gb'])).toBe('en');
+    });
+
+    it('falls back to English when nothing matches', () => {
+        expect(detectLocale(['de', 'fr'])).toBe('en');
+        expect(detectLocale([])).toBe('en');
+    });
+});
+
+describe('translate', () => {
+    it('interpolates parameters', () => {
+        expect(translate('en', 'common.confirmDelete', { name: 'Spring sale' })).toBe('Delete “Spring sale”?');
+        expect(translate('ru', 'defaults.variantName', { key: 'C' })).toBe('Вариант C');
+    });
+
+    it('leaves placeholders without a parameter as they are', () => {
+        expect(translate('en', 'defaults.variantName')).toBe('Variant {key}');
+    });
+
+    it('picks the plural form for the count', () => {
+        expect(translate('ru', 'analytics.clicks', { count: 1 })).toBe('1 клик');
+        expect(translate('ru', 'analytics.clicks', { count: 3 })).toBe('3 клика');
+        expect(translate('ru', 'analytics.clicks', { count: 11 })).toBe('11 кликов');
+        expect(translate('uk', 'analytics.clicks', { count: 22 })).toBe('22 кліки');
+        expect(translate('en', 'analytics.clicks', { count: 1 })).toBe('1 click');
+        expect(translate('en', 'analytics.clicks', { count: 2 })).toBe('2 clicks');
+    });
+
+    it('formats numbers for the locale', () => {
+        expect(translate('en', 'analytics.impressions', { count: 1500 })).toBe('1,500 impressions');
+        expect(translate('ru', 'analytics.impressions', { count: 1500 })).toBe('1\u00a0500 показов');
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * UI languages: message catalogs, picking a locale, and turning a message key
+ * into text. Catalogs live in lib/locales; ru is the reference catalog and the
+ * others must have exactly its keys. Lib code that produces user-facing text
+ * returns a MessageKey and leaves translating to the components.
+ *
+ * A message is a string with `{name}` placeholders, or plural forms picked by
+ * Intl.PluralRules from the `count` parameter. Number parameters are formatted
+ * for the locale.
+ */
+import { ru } from './locales/ru';
+import { en } from './locales/en';
+import { uk } from './locales/uk';
+
+export type Locale = 'ru' | 'en' | 'uk';
+
+export const LOCALES: readonly Locale[] = ['ru', 'en', 'uk'];
+
+/** The language the app was written in; texts saved before localization are in it. */
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+/** For visitors whose browser asks for none of LOCALES. */
+export const FALLBACK_LOCALE: Locale = 'en';
+
+/** Each language in itself, for the switcher. */
+export const LOCALE_LABELS: Record<Locale, string> = {
+    ru: 'Русский',
+    en: 'English',
+    uk: 'Українська',
+};
+
+/** Plural forms as Intl.PluralRules names them; `other` is always required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof ru;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { ru, en, uk };
+
+const LOCALE_STORAGE_KEY = 'sniply.locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** First of the browser's preferred languages we have a catalog for; `uk-UA` and `uk` both pick uk. */
+export const detectLocale = (languages: readonly string[]): Locale => {
+    for (const language of languages) {
+        const primary = language.trim().toLowerCase().split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return FALLBACK_LOCALE;
+};
+
+/** The language picked in the switcher, else the browser's. */
+export const loadLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch {
+        // Storage can be off (private mode, blocked cookies); fall through to the browser's languages.
+    }
+    return detectLocale(navigator.languages?.length ? navigator.languages : [navigator.language || '']);
+};
+
+export const saveLocale = (locale: Locale) => {
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch (e) {
+        console.warn("Failed to save language:", e);
+    }
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const pluralForm = (message: PluralMessage, locale: Locale, count: number) => {
+    if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+    return message[pluralRules.get(locale)!.select(count)] ?? message.other;
+};
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+    const message = CATALOGS[locale][key];
+    const text = typeof message === 'string' ? message : pluralForm(message, locale, Number(params.count ?? 0));
+    return text.replace(/\{(\w+)\}/g, (placeholder, name) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? value.toLocaleString(locale) : value;
+    });
+};
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
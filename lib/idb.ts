@@ -0,0 +1,83 @@
+/**
+ * Minimal promise wrapper around the app's single IndexedDB database.
+ * Every object store is declared here so upgrades happen in one place.
+ */
+
+const DB_NAME = 'sniply';
+const DB_VERSION = 3;
+
+export const STORES = {
+    events: 'events',
+    links: 'links',
+    drafts: 'drafts',
+    brandKits: 'brandKits',
+    templates: 'templates',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.events)) {
+                    const events = db.createObjectStore(STORES.events, { keyPath: 'id' });
+                    events.createIndex('linkId', 'linkId');
+                    events.createIndex('timestamp', 'timestamp');
+                }
+                if (!db.objectStoreNames.contains(STORES.links)) {
+                    const links = db.createObjectStore(STORES.links, { keyPath: 'id' });
+                    links.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(STORES.drafts)) {
+                    db.createObjectStore(STORES.drafts, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.brandKits)) {
+                    db.createObjectStore(STORES.brandKits, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.templates)) {
+                    db.createObjectStore(STORES.templates, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a retry on the next call instead of caching the failure forever.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+    const db = await openDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName, index?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+    const db = await openDb();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const source = index ? objectStore.index(index) : objectStore;
+    return promisify(source.getAll(query));
+};
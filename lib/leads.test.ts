@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { isValidEmail } from './leads';
+
+describe('isValidEmail', () => {
+    it('accepts ordinary addresses', () => {
+        expect(isValidEmail('anna@example.com')).toBe(true);
+        expect(isValidEmail('anna.petrova+promo@mail.example.ru')).toBe(true);
+    });
+
+    it('rejects incomplete or spaced input', () => {
+        expect(['', 'anna', 'anna@example', '@example.com', 'anna @example.com'].map(isValidEmail)).toEqual([false, false, false, false, false]);
+    });
+});
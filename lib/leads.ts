@@ -0,0 +1,29 @@
+/**
+ * Lead form submissions. The form POSTs JSON to the endpoint set on the CTA,
+ * so the receiving service must accept cross-origin requests.
+ * Protocol (see server/collector.mjs for a stand-in):
+ *   POST {leadEndpoint}   body: Lead   -> any 2xx
+ */
+export interface Lead {
+    email: string;
+    linkId: string;
+    /** Variant key for A/B links. */
+    variant?: string;
+    targetUrl: string;
+    submittedAt: number;
+}
+
+const MAX_EMAIL_LENGTH = 254;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** A deliberately loose check: something@domain.tld, no spaces. */
+export const isValidEmail = (value: string) => value.length <= MAX_EMAIL_LENGTH && EMAIL.test(value);
+
+export const submitLead = async (endpoint: string, lead: Lead): Promise<void> => {
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(lead),
+    });
+    if (!response.ok) throw new Error(`Lead endpoint returned ${response.status}`);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { LEGACY_SCHEMA_VERSION, LINK_SCHEMA_VERSION, LinkDecodeError, decodeLinkPayload, encodeLinkPayload } from './linkCodec';
+
+const payload = {
+    type: 'single',
+    data: { targetUrl: 'https://shop.example/распродажа', message: 'Скидки до 50% — только сегодня! 🎉', buttons: [] },
+};
+
+/** Base64url of raw bytes, as a link hash would carry them. */
+const toHash = (bytes: number[]) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeError = (encoded: string) => decodeLinkPayload(encoded).then(
+    () => { throw new Error('expected decoding to fail'); },
+    (e: unknown) => {
+        expect(e).toBeInstanceOf(LinkDecodeError);
+        return (e as LinkDecodeError).code;
+    },
+);
+
+describe('encodeLinkPayload / decodeLinkPayload', () => {
+    it('round-trips non-Latin text in URL-safe characters', async () => {
+        const encoded = await encodeLinkPayload(payload);
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(await decodeLinkPayload(encoded)).toEqual({ version: LINK_SCHEMA_VERSION, value: payload });
+    });
+
+    it('decodes legacy btoa links as version 0, padded or percent-encoded', async () => {
+        const legacy = { type: 'single', data: { targetUrl: 'https://shop.example/?a=1', message: 'Hello', buttonText: 'Go' } };
+        const encoded = btoa(JSON.stringify(legacy));
+        expect(encoded).toMatch(/[+/=]/);
+        expect(await decodeLinkPayload(encoded)).toEqual({ version: LEGACY_SCHEMA_VERSION, value: legacy });
+        expect(await decodeLinkPayload(encodeURIComponent(encoded))).toEqual({ version: LEGACY_SCHEMA_VERSION, value: legacy });
+    });
+});
+
+describe('decode errors', () => {
+    it('rejects empty input', async () => {
+        expect(await decodeError('')).toBe('empty');
+        expect(await decodeError('   ')).toBe('empty');
+    });
+
+    it('rejects input that is not base64', async () => {
+        expect(await decodeError('не base64!')).toBe('invalid-encoding');
+        expect(await decodeError('%E0%A4%A')).toBe('invalid-encoding');
+    });
+
+    it('rejects unknown schema versions', async () => {
+        expect(await decodeError(toHash([LINK_SCHEMA_VERSION + 1, 1, 2, 3]))).toBe('unsupported-version');
+        expect(await decodeError(toHash([0, 1, 2, 3]))).toBe('unsupported-version');
+    });
+
+    it('rejects truncated or garbage compressed data', async () => {
+        const encoded = await encodeLinkPayload(payload);
+        expect(await decodeError(encoded.slice(0, encoded.length - 12))).toBe('decompression-failed');
+        expect(await decodeError(toHash([LINK_SCHEMA_VERSION, 0xff, 0xff, 0xff, 0xff]))).toBe('decompression-failed');
+    });
+
+    it('rejects legacy links that are not JSON', async () => {
+        expect(await decodeError(btoa('{"type": "single",'))).toBe('invalid-json');
+    });
+});
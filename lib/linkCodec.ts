@@ -0,0 +1,122 @@
+/**
+ * Encodes and decodes the LinkPayload carried in the URL hash.
+ *
+ * Wire format: URL-safe base64 (no padding) of
+ *   [schema version byte][deflate-raw compressed UTF-8 JSON]
+ *
+ * Links created before the codec existed are plain `btoa(JSON.stringify(...))`.
+ * Their first decoded byte is always '{', which is never a valid version byte,
+ * so both formats can be told apart without a separate marker.
+ */
+
+export const LINK_SCHEMA_VERSION = 4;
+
+/** Version reported for legacy plain-base64 links. */
+export const LEGACY_SCHEMA_VERSION = 0;
+
+const LEGACY_JSON_MARKER = '{'.charCodeAt(0);
+
+export type LinkDecodeErrorCode =
+    | 'empty'
+    | 'invalid-encoding'
+    | 'unsupported-version'
+    | 'decompression-failed'
+    | 'invalid-json';
+
+export class LinkDecodeError extends Error {
+    constructor(public readonly code: LinkDecodeErrorCode, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'LinkDecodeError';
+    }
+}
+
+export interface DecodedLink {
+    /** Schema version the link was written with (0 for legacy links). */
+    version: number;
+    /** Parsed JSON; not yet validated against the LinkPayload schema. */
+    value: unknown;
+}
+
+// --- BASE64URL ---
+
+const bytesToBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlToBytes = (input: string): Uint8Array => {
+    // Accept both alphabets so legacy links (standard base64) go through the same path.
+    let normalized = input.replace(/-/g, '+').replace(/_/g, '/');
+    while (normalized.length % 4 !== 0) normalized += '=';
+    const binary = atob(normalized);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+// --- COMPRESSION ---
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const deflate = (bytes: Uint8Array) => pipeThrough(bytes, new CompressionStream('deflate-raw'));
+const inflate = (bytes: Uint8Array) => pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+
+// --- PUBLIC API ---
+
+export const encodeLinkPayload = async (payload: unknown): Promise<string> => {
+    const json = new TextEncoder().encode(JSON.stringify(payload));
+    const compressed = await deflate(json);
+    const framed = new Uint8Array(compressed.length + 1);
+    framed[0] = LINK_SCHEMA_VERSION;
+    framed.set(compressed, 1);
+    return bytesToBase64Url(framed);
+};
+
+export const decodeLinkPayload = async (encoded: string): Promise<DecodedLink> => {
+    const trimmed = encoded.trim();
+    if (!trimmed) {
+        throw new LinkDecodeError('empty', 'Link payload is empty');
+    }
+
+    let bytes: Uint8Array;
+    try {
+        bytes = base64UrlToBytes(decodeURIComponent(trimmed));
+    } catch (e) {
+        throw new LinkDecodeError('invalid-encoding', 'Link payload is not valid base64', e);
+    }
+    if (bytes.length === 0) {
+        throw new LinkDecodeError('empty', 'Link payload is empty');
+    }
+
+    let version: number;
+    let json: string;
+    if (bytes[0] === LEGACY_JSON_MARKER) {
+        // Legacy links were produced by btoa, so every byte is one Latin-1 character.
+        version = LEGACY_SCHEMA_VERSION;
+        json = Array.from(bytes, b => String.fromCharCode(b)).join('');
+    } else {
+        version = bytes[0];
+        if (version < 1 || version > LINK_SCHEMA_VERSION) {
+            throw new LinkDecodeError('unsupported-version', `Unsupported link schema version ${version}`);
+        }
+        try {
+            json = new TextDecoder('utf-8', { fatal: true }).decode(await inflate(bytes.subarray(1)));
+        } catch (e) {
+            throw new LinkDecodeError('decompression-failed', 'Link payload could not be decompressed', e);
+        }
+    }
+
+    try {
+        return { version, value: JSON.parse(json) };
+    } catch (e) {
+        throw new LinkDecodeError('invalid-json', 'Link payload is not valid JSON', e);
+    }
+};
@@ -0,0 +1,149 @@
+/**
+ * "My links": generated links and the editor draft, persisted in IndexedDB.
+ */
+import { AbVariant, CtaData, FramingFallback, LinkPayload, LinkSchedule, Targeting } from '../types';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from './idb';
+import { upgradeStoredCta, upgradeStoredPayload } from './storedCta';
+
+export interface SavedLink {
+    id: string;
+    name: string;
+    tags: string[];
+    createdAt: number;
+    updatedAt: number;
+    payload: LinkPayload;
+    url: string;
+    /** Analytics bucket of the link, see `linkIdFromHash` and `linkIdFromSlug`. */
+    linkId: string;
+    archived: boolean;
+    /** Set for short links published to the link service. */
+    slug?: string;
+    /** Lets this browser replace the payload behind `slug`. */
+    editToken?: string;
+}
+
+/** Everything needed to restore the editor after a reload. */
+export interface EditorDraft {
+    targetUrl: string;
+    /** Optional: drafts saved before framing fallbacks existed don't have it. */
+    framingFallback?: FramingFallback;
+    schedule?: LinkSchedule;
+    targeting?: Targeting;
+    autoUtmContent?: boolean;
+    activeTab: string;
+    single: CtaData;
+    variants: AbVariant[];
+    activeVariantKey: string;
+    savedAt: number;
+}
+
+const DRAFT_ID = 'current';
+
+const newId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const payloadTargetUrl = (payload: LinkPayload) =>
+    payload.type === 'single' ? payload.data.targetUrl : payload.targetUrl;
+
+/** Default name for a freshly generated link: the target host, else `untitled`. */
+export const defaultLinkName = (payload: LinkPayload, untitled: string) => {
+    const target = payloadTargetUrl(payload);
+    try {
+        return new URL(target).hostname;
+    } catch {
+        return target || untitled;
+    }
+};
+
+/** Button text by button id across every CTA of the payload, for labelling per-button clicks. */
+export const payloadButtonLabels = (payload: LinkPayload): Record<string, string> => {
+    const ctas = payload.type === 'single' ? [payload.data] : payload.variants.map(v => v.data);
+    if (payload.schedule?.fallback.type === 'alternate') ctas.push(payload.schedule.fallback.data);
+    const labels: Record<string, string> = {};
+    for (const data of ctas) {
+        for (const button of data.buttons) labels[button.id] ??= button.text;
+    }
+    return labels;
+};
+
+/** Splits a comma-separated tag input into trimmed, unique tags. */
+export const parseTags = (input: string): string[] =>
+    [...new Set(input.split(',').map(t => t.trim()).filter(Boolean))];
+
+// --- LINKS ---
+
+export const listLinks = async (): Promise<SavedLink[]> => {
+    const links = await idbGetAll<SavedLink>(STORES.links);
+    // Links saved by older versions are upgraded on read.
+    return links
+        .map(link => ({ ...link, payload: upgradeStoredPayload(link.payload) as LinkPayload }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createLink = async (fields: Pick<SavedLink, 'payload' | 'url' | 'linkId' | 'name'> & Partial<Pick<SavedLink, 'tags' | 'slug' | 'editToken'>>): Promise<SavedLink> => {
+    const now = Date.now();
+    const link: SavedLink = {
+        id: newId(),
+        name: fields.name,
+        tags: fields.tags ?? [],
+        createdAt: now,
+        updatedAt: now,
+        payload: fields.payload,
+        url: fields.url,
+        linkId: fields.linkId,
+        archived: false,
+        ...(fields.slug ? { slug: fields.slug, editToken: fields.editToken } : {}),
+    };
+    await idbPut(STORES.links, link);
+    return link;
+};
+
+export const updateLink = async (link: SavedLink, changes: Partial<Pick<SavedLink, 'name' | 'tags' | 'archived' | 'payload'>>): Promise<SavedLink> => {
+    const updated = { ...link, ...changes, updatedAt: Date.now() };
+    await idbPut(STORES.links, updated);
+    return updated;
+};
+
+/**
+ * Copies an entry under a new ID. The URL is shared, so analytics stay combined.
+ * A copy of a short link doesn't get the edit token: only the original edits it.
+ * `name` is the copy's name, made by the caller in the UI language.
+ */
+export const duplicateLink = async (link: SavedLink, name: string): Promise<SavedLink> => {
+    const now = Date.now();
+    const { editToken, ...rest } = link;
+    const copy: SavedLink = { ...rest, id: newId(), name, createdAt: now, updatedAt: now, archived: false };
+    await idbPut(STORES.links, copy);
+    return copy;
+};
+
+export const deleteLink = (id: string) => idbDelete(STORES.links, id);
+
+/** Case-insensitive match on name, tags and target URL; every word must match. */
+export const searchLinks = (links: SavedLink[], query: string): SavedLink[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.length) return links;
+    return links.filter(link => {
+        const haystack = [link.name, ...link.tags, payloadTargetUrl(link.payload)].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word));
+    });
+};
+
+// --- DRAFT ---
+
+export const loadDraft = async (): Promise<EditorDraft | undefined> => {
+    const record = await idbGet<EditorDraft & { id: string }>(STORES.drafts, DRAFT_ID);
+    if (!record) return undefined;
+    const { id, ...draft } = record;
+    const schedule = draft.schedule && (upgradeStoredPayload({ schedule: draft.schedule }) as Pick<LinkPayload, 'schedule'>).schedule;
+    return {
+        ...draft,
+        ...(schedule && { schedule }),
+        single: upgradeStoredCta(draft.single) as CtaData,
+        variants: draft.variants.map(v => ({ ...v, data: upgradeStoredCta(v.data) as CtaData })),
+    };
+};
+
+export const saveDraft = (draft: EditorDraft) => idbPut(STORES.drafts, { id: DRAFT_ID, ...draft });
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { linkIdFromSlug, slugFromPath } from './linkService';
+
+describe('short link paths', () => {
+    it('extracts the slug from /s/<slug>', () => {
+        expect(slugFromPath('/s/Ab3xY7k')).toBe('Ab3xY7k');
+        expect(slugFromPath('/s/Ab3xY7k/')).toBe('Ab3xY7k');
+    });
+
+    it('ignores other paths', () => {
+        expect(slugFromPath('/')).toBeNull();
+        expect(slugFromPath('/s/')).toBeNull();
+        expect(slugFromPath('/s/../admin')).toBeNull();
+        expect(slugFromPath('/links/Ab3xY7k')).toBeNull();
+    });
+
+    it('keeps the analytics bucket stable per slug', () => {
+        expect(linkIdFromSlug('Ab3xY7k')).toBe('s-Ab3xY7k');
+    });
+});
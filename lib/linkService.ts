@@ -0,0 +1,73 @@
+/**
+ * Client for the optional short link service.
+ *
+ * With LINK_SERVICE_ENDPOINT set, generated links are stored on the service
+ * and shared as `/s/<slug>` instead of carrying the whole payload in the hash.
+ * The service returns an edit token on creation; whoever holds it (the
+ * creator's link library) can later replace the payload behind the same slug.
+ * Protocol: see server/linkService.mjs.
+ */
+import { LinkPayload } from '../types';
+import { LINK_SCHEMA_VERSION } from './linkCodec';
+
+export type LinkServiceErrorCode = 'not-found' | 'forbidden' | 'rejected' | 'unavailable';
+
+export class LinkServiceError extends Error {
+    constructor(public readonly code: LinkServiceErrorCode, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'LinkServiceError';
+    }
+}
+
+export interface PublishedLink {
+    slug: string;
+    editToken: string;
+}
+
+const SHORT_LINK_PATH = /^\/s\/([A-Za-z0-9]{1,32})\/?$/;
+
+const endpoint = () => (process.env.LINK_SERVICE_ENDPOINT || '').replace(/\/+$/, '');
+
+export const isLinkServiceEnabled = () => !!endpoint();
+
+/** Slug of a short link path such as `/s/Ab3xY7k`, or null for anything else. */
+export const slugFromPath = (pathname: string): string | null => SHORT_LINK_PATH.exec(pathname)?.[1] ?? null;
+
+export const shortLinkUrl = (slug: string) => `${window.location.origin}/s/${slug}`;
+
+/**
+ * Analytics bucket of a short link. It depends on the slug only, so stats
+ * carry over when the payload behind the link is edited.
+ */
+export const linkIdFromSlug = (slug: string) => `s-${slug}`;
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${endpoint()}${path}`, init);
+    } catch (e) {
+        throw new LinkServiceError('unavailable', 'Link service is unreachable', e);
+    }
+    if (response.status === 404) throw new LinkServiceError('not-found', 'Short link not found');
+    if (response.status === 403) throw new LinkServiceError('forbidden', 'Edit token was rejected');
+    if (!response.ok) throw new LinkServiceError(response.status >= 500 ? 'unavailable' : 'rejected', `Link service returned ${response.status}`);
+    return response.json();
+};
+
+const jsonBody = (payload: LinkPayload) => JSON.stringify({ version: LINK_SCHEMA_VERSION, payload });
+
+export const publishLink = (payload: LinkPayload) =>
+    request<PublishedLink>('/links', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: jsonBody(payload) });
+
+/** Returns the stored payload with its schema version, ready for `parseLinkPayload`. */
+export const fetchPublishedLink = async (slug: string): Promise<{ version: number; value: unknown }> => {
+    const { version, payload } = await request<{ version: number; payload: unknown }>(`/links/${encodeURIComponent(slug)}`);
+    return { version, value: payload };
+};
+
+export const updatePublishedLink = (slug: string, editToken: string, payload: LinkPayload) =>
+    request<{ slug: string; updatedAt: number }>(`/links/${encodeURIComponent(slug)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${editToken}` },
+        body: jsonBody(payload),
+    });
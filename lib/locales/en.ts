@@ -0,0 +1,440 @@
+import { Catalog } from '../i18n';
+
+export const en: Catalog = {
+    'app.title': 'Link Brandyler | Create your CTA link',
+    'app.tagline': 'Add your call to action to any page on the web.',
+    'app.language': 'Interface language',
+
+    'tabs.create': 'Create',
+    'tabs.abTest': 'A/B Tests',
+    'tabs.library': 'My links',
+    'tabs.analytics': 'Analytics',
+    'tabs.settings': 'Settings',
+
+    'common.copy': 'Copy',
+    'common.copied': 'Copied!',
+    'common.delete': 'Delete',
+    'common.confirmDelete': 'Delete “{name}”?',
+    'common.duplicate': 'Duplicate',
+    'common.openInEditor': 'Open in editor',
+    'common.up': 'Up',
+    'common.down': 'Down',
+    'common.close': 'Close',
+    'common.loading': 'Loading...',
+
+    // --- Analytics ---
+    'analytics.subtitle': 'Track how your links perform.',
+    'analytics.localData': '(Data from this browser)',
+    'analytics.loadFailed': 'Could not load analytics data.',
+    'analytics.link': 'Link',
+    'analytics.allLinks': 'All links',
+    'analytics.impressions': { one: '{count} impression', other: '{count} impressions' },
+    'analytics.clicks': { one: '{count} click', other: '{count} clicks' },
+    'analytics.totalImpressions': 'Total impressions',
+    'analytics.totalClicks': 'Total clicks',
+    'analytics.last30Days': 'Activity over the last 30 days',
+    'analytics.buttonClicks': 'Clicks by button',
+
+    // --- CTA form ---
+    'form.layout': 'Format',
+    'form.message': 'Message (CTA)',
+    'form.messagePlaceholder': 'Your message...',
+    'form.aiButton': '✨ AI',
+    'form.aiButtonTitle': 'Generate with AI',
+    'form.position': 'Position',
+    'form.position.left': 'Left',
+    'form.position.right': 'Right',
+    'form.position.banner': 'Banner',
+    'form.position.custom': 'Drag',
+    'form.theme': 'Theme',
+    'form.theme.light': 'Light',
+    'form.theme.dark': 'Dark',
+    'form.bgColor': 'Background color',
+    'form.advancedStyle': 'Advanced style',
+    'form.font': 'Font',
+    'form.deviceStyleHint': 'Font size, scale and corner radius below apply to the “{device}” device only.',
+    'form.sameAsDesktop': 'Same as desktop',
+    'form.fontSize': 'Font size',
+    'form.scale': 'Scale',
+    'form.cornerRadius': 'Corner radius',
+    'form.behavior': 'Behavior',
+    'form.animation': 'Entrance animation',
+    'form.showDelay': 'Show after',
+    'form.secondsUnit': ' s',
+    'form.exitIntent': 'Show when the visitor is about to leave',
+    'form.exitIntentHint': 'The CTA appears when the pointer leaves through the top edge of the page. On phones and tablets it is shown after the delay.',
+    'form.exitIntentHintWithDelay': 'The CTA appears when the pointer leaves through the top edge of the page, or after the set delay. On phones and tablets it is shown after the delay.',
+    'form.dismissible': 'Close button (×)',
+
+    'layout.classic': 'Classic',
+    'layout.top-bar': 'Top bar',
+    'layout.modal': 'Centered window',
+    'layout.card': 'Card with image',
+    'layout.lead-form': 'Lead form',
+
+    'layoutField.profileImage': 'Profile image URL (optional)',
+    'layoutField.title': 'Title',
+    'layoutField.titlePlaceholder': 'Spring sale',
+    'layoutField.heroImage': 'Card image URL',
+    'layoutField.leadEndpoint': 'Address leads are sent to',
+    'layoutField.successMessage': 'Message after sending',
+
+    'animation.slide': 'Slide up',
+    'animation.fade': 'Fade in',
+    'animation.bounce': 'Bounce',
+
+    // --- Buttons ---
+    'buttons.title': 'Buttons',
+    'buttons.submit': 'Submit button',
+    'buttons.textPlaceholder': 'Button text',
+    'buttons.text': 'Button text',
+    'buttons.color': 'Button color',
+    'buttons.action': 'Action',
+    'buttons.style': 'Style',
+    'buttons.add': '+ Add button',
+
+    'button.default': 'Button',
+    'button.action.url': 'Link',
+    'button.action.tel': 'Call',
+    'button.action.mailto': 'Email',
+    'button.action.whatsapp': 'WhatsApp',
+    'button.action.telegram': 'Telegram',
+    'button.target.url': 'Button URL',
+    'button.target.tel': 'Phone number',
+    'button.target.mailto': 'Email address',
+    'button.target.whatsapp': 'WhatsApp number',
+    'button.target.telegram': 'Telegram username',
+    'button.style.primary': 'Filled',
+    'button.style.secondary': 'Outline',
+    'button.style.link': 'Link',
+    'button.error.phone': 'Enter the number in international format, e.g. +447700900123.',
+    'button.error.email': 'Invalid email address.',
+    'button.error.telegram': 'Username: at least 5 characters, Latin letters, digits and _.',
+
+    // --- The CTA as visitors see it ---
+    'cta.messagePlaceholder': 'Your message here...',
+    'cta.titlePlaceholder': 'Title',
+    'cta.leadSubmit': 'Send',
+    'cta.leadThanks': 'Thank you! We will be in touch soon.',
+    'cta.leadInvalid': 'Enter a valid email.',
+    'cta.leadFailed': 'Could not send. Please try again.',
+
+    // --- Creator ---
+    'defaults.message': 'Promote your brand with every link!',
+    'defaults.buttonText': 'Learn more',
+    'defaults.variantName': 'Variant {key}',
+    'defaults.variantAMessage': 'Variant A: Attract new customers!',
+    'defaults.variantBMessage': 'Variant B: Grow your sales!',
+    'defaults.copyName': '{name} (copy)',
+    'defaults.fallbackMessage': 'This offer has ended. See our other deals!',
+
+    'creator.targetUrl': 'Target URL',
+    'creator.updatePreview': 'Update preview',
+    'creator.framingFallback': 'If the site forbids embedding',
+    'creator.autoUtmContent': 'Add utm_content with the variant name to button URLs',
+    'creator.draft': 'Draft',
+    'creator.editingLink': 'You are editing the published link “{name}”. Changes will appear at the same link.',
+    'creator.createNew': 'Create a new one',
+    'creator.generateLink': 'Generate link',
+    'creator.updateLink': 'Update link',
+    'creator.saved': 'The link is saved to “My links”.',
+    'creator.publishedAndSaved': 'The link is published and saved to “My links”.',
+    'creator.error.targetUrlRequired': 'Please fill in "Target URL".',
+    'creator.error.scheduleWindow': 'The end of the schedule must be after its start.',
+    'creator.error.redirectUrlRequired': 'Please enter the redirect URL in the schedule.',
+    'creator.error.fieldRequired': 'Please fill in "{field}".',
+    'creator.error.fallbackFieldRequired': 'Please fill in "{field}" for the fallback CTA.',
+    'creator.error.variantFieldRequired': 'Please fill in "{field}" for variant “{variant}”.',
+    'creator.error.zeroWeights': 'At least one variant must have a weight above zero.',
+    'creator.error.brokenRule': 'Targeting rule {index}: pick an existing variant and add at least one condition.',
+    'creator.error.unsafeUrl': 'URL not allowed "{url}": {reason}',
+    'creator.error.updateForbidden': 'The service rejected the change: this browser may not edit the link.',
+    'creator.error.updateFailed': 'Could not update the published link.',
+    'creator.error.shortLinksUnavailable': 'The short link service is unavailable. A regular link will be created.',
+    'creator.error.encodeFailed': 'Could not create the link.',
+    'creator.error.aiInputRequired': 'Please enter the "Target URL" and the first button\'s address to generate suggestions.',
+
+    'preview.title': 'Preview',
+    'preview.markBlocked': 'Page not showing?',
+    'preview.markBlockedTitle': 'Show what visitors see if the site can\'t be opened in a frame',
+    'preview.reveal': '▶ Entrance',
+    'preview.revealTitle': 'Show the CTA appearing the way a visitor sees it',
+    'preview.undo': 'Undo (Ctrl+Z)',
+    'preview.redo': 'Redo (Ctrl+Shift+Z)',
+    'preview.device': 'Device',
+    'preview.portrait': 'Portrait',
+    'preview.landscape': 'Landscape',
+    'preview.loadFailed': 'Could not load the preview.',
+    'preview.blocked': 'This site forbids embedding in other pages. Visitors will see: “{fallback}”.',
+    'preview.dismissed': 'The visitor closed the CTA.',
+    'preview.waitingForExit': 'Move the pointer out through the top edge of the preview.',
+    'preview.revealIn': 'The CTA appears in {seconds} s.',
+    'preview.showNow': 'Show now',
+    'preview.ctaLabel': 'CTA: drag with the mouse or move with the arrow keys (Shift for 10px)',
+
+    'device.mobile': 'Phone',
+    'device.tablet': 'Tablet',
+    'device.desktop': 'Desktop',
+
+    'framing.mode.interstitial': 'Redirect with a splash screen',
+    'framing.mode.preview-card': 'Page card',
+    'framing.mode.new-tab-bar': '“Open in a new tab” bar',
+    'framing.redirectIn': 'Going to {host} in {seconds} s…',
+    'framing.goNow': 'Go now',
+    'framing.openPage': 'Open page ↗',
+    'framing.refused': '{host} does not allow its page to be shown inside another site.',
+    'framing.openInNewTab': 'Open in a new tab',
+    'framing.slow': 'The page is taking a while to load.',
+
+    'url.invalid': 'Invalid URL.',
+    'url.scheme': 'Only http:// and https:// addresses are allowed.',
+    'url.credentials': 'The URL must not contain a username and password.',
+    'url.mixed-script': 'The domain mixes Latin with look-alike letters from other alphabets.',
+    'url.blocked-domain': 'This domain is blocked.',
+    'url.not-allowed-domain': 'This domain is not on the allowed list.',
+
+    // --- Schedule ---
+    'schedule.title': 'Schedule',
+    'schedule.status.scheduled': 'Scheduled',
+    'schedule.status.active': 'Active',
+    'schedule.status.expired': 'Expired',
+    'schedule.status.capped': 'Impression limit reached',
+    'schedule.fallback.plain': 'Show the page without the CTA',
+    'schedule.fallback.alternate': 'Show another CTA',
+    'schedule.fallback.redirect': 'Redirect to another URL',
+    'schedule.activeFrom': 'Show from',
+    'schedule.expiresAt': 'Show until',
+    'schedule.invalidWindow': 'The end must be after the start.',
+    'schedule.maxImpressions': 'Impression limit',
+    'schedule.noLimit': 'No limit',
+    'schedule.localCapNote': 'Impression limits need an analytics server (ANALYTICS_ENDPOINT): without one each browser only counts its own impressions.',
+    'schedule.capHint': {
+        one: 'After {count} impression the CTA stops showing.',
+        other: 'After {count} impressions the CTA stops showing.',
+    },
+    'schedule.outside': 'Outside the schedule',
+    'schedule.redirectUrl': 'Redirect URL',
+    'schedule.message': 'Message',
+    'schedule.buttonText': 'Button text',
+
+    // --- Targeting ---
+    'targeting.title': 'Targeting',
+    'targeting.hint': 'Visitors who match a rule always see its variant and are left out of the random split.',
+    'targeting.condition.device': 'Device',
+    'targeting.condition.language': 'Browser language',
+    'targeting.condition.referrer': 'Referrer',
+    'targeting.condition.utm': 'UTM tag',
+    'targeting.condition.time': 'Time and weekdays',
+    'targeting.anyValue': 'Any value',
+    'targeting.fromHour': 'from',
+    'targeting.toHour': 'to',
+    'targeting.hourUnit': 'h',
+    'targeting.rule': 'Rule {index}',
+    'targeting.deleteRule': 'Delete rule',
+    'targeting.deleteCondition': 'Delete condition',
+    'targeting.addCondition': '+ Condition',
+    'targeting.show': 'Show',
+    'targeting.deletedVariant': 'Deleted variant',
+    'targeting.variantDeleted': 'This rule\'s variant was deleted.',
+    'targeting.noConditions': 'A rule without conditions never matches.',
+    'targeting.addRule': '+ Add rule',
+    'targeting.others': 'Everyone else',
+    'targeting.byWeight': 'Random variant by weight',
+
+    // --- UTM ---
+    'utm.title': 'UTM tags',
+    'utm.param.utm_source': 'Source (utm_source)',
+    'utm.param.utm_medium': 'Medium (utm_medium)',
+    'utm.param.utm_campaign': 'Campaign (utm_campaign)',
+    'utm.param.utm_term': 'Term (utm_term)',
+    'utm.param.utm_content': 'Content (utm_content)',
+    'utm.needUrl': 'Enter the full button address (https://…) to add tags.',
+    'utm.presetName': 'UTM preset name',
+    'utm.confirmDeletePreset': 'Delete preset “{name}”?',
+    'utm.applyPreset': 'Apply preset',
+    'utm.autoContent': 'Variant name (automatic)',
+    'utm.savePreset': 'Save as preset',
+
+    // --- Brand kits ---
+    'brand.title': 'Brand kits and templates',
+    'brand.applyTo': 'Apply to',
+    'brand.kits': 'Brand kits',
+    'brand.saveKit': 'Save current style',
+    'brand.kitName': 'Brand kit name',
+    'brand.noKits': 'Save colors, font and logo to apply them in one click.',
+    'brand.apply': 'Apply',
+    'brand.confirmDeleteKit': 'Delete brand kit “{name}”?',
+    'brand.templates': 'Templates',
+    'brand.saveTemplate': 'Save as template',
+    'brand.templateName': 'Template name',
+    'brand.applyTemplate': 'Apply template',
+    'brand.confirmDeleteTemplate': 'Delete template “{name}”?',
+    'brand.export': 'Export JSON',
+    'brand.import': 'Import JSON',
+    'brand.importInvalid': 'Could not import the file:\n{errors}',
+    'brand.imported': 'Imported: {kits}, {templates}.',
+    'brand.importedKits': { one: '{count} brand kit', other: '{count} brand kits' },
+    'brand.importedTemplates': { one: '{count} template', other: '{count} templates' },
+    'brand.importFailed': 'Could not save the imported data.',
+    'template.classic.name': 'Classic',
+    'template.classic.message': 'Enjoyed the article? Learn more about us!',
+    'template.classic.button': 'Learn more',
+    'template.night.name': 'Night',
+    'template.night.message': 'Subscribe to our newsletter',
+    'template.night.button': 'Subscribe',
+    'template.promoBanner.name': 'Promo banner',
+    'template.promoBanner.message': '20% off your first order',
+    'template.promoBanner.button': 'Get the discount',
+    'template.editorial.name': 'Editorial',
+    'template.editorial.message': 'Read more stories on our blog',
+    'template.editorial.button': 'Read',
+
+    // --- A/B variants and results ---
+    'ab.addVariant': 'Add variant',
+    'ab.variantName': 'Variant name',
+    'ab.weight': 'Weight',
+
+    'abResults.title': 'Test results',
+    'abResults.link': 'A/B test link',
+    'abResults.linkPlaceholder': 'Paste an A/B test link',
+    'abResults.show': 'Show results',
+    'abResults.notAbLink': 'This is not an A/B test link.',
+    'abResults.loadFailed': 'Could not load results for this link.',
+    'abResults.confirmWinner': '“{name}” is not a statistically significant winner. Declare it the winner anyway?',
+    'abResults.variant': 'Variant',
+    'abResults.exposures': 'Views',
+    'abResults.impressions': 'Impressions',
+    'abResults.clicks': 'Clicks',
+    'abResults.ctr': 'CTR per view (95% CI)',
+    'abResults.lift': 'Lift',
+    'abResults.beatControl': 'P(beats control)',
+    'abResults.declareWinner': 'Winner',
+    'abResults.notEnoughData': {
+        one: 'Not enough data: each variant needs at least {count} view.',
+        other: 'Not enough data: each variant needs at least {count} views.',
+    },
+    'abResults.winner': '“{name}” is significantly better than the rest (p < 0.05).',
+    'abResults.noDifference': 'No significant difference between the variants yet.',
+    'abResults.winnerLink': 'Link with the winning variant “{name}”:',
+    'abResults.winnerFailed': 'Could not create a link with the winning variant.',
+
+    // --- Link library ---
+    'library.subtitle': 'All links you create are stored in this browser.',
+    'library.search': 'Search by name, tag or URL',
+    'library.active': 'Active',
+    'library.archive': 'Archive',
+    'library.loadFailed': 'Could not load saved links.',
+    'library.empty': 'You haven\'t created any links yet.',
+    'library.nothingFound': 'Nothing found.',
+    'library.short': 'Short',
+    'library.editable': 'Can be edited after publishing',
+    'library.copyNotEditable': 'Copy: only the original can edit it',
+    'library.tags': 'Comma-separated tags',
+    'library.toArchive': 'Archive',
+    'library.restore': 'Restore',
+    'library.untitled': 'Untitled',
+
+    // --- AI copy ---
+    'settings.aiTitle': '✨ AI copy',
+    'settings.provider': 'Service',
+    'settings.model': 'Model',
+    'settings.geminiHint': 'Requests go through the AI proxy (AI_PROXY_ENDPOINT); the Gemini key is kept only there.',
+    'settings.baseUrl': 'API address',
+    'settings.apiKey': 'API key',
+    'settings.apiKeyPlaceholder': 'Not needed for a local server',
+    'settings.openAiHint': 'Any server with a /chat/completions method works: OpenAI, Ollama, LM Studio, vLLM. The key is kept only in this browser.',
+    'settings.mockHint': 'Canned texts without any network calls, for demos and UI checks.',
+
+    'copyProvider.gemini': 'Google Gemini',
+    'copyProvider.openai': 'OpenAI-compatible API',
+    'copyProvider.mock': 'Demo (offline)',
+
+    'copyError.not-configured': 'The AI service is not set up. Check the “Settings” tab.',
+    'copyError.unavailable': 'The AI service is unavailable. Try again later or pick another one in the settings.',
+    'copyError.rate-limited': 'Too many AI requests. Wait a minute and try again.',
+    'copyError.invalid-response': 'The AI service replied in an unexpected format. Try again or pick another model.',
+
+    'tone.neutral': 'Neutral',
+    'tone.formal': 'Formal',
+    'tone.playful': 'Playful',
+    'tone.urgent': 'Urgent',
+
+    'ai.title': '✨ AI suggestions',
+    'ai.copyOnly': 'Text only',
+    'ai.fullDesign': 'Full design',
+    'ai.tone': 'Tone',
+    'ai.language': 'Language',
+    'ai.maxLength': 'Message length, up to',
+    'ai.characters': '{count} chars',
+    'ai.count': 'Suggestions',
+    'ai.generate': 'Generate',
+    'ai.preview': 'Suggestion preview',
+    'ai.message': 'Message:',
+    'ai.buttonText': 'Button text:',
+    'ai.use': 'Use',
+    'ai.addVariant': '+ A/B variant',
+    'ai.addVariantTitle': 'Add as a new A/B test variant',
+    'ai.variantLimit': 'The maximum number of variants is reached',
+    'ai.failed': 'Could not generate suggestions. Try another URL.',
+
+    'page.summary': 'Suggestions are based on: {title}',
+    'page.site': 'Site',
+    'page.description': 'Description',
+    'page.headings': 'Headings',
+    'page.text': 'Text',
+    'page.unreadable': 'The page could not be read, so the AI only sees its address.',
+    'page.unavailable': 'Reading the page needs the AI proxy (AI_PROXY_ENDPOINT), so the AI only sees its address.',
+
+    // --- Validation (links, imported files, AI replies) ---
+    'validation.required': 'required',
+    'validation.string': 'must be a string',
+    'validation.empty': 'must not be empty',
+    'validation.maxLength': { one: 'at most {count} character', other: 'at most {count} characters' },
+    'validation.number': 'must be a number',
+    'validation.integer': 'must be a whole number',
+    'validation.range': 'must be between {min} and {max}',
+    'validation.oneOf': 'allowed values: {values}',
+    'validation.boolean': 'must be true or false',
+    'validation.color': 'must be a color in #rrggbb format',
+    'validation.object': 'must be an object',
+    'validation.array': 'must be a list',
+    'validation.customPosition': 'must be an { anchor, x, y } object',
+    'validation.customPositionRequired': 'required for the "custom" position',
+    'validation.device': 'allowed devices: {values}',
+    'validation.buttons': 'must be a list of buttons',
+    'validation.maxButtons': { one: 'at most {count} button', other: 'at most {count} buttons' },
+    'validation.duplicateButtonId': 'duplicate button id',
+    'validation.leadEndpointRequired': 'required for the lead form',
+    'validation.expiresBeforeStart': 'must be after the start',
+    'validation.listLength': { one: 'must be a list of at most {count} value', other: 'must be a list of at most {count} values' },
+    'validation.weekdays': 'must be a list of days from 0 (Sun) to 6 (Sat)',
+    'validation.unknownVariant': 'no variant has this key',
+    'validation.maxRules': { one: 'at most {count} rule', other: 'at most {count} rules' },
+    'validation.variantCount': 'must have 2 to {max} variants',
+    'validation.duplicateVariantKey': 'variant keys must be unique',
+    'validation.positiveWeight': 'at least one weight must be above zero',
+    'validation.noMigration': 'unknown link schema version: {version}',
+    'validation.noSuggestions': 'no suggestions',
+    'validation.headings': 'at most {max} lines of up to {length} characters',
+    'validation.invalidJson': 'the file is not valid JSON',
+    'validation.notBrandFile': 'this is not a Sniply brand kit file',
+    'validation.newerVersion': 'the file was made by a newer version of the app',
+
+    // --- Viewer ---
+    'viewer.invalidPayload': 'The link contains invalid data.',
+    'viewer.invalidLink': 'Invalid or damaged link.',
+    'viewer.redirecting': 'Redirecting...',
+    'viewer.unsafeTitle': 'This link may be unsafe',
+    'viewer.unsafeNote': 'We did not open the page. If you got this link from a stranger, just close the tab.',
+
+    'linkError.empty': 'The link contains no data.',
+    'linkError.invalid-encoding': 'The link is damaged: invalid encoding.',
+    'linkError.unsupported-version': 'The link was made by a newer version of the service. Reload the page.',
+    'linkError.decompression-failed': 'The link is cut off or damaged.',
+    'linkError.invalid-json': 'The link is damaged: invalid data format.',
+
+    'linkServiceError.not-found': 'Short link not found. It may have been deleted.',
+    'linkServiceError.forbidden': 'No access to this link.',
+    'linkServiceError.rejected': 'The link service rejected the request.',
+    'linkServiceError.unavailable': 'The link service is temporarily unavailable. Try again later.',
+};
@@ -0,0 +1,439 @@
+/** Russian, the reference catalog: every other catalog has exactly these keys. */
+export const ru = {
+    'app.title': 'Link Brandyler | Создайте свою CTA-ссылку',
+    'app.tagline': 'Добавьте свой призыв к действию на любую страницу в интернете.',
+    'app.language': 'Язык интерфейса',
+
+    'tabs.create': 'Создать',
+    'tabs.abTest': 'A/B Тесты',
+    'tabs.library': 'Мои ссылки',
+    'tabs.analytics': 'Аналитика',
+    'tabs.settings': 'Настройки',
+
+    'common.copy': 'Копировать',
+    'common.copied': 'Скопировано!',
+    'common.delete': 'Удалить',
+    'common.confirmDelete': 'Удалить «{name}»?',
+    'common.duplicate': 'Дублировать',
+    'common.openInEditor': 'Открыть в редакторе',
+    'common.up': 'Выше',
+    'common.down': 'Ниже',
+    'common.close': 'Закрыть',
+    'common.loading': 'Загрузка...',
+
+    // --- Analytics ---
+    'analytics.subtitle': 'Отслеживайте эффективность ваших ссылок.',
+    'analytics.localData': '(Данные этого браузера)',
+    'analytics.loadFailed': 'Не удалось загрузить данные аналитики.',
+    'analytics.link': 'Ссылка',
+    'analytics.allLinks': 'Все ссылки',
+    'analytics.impressions': { one: '{count} показ', few: '{count} показа', many: '{count} показов', other: '{count} показа' },
+    'analytics.clicks': { one: '{count} клик', few: '{count} клика', many: '{count} кликов', other: '{count} клика' },
+    'analytics.totalImpressions': 'Всего показов',
+    'analytics.totalClicks': 'Всего кликов',
+    'analytics.last30Days': 'Активность за последние 30 дней',
+    'analytics.buttonClicks': 'Клики по кнопкам',
+
+    // --- CTA form ---
+    'form.layout': 'Формат',
+    'form.message': 'Сообщение (CTA)',
+    'form.messagePlaceholder': 'Ваше сообщение...',
+    'form.aiButton': '✨ ИИ',
+    'form.aiButtonTitle': 'Сгенерировать с помощью ИИ',
+    'form.position': 'Позиция',
+    'form.position.left': 'Слева',
+    'form.position.right': 'Справа',
+    'form.position.banner': 'Баннер',
+    'form.position.custom': 'Перетащи',
+    'form.theme': 'Тема',
+    'form.theme.light': 'Светлая',
+    'form.theme.dark': 'Темная',
+    'form.bgColor': 'Цвет фона',
+    'form.advancedStyle': 'Продвинутый стиль',
+    'form.font': 'Шрифт',
+    'form.deviceStyleHint': 'Размер шрифта, масштаб и скругление ниже применяются только на устройстве «{device}».',
+    'form.sameAsDesktop': 'Как на компьютере',
+    'form.fontSize': 'Размер шрифта',
+    'form.scale': 'Масштаб',
+    'form.cornerRadius': 'Скругление углов',
+    'form.behavior': 'Поведение',
+    'form.animation': 'Анимация появления',
+    'form.showDelay': 'Показать через',
+    'form.secondsUnit': ' с',
+    'form.exitIntent': 'Показать, когда посетитель собирается уйти',
+    'form.exitIntentHint': 'CTA появится, когда курсор уйдет за верхний край страницы. На телефонах и планшетах он показывается по задержке.',
+    'form.exitIntentHintWithDelay': 'CTA появится, когда курсор уйдет за верхний край страницы, или через заданную задержку. На телефонах и планшетах он показывается по задержке.',
+    'form.dismissible': 'Кнопка закрытия (×)',
+
+    'layout.classic': 'Классический',
+    'layout.top-bar': 'Полоса сверху',
+    'layout.modal': 'Окно по центру',
+    'layout.card': 'Карточка с изображением',
+    'layout.lead-form': 'Форма заявки',
+
+    'layoutField.profileImage': 'URL изображения профиля (необязательно)',
+    'layoutField.title': 'Заголовок',
+    'layoutField.titlePlaceholder': 'Весенняя распродажа',
+    'layoutField.heroImage': 'URL изображения карточки',
+    'layoutField.leadEndpoint': 'Адрес для отправки заявок',
+    'layoutField.successMessage': 'Сообщение после отправки',
+
+    'animation.slide': 'Выезд снизу',
+    'animation.fade': 'Проявление',
+    'animation.bounce': 'Пружина',
+
+    // --- Buttons ---
+    'buttons.title': 'Кнопки',
+    'buttons.submit': 'Кнопка отправки',
+    'buttons.textPlaceholder': 'Текст на кнопке',
+    'buttons.text': 'Текст кнопки',
+    'buttons.color': 'Цвет кнопки',
+    'buttons.action': 'Действие',
+    'buttons.style': 'Стиль',
+    'buttons.add': '+ Добавить кнопку',
+
+    'button.default': 'Кнопка',
+    'button.action.url': 'Ссылка',
+    'button.action.tel': 'Звонок',
+    'button.action.mailto': 'Email',
+    'button.action.whatsapp': 'WhatsApp',
+    'button.action.telegram': 'Telegram',
+    'button.target.url': 'URL кнопки',
+    'button.target.tel': 'Номер телефона',
+    'button.target.mailto': 'Адрес email',
+    'button.target.whatsapp': 'Номер WhatsApp',
+    'button.target.telegram': 'Имя пользователя Telegram',
+    'button.style.primary': 'Основная',
+    'button.style.secondary': 'Контурная',
+    'button.style.link': 'Ссылка',
+    'button.error.phone': 'Введите номер в международном формате, например +79001234567.',
+    'button.error.email': 'Некорректный адрес email.',
+    'button.error.telegram': 'Имя пользователя: от 5 символов, латиница, цифры и _.',
+
+    // --- The CTA as visitors see it ---
+    'cta.messagePlaceholder': 'Ваше сообщение здесь...',
+    'cta.titlePlaceholder': 'Заголовок',
+    'cta.leadSubmit': 'Отправить',
+    'cta.leadThanks': 'Спасибо! Мы скоро свяжемся с вами.',
+    'cta.leadInvalid': 'Введите корректный email.',
+    'cta.leadFailed': 'Не удалось отправить. Попробуйте еще раз.',
+
+    // --- Creator ---
+    'defaults.message': 'Продвигайте свой бренд с каждой ссылкой!',
+    'defaults.buttonText': 'Узнать больше',
+    'defaults.variantName': 'Вариант {key}',
+    'defaults.variantAMessage': 'Вариант А: Привлекайте новых клиентов!',
+    'defaults.variantBMessage': 'Вариант Б: Увеличьте свои продажи!',
+    'defaults.copyName': '{name} (копия)',
+    'defaults.fallbackMessage': 'Акция завершена. Смотрите другие предложения!',
+
+    'creator.targetUrl': 'Целевой URL',
+    'creator.updatePreview': 'Обновить предпросмотр',
+    'creator.framingFallback': 'Если сайт запрещает встраивание',
+    'creator.autoUtmContent': 'Добавлять к URL кнопки utm_content с названием варианта',
+    'creator.draft': 'Черновик',
+    'creator.editingLink': 'Вы редактируете опубликованную ссылку «{name}». Изменения появятся по той же ссылке.',
+    'creator.createNew': 'Создать новую',
+    'creator.generateLink': 'Сгенерировать ссылку',
+    'creator.updateLink': 'Обновить ссылку',
+    'creator.saved': 'Ссылка сохранена в «Мои ссылки».',
+    'creator.publishedAndSaved': 'Ссылка опубликована и сохранена в «Мои ссылки».',
+    'creator.error.targetUrlRequired': 'Пожалуйста, заполните "Целевой URL".',
+    'creator.error.scheduleWindow': 'Окончание показа должно быть позже начала.',
+    'creator.error.redirectUrlRequired': 'Пожалуйста, укажите URL перенаправления в расписании.',
+    'creator.error.fieldRequired': 'Пожалуйста, заполните "{field}".',
+    'creator.error.fallbackFieldRequired': 'Пожалуйста, заполните "{field}" для запасного CTA.',
+    'creator.error.variantFieldRequired': 'Пожалуйста, заполните "{field}" для варианта «{variant}».',
+    'creator.error.zeroWeights': 'Хотя бы у одного варианта вес должен быть больше нуля.',
+    'creator.error.brokenRule': 'Правило таргетинга {index}: выберите существующий вариант и добавьте хотя бы одно условие.',
+    'creator.error.unsafeUrl': 'Недопустимый URL "{url}": {reason}',
+    'creator.error.updateForbidden': 'Сервис отклонил изменение: у этого браузера нет прав на редактирование ссылки.',
+    'creator.error.updateFailed': 'Не удалось обновить опубликованную ссылку.',
+    'creator.error.shortLinksUnavailable': 'Сервис коротких ссылок недоступен. Будет создана обычная ссылка.',
+    'creator.error.encodeFailed': 'Не удалось создать ссылку.',
+    'creator.error.aiInputRequired': 'Пожалуйста, укажите "Целевой URL" и адрес первой кнопки для генерации предложений.',
+
+    'preview.title': 'Предпросмотр',
+    'preview.markBlocked': 'Страница не отображается?',
+    'preview.markBlockedTitle': 'Показать, что увидят посетители, если сайт не откроется во фрейме',
+    'preview.reveal': '▶ Появление',
+    'preview.revealTitle': 'Показать появление CTA так, как его увидит посетитель',
+    'preview.undo': 'Отменить (Ctrl+Z)',
+    'preview.redo': 'Повторить (Ctrl+Shift+Z)',
+    'preview.device': 'Устройство',
+    'preview.portrait': 'Книжная ориентация',
+    'preview.landscape': 'Альбомная ориентация',
+    'preview.loadFailed': 'Не удалось загрузить предпросмотр.',
+    'preview.blocked': 'Этот сайт запрещает встраивание на другие страницы. Посетители увидят: «{fallback}».',
+    'preview.dismissed': 'CTA закрыт посетителем.',
+    'preview.waitingForExit': 'Уведите курсор за верхний край предпросмотра.',
+    'preview.revealIn': 'CTA появится через {seconds} с.',
+    'preview.showNow': 'Показать сейчас',
+    'preview.ctaLabel': 'CTA: перетащите мышью или двигайте стрелками (Shift — на 10px)',
+
+    'device.mobile': 'Телефон',
+    'device.tablet': 'Планшет',
+    'device.desktop': 'Компьютер',
+
+    'framing.mode.interstitial': 'Переход с заставкой',
+    'framing.mode.preview-card': 'Карточка страницы',
+    'framing.mode.new-tab-bar': 'Панель «Открыть в новой вкладке»',
+    'framing.redirectIn': 'Переход на {host} через {seconds} с…',
+    'framing.goNow': 'Перейти сейчас',
+    'framing.openPage': 'Открыть страницу ↗',
+    'framing.refused': '{host} не разрешает показывать страницу внутри другого сайта.',
+    'framing.openInNewTab': 'Открыть в новой вкладке',
+    'framing.slow': 'Страница долго загружается.',
+
+    'url.invalid': 'Некорректный URL.',
+    'url.scheme': 'Разрешены только адреса http:// и https://.',
+    'url.credentials': 'URL не должен содержать логин и пароль.',
+    'url.mixed-script': 'Домен смешивает латиницу с похожими символами других алфавитов.',
+    'url.blocked-domain': 'Этот домен заблокирован.',
+    'url.not-allowed-domain': 'Этот домен не входит в список разрешенных.',
+
+    // --- Schedule ---
+    'schedule.title': 'Расписание',
+    'schedule.status.scheduled': 'Запланирована',
+    'schedule.status.active': 'Активна',
+    'schedule.status.expired': 'Истекла',
+    'schedule.status.capped': 'Лимит показов исчерпан',
+    'schedule.fallback.plain': 'Показать страницу без CTA',
+    'schedule.fallback.alternate': 'Показать другой CTA',
+    'schedule.fallback.redirect': 'Перенаправить на другой URL',
+    'schedule.activeFrom': 'Начало показа',
+    'schedule.expiresAt': 'Окончание показа',
+    'schedule.invalidWindow': 'Окончание должно быть позже начала.',
+    'schedule.maxImpressions': 'Лимит показов',
+    'schedule.noLimit': 'Без лимита',
+    'schedule.localCapNote': 'Для лимита показов нужен сервер аналитики (ANALYTICS_ENDPOINT): без него каждый браузер считает только свои показы.',
+    'schedule.capHint': {
+        one: 'После {count} показа CTA перестанет отображаться.',
+        other: 'После {count} показов CTA перестанет отображаться.',
+    },
+    'schedule.outside': 'Вне расписания',
+    'schedule.redirectUrl': 'URL перенаправления',
+    'schedule.message': 'Сообщение',
+    'schedule.buttonText': 'Текст кнопки',
+
+    // --- Targeting ---
+    'targeting.title': 'Таргетинг',
+    'targeting.hint': 'Посетители, подходящие под правило, всегда видят выбранный вариант и не участвуют в случайном распределении.',
+    'targeting.condition.device': 'Устройство',
+    'targeting.condition.language': 'Язык браузера',
+    'targeting.condition.referrer': 'Источник перехода',
+    'targeting.condition.utm': 'UTM-метка',
+    'targeting.condition.time': 'Время и дни недели',
+    'targeting.anyValue': 'Любое значение',
+    'targeting.fromHour': 'с',
+    'targeting.toHour': 'до',
+    'targeting.hourUnit': 'ч',
+    'targeting.rule': 'Правило {index}',
+    'targeting.deleteRule': 'Удалить правило',
+    'targeting.deleteCondition': 'Удалить условие',
+    'targeting.addCondition': '+ Условие',
+    'targeting.show': 'Показать',
+    'targeting.deletedVariant': 'Удаленный вариант',
+    'targeting.variantDeleted': 'Вариант этого правила был удален.',
+    'targeting.noConditions': 'Правило без условий не срабатывает.',
+    'targeting.addRule': '+ Добавить правило',
+    'targeting.others': 'Остальным посетителям',
+    'targeting.byWeight': 'Случайный вариант по весам',
+
+    // --- UTM ---
+    'utm.title': 'UTM-метки',
+    'utm.param.utm_source': 'Источник (utm_source)',
+    'utm.param.utm_medium': 'Канал (utm_medium)',
+    'utm.param.utm_campaign': 'Кампания (utm_campaign)',
+    'utm.param.utm_term': 'Ключевое слово (utm_term)',
+    'utm.param.utm_content': 'Содержание (utm_content)',
+    'utm.needUrl': 'Введите полный адрес кнопки (https://…), чтобы добавить метки.',
+    'utm.presetName': 'Название набора UTM-меток',
+    'utm.confirmDeletePreset': 'Удалить набор «{name}»?',
+    'utm.applyPreset': 'Применить набор',
+    'utm.autoContent': 'Название варианта (автоматически)',
+    'utm.savePreset': 'Сохранить как набор',
+
+    // --- Brand kits ---
+    'brand.title': 'Бренд-киты и шаблоны',
+    'brand.applyTo': 'Применить к',
+    'brand.kits': 'Бренд-киты',
+    'brand.saveKit': 'Сохранить текущий стиль',
+    'brand.kitName': 'Название бренд-кита',
+    'brand.noKits': 'Сохраните цвета, шрифт и логотип, чтобы применять их одним нажатием.',
+    'brand.apply': 'Применить',
+    'brand.confirmDeleteKit': 'Удалить бренд-кит «{name}»?',
+    'brand.templates': 'Шаблоны',
+    'brand.saveTemplate': 'Сохранить как шаблон',
+    'brand.templateName': 'Название шаблона',
+    'brand.applyTemplate': 'Применить шаблон',
+    'brand.confirmDeleteTemplate': 'Удалить шаблон «{name}»?',
+    'brand.export': 'Экспорт JSON',
+    'brand.import': 'Импорт JSON',
+    'brand.importInvalid': 'Не удалось импортировать файл:\n{errors}',
+    'brand.imported': 'Импортировано: {kits}, {templates}.',
+    'brand.importedKits': { one: '{count} бренд-кит', few: '{count} бренд-кита', many: '{count} бренд-китов', other: '{count} бренд-кита' },
+    'brand.importedTemplates': { one: '{count} шаблон', few: '{count} шаблона', many: '{count} шаблонов', other: '{count} шаблона' },
+    'brand.importFailed': 'Не удалось сохранить импортированные данные.',
+    'template.classic.name': 'Классика',
+    'template.classic.message': 'Понравилась статья? Узнайте больше о нас!',
+    'template.classic.button': 'Узнать больше',
+    'template.night.name': 'Ночь',
+    'template.night.message': 'Подпишитесь на нашу рассылку',
+    'template.night.button': 'Подписаться',
+    'template.promoBanner.name': 'Промо-баннер',
+    'template.promoBanner.message': 'Скидка 20% на первый заказ',
+    'template.promoBanner.button': 'Получить скидку',
+    'template.editorial.name': 'Редакция',
+    'template.editorial.message': 'Читайте больше историй в нашем блоге',
+    'template.editorial.button': 'Читать',
+
+    // --- A/B variants and results ---
+    'ab.addVariant': 'Добавить вариант',
+    'ab.variantName': 'Название варианта',
+    'ab.weight': 'Вес',
+
+    'abResults.title': 'Результаты теста',
+    'abResults.link': 'Ссылка A/B теста',
+    'abResults.linkPlaceholder': 'Вставьте ссылку A/B теста',
+    'abResults.show': 'Показать результаты',
+    'abResults.notAbLink': 'Это не ссылка A/B теста.',
+    'abResults.loadFailed': 'Не удалось загрузить результаты для этой ссылки.',
+    'abResults.confirmWinner': '«{name}» не является статистически значимым победителем. Всё равно объявить его победителем?',
+    'abResults.variant': 'Вариант',
+    'abResults.exposures': 'Просмотры',
+    'abResults.impressions': 'Показы',
+    'abResults.clicks': 'Клики',
+    'abResults.ctr': 'CTR на просмотр (95% ДИ)',
+    'abResults.lift': 'Прирост',
+    'abResults.beatControl': 'P(лучше контроля)',
+    'abResults.declareWinner': 'Победитель',
+    'abResults.notEnoughData': {
+        one: 'Недостаточно данных: нужно не менее {count} просмотра каждого варианта.',
+        other: 'Недостаточно данных: нужно не менее {count} просмотров каждого варианта.',
+    },
+    'abResults.winner': '«{name}» статистически значимо лучше остальных (p < 0.05).',
+    'abResults.noDifference': 'Значимой разницы между вариантами пока нет.',
+    'abResults.winnerLink': 'Ссылка с победившим вариантом «{name}»:',
+    'abResults.winnerFailed': 'Не удалось создать ссылку с победившим вариантом.',
+
+    // --- Link library ---
+    'library.subtitle': 'Все созданные ссылки хранятся в этом браузере.',
+    'library.search': 'Поиск по названию, тегам или URL',
+    'library.active': 'Активные',
+    'library.archive': 'Архив',
+    'library.loadFailed': 'Не удалось загрузить сохраненные ссылки.',
+    'library.empty': 'Вы еще не создали ни одной ссылки.',
+    'library.nothingFound': 'Ничего не найдено.',
+    'library.short': 'Короткая',
+    'library.editable': 'Можно редактировать после публикации',
+    'library.copyNotEditable': 'Копия: редактирует только оригинал',
+    'library.tags': 'Теги через запятую',
+    'library.toArchive': 'В архив',
+    'library.restore': 'Восстановить',
+    'library.untitled': 'Без названия',
+
+    // --- AI copy ---
+    'settings.aiTitle': '✨ ИИ-тексты',
+    'settings.provider': 'Сервис',
+    'settings.model': 'Модель',
+    'settings.geminiHint': 'Запросы идут через ИИ-прокси (AI_PROXY_ENDPOINT), ключ Gemini хранится только на нём.',
+    'settings.baseUrl': 'Адрес API',
+    'settings.apiKey': 'Ключ API',
+    'settings.apiKeyPlaceholder': 'Не нужен для локального сервера',
+    'settings.openAiHint': 'Подойдёт любой сервер с методом /chat/completions: OpenAI, Ollama, LM Studio, vLLM. Ключ хранится только в этом браузере.',
+    'settings.mockHint': 'Готовые тексты без обращения к сети — для демонстраций и проверки интерфейса.',
+
+    'copyProvider.gemini': 'Google Gemini',
+    'copyProvider.openai': 'OpenAI-совместимый API',
+    'copyProvider.mock': 'Демо (без сети)',
+
+    'copyError.not-configured': 'ИИ-сервис не настроен. Проверьте вкладку «Настройки».',
+    'copyError.unavailable': 'ИИ-сервис недоступен. Попробуйте позже или выберите другой в настройках.',
+    'copyError.rate-limited': 'Слишком много запросов к ИИ. Подождите минуту и попробуйте снова.',
+    'copyError.invalid-response': 'ИИ-сервис вернул ответ в неожиданном формате. Попробуйте ещё раз или выберите другую модель.',
+
+    'tone.neutral': 'Нейтральный',
+    'tone.formal': 'Деловой',
+    'tone.playful': 'Игривый',
+    'tone.urgent': 'Срочный',
+
+    'ai.title': '✨ AI Предложения',
+    'ai.copyOnly': 'Только текст',
+    'ai.fullDesign': 'Полный дизайн',
+    'ai.tone': 'Тон',
+    'ai.language': 'Язык',
+    'ai.maxLength': 'Длина сообщения, до',
+    'ai.characters': '{count} симв.',
+    'ai.count': 'Вариантов',
+    'ai.generate': 'Сгенерировать',
+    'ai.preview': 'Предпросмотр предложения',
+    'ai.message': 'Сообщение:',
+    'ai.buttonText': 'Текст кнопки:',
+    'ai.use': 'Использовать',
+    'ai.addVariant': '+ Вариант A/B',
+    'ai.addVariantTitle': 'Добавить как новый вариант A/B-теста',
+    'ai.variantLimit': 'Достигнуто максимальное число вариантов',
+    'ai.failed': 'Не удалось сгенерировать предложения. Попробуйте другой URL.',
+
+    'page.summary': 'На чём основаны предложения: {title}',
+    'page.site': 'Сайт',
+    'page.description': 'Описание',
+    'page.headings': 'Заголовки',
+    'page.text': 'Текст',
+    'page.unreadable': 'Не удалось прочитать страницу — ИИ видит только её адрес.',
+    'page.unavailable': 'Чтение страницы недоступно без ИИ-прокси (AI_PROXY_ENDPOINT) — ИИ видит только её адрес.',
+
+    // --- Validation (links, imported files, AI replies) ---
+    'validation.required': 'обязательное поле',
+    'validation.string': 'ожидается строка',
+    'validation.empty': 'пустая строка',
+    'validation.maxLength': { one: 'не длиннее {count} символа', other: 'не длиннее {count} символов' },
+    'validation.number': 'ожидается число',
+    'validation.integer': 'ожидается целое число',
+    'validation.range': 'должно быть от {min} до {max}',
+    'validation.oneOf': 'допустимые значения: {values}',
+    'validation.boolean': 'ожидается true или false',
+    'validation.color': 'ожидается цвет в формате #rrggbb',
+    'validation.object': 'ожидается объект',
+    'validation.array': 'ожидается массив',
+    'validation.customPosition': 'ожидается объект { anchor, x, y }',
+    'validation.customPositionRequired': 'обязательно для позиции "custom"',
+    'validation.device': 'допустимые устройства: {values}',
+    'validation.buttons': 'ожидается массив кнопок',
+    'validation.maxButtons': { one: 'не больше {count} кнопки', other: 'не больше {count} кнопок' },
+    'validation.duplicateButtonId': 'идентификатор кнопки повторяется',
+    'validation.leadEndpointRequired': 'обязательно для формы заявки',
+    'validation.expiresBeforeStart': 'должно быть позже начала показа',
+    'validation.listLength': { one: 'ожидается список не длиннее {count} значения', other: 'ожидается список не длиннее {count} значений' },
+    'validation.weekdays': 'ожидается список дней от 0 (вс) до 6 (сб)',
+    'validation.unknownVariant': 'нет варианта с таким ключом',
+    'validation.maxRules': { one: 'ожидается не больше {count} правила', other: 'ожидается не больше {count} правил' },
+    'validation.variantCount': 'ожидается от 2 до {max} вариантов',
+    'validation.duplicateVariantKey': 'ключ варианта должен быть уникальным',
+    'validation.positiveWeight': 'хотя бы один вес должен быть больше нуля',
+    'validation.noMigration': 'неизвестная версия схемы ссылки: {version}',
+    'validation.noSuggestions': 'нет ни одного варианта',
+    'validation.headings': 'не больше {max} строк до {length} символов',
+    'validation.invalidJson': 'файл не является корректным JSON',
+    'validation.notBrandFile': 'это не файл бренд-китов Sniply',
+    'validation.newerVersion': 'файл создан более новой версией приложения',
+
+    // --- Viewer ---
+    'viewer.invalidPayload': 'Ссылка содержит некорректные данные.',
+    'viewer.invalidLink': 'Неверная или поврежденная ссылка.',
+    'viewer.redirecting': 'Перенаправление...',
+    'viewer.unsafeTitle': 'Эта ссылка может быть небезопасной',
+    'viewer.unsafeNote': 'Мы не стали открывать страницу. Если вы получили эту ссылку от незнакомца, просто закройте вкладку.',
+
+    'linkError.empty': 'Ссылка не содержит данных.',
+    'linkError.invalid-encoding': 'Ссылка повреждена: неверная кодировка.',
+    'linkError.unsupported-version': 'Ссылка создана более новой версией сервиса. Обновите страницу.',
+    'linkError.decompression-failed': 'Ссылка обрезана или повреждена.',
+    'linkError.invalid-json': 'Ссылка повреждена: неверный формат данных.',
+
+    'linkServiceError.not-found': 'Короткая ссылка не найдена. Возможно, она была удалена.',
+    'linkServiceError.forbidden': 'Нет доступа к этой ссылке.',
+    'linkServiceError.rejected': 'Сервис ссылок отклонил запрос.',
+    'linkServiceError.unavailable': 'Сервис ссылок временно недоступен. Попробуйте позже.',
+};
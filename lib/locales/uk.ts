@@ -0,0 +1,441 @@
+import { Catalog } from '../i18n';
+
+export const uk: Catalog = {
+    'app.title': 'Link Brandyler | Створіть своє CTA-посилання',
+    'app.tagline': 'Додайте свій заклик до дії на будь-яку сторінку в інтернеті.',
+    'app.language': 'Мова інтерфейсу',
+
+    'tabs.create': 'Створити',
+    'tabs.abTest': 'A/B Тести',
+    'tabs.library': 'Мої посилання',
+    'tabs.analytics': 'Аналітика',
+    'tabs.settings': 'Налаштування',
+
+    'common.copy': 'Копіювати',
+    'common.copied': 'Скопійовано!',
+    'common.delete': 'Видалити',
+    'common.confirmDelete': 'Видалити «{name}»?',
+    'common.duplicate': 'Дублювати',
+    'common.openInEditor': 'Відкрити в редакторі',
+    'common.up': 'Вище',
+    'common.down': 'Нижче',
+    'common.close': 'Закрити',
+    'common.loading': 'Завантаження...',
+
+    // --- Analytics ---
+    'analytics.subtitle': 'Відстежуйте ефективність ваших посилань.',
+    'analytics.localData': '(Дані цього браузера)',
+    'analytics.loadFailed': 'Не вдалося завантажити дані аналітики.',
+    'analytics.link': 'Посилання',
+    'analytics.allLinks': 'Усі посилання',
+    'analytics.impressions': { one: '{count} показ', few: '{count} покази', many: '{count} показів', other: '{count} показу' },
+    'analytics.clicks': { one: '{count} клік', few: '{count} кліки', many: '{count} кліків', other: '{count} кліку' },
+    'analytics.totalImpressions': 'Усього показів',
+    'analytics.totalClicks': 'Усього кліків',
+    'analytics.last30Days': 'Активність за останні 30 днів',
+    'analytics.buttonClicks': 'Кліки по кнопках',
+
+    // --- CTA form ---
+    'form.layout': 'Формат',
+    'form.message': 'Повідомлення (CTA)',
+    'form.messagePlaceholder': 'Ваше повідомлення...',
+    'form.aiButton': '✨ ШІ',
+    'form.aiButtonTitle': 'Згенерувати за допомогою ШІ',
+    'form.position': 'Позиція',
+    'form.position.left': 'Ліворуч',
+    'form.position.right': 'Праворуч',
+    'form.position.banner': 'Банер',
+    'form.position.custom': 'Перетягни',
+    'form.theme': 'Тема',
+    'form.theme.light': 'Світла',
+    'form.theme.dark': 'Темна',
+    'form.bgColor': 'Колір фону',
+    'form.advancedStyle': 'Розширений стиль',
+    'form.font': 'Шрифт',
+    'form.deviceStyleHint': 'Розмір шрифту, масштаб і заокруглення нижче застосовуються лише на пристрої «{device}».',
+    'form.sameAsDesktop': 'Як на комп\'ютері',
+    'form.fontSize': 'Розмір шрифту',
+    'form.scale': 'Масштаб',
+    'form.cornerRadius': 'Заокруглення кутів',
+    'form.behavior': 'Поведінка',
+    'form.animation': 'Анімація появи',
+    'form.showDelay': 'Показати через',
+    'form.secondsUnit': ' с',
+    'form.exitIntent': 'Показати, коли відвідувач збирається піти',
+    'form.exitIntentHint': 'CTA з\'явиться, коли курсор вийде за верхній край сторінки. На телефонах і планшетах він показується із затримкою.',
+    'form.exitIntentHintWithDelay': 'CTA з\'явиться, коли курсор вийде за верхній край сторінки, або через задану затримку. На телефонах і планшетах він показується із затримкою.',
+    'form.dismissible': 'Кнопка закриття (×)',
+
+    'layout.classic': 'Класичний',
+    'layout.top-bar': 'Смуга згори',
+    'layout.modal': 'Вікно по центру',
+    'layout.card': 'Картка із зображенням',
+    'layout.lead-form': 'Форма заявки',
+
+    'layoutField.profileImage': 'URL зображення профілю (необов\'язково)',
+    'layoutField.title': 'Заголовок',
+    'layoutField.titlePlaceholder': 'Весняний розпродаж',
+    'layoutField.heroImage': 'URL зображення картки',
+    'layoutField.leadEndpoint': 'Адреса для надсилання заявок',
+    'layoutField.successMessage': 'Повідомлення після надсилання',
+
+    'animation.slide': 'Виїзд знизу',
+    'animation.fade': 'Проявлення',
+    'animation.bounce': 'Пружина',
+
+    // --- Buttons ---
+    'buttons.title': 'Кнопки',
+    'buttons.submit': 'Кнопка надсилання',
+    'buttons.textPlaceholder': 'Текст на кнопці',
+    'buttons.text': 'Текст кнопки',
+    'buttons.color': 'Колір кнопки',
+    'buttons.action': 'Дія',
+    'buttons.style': 'Стиль',
+    'buttons.add': '+ Додати кнопку',
+
+    'button.default': 'Кнопка',
+    'button.action.url': 'Посилання',
+    'button.action.tel': 'Дзвінок',
+    'button.action.mailto': 'Email',
+    'button.action.whatsapp': 'WhatsApp',
+    'button.action.telegram': 'Telegram',
+    'button.target.url': 'URL кнопки',
+    'button.target.tel': 'Номер телефону',
+    'button.target.mailto': 'Адреса email',
+    'button.target.whatsapp': 'Номер WhatsApp',
+    'button.target.telegram': 'Ім\'я користувача Telegram',
+    'button.style.primary': 'Основна',
+    'button.style.secondary': 'Контурна',
+    'button.style.link': 'Посилання',
+    'button.error.phone': 'Введіть номер у міжнародному форматі, наприклад +380501234567.',
+    'button.error.email': 'Некоректна адреса email.',
+    'button.error.telegram': 'Ім\'я користувача: від 5 символів, латиниця, цифри та _.',
+
+    // --- The CTA as visitors see it ---
+    'cta.messagePlaceholder': 'Ваше повідомлення тут...',
+    'cta.titlePlaceholder': 'Заголовок',
+    'cta.leadSubmit': 'Надіслати',
+    'cta.leadThanks': 'Дякуємо! Ми скоро з вами зв\'яжемося.',
+    'cta.leadInvalid': 'Введіть коректний email.',
+    'cta.leadFailed': 'Не вдалося надіслати. Спробуйте ще раз.',
+
+    // --- Creator ---
+    'defaults.message': 'Просувайте свій бренд з кожним посиланням!',
+    'defaults.buttonText': 'Дізнатися більше',
+    'defaults.variantName': 'Варіант {key}',
+    'defaults.variantAMessage': 'Варіант А: Залучайте нових клієнтів!',
+    'defaults.variantBMessage': 'Варіант Б: Збільште свої продажі!',
+    'defaults.copyName': '{name} (копія)',
+    'defaults.fallbackMessage': 'Акцію завершено. Дивіться інші пропозиції!',
+
+    'creator.targetUrl': 'Цільовий URL',
+    'creator.updatePreview': 'Оновити попередній перегляд',
+    'creator.framingFallback': 'Якщо сайт забороняє вбудовування',
+    'creator.autoUtmContent': 'Додавати до URL кнопки utm_content з назвою варіанта',
+    'creator.draft': 'Чернетка',
+    'creator.editingLink': 'Ви редагуєте опубліковане посилання «{name}». Зміни з\'являться за тим самим посиланням.',
+    'creator.createNew': 'Створити нове',
+    'creator.generateLink': 'Згенерувати посилання',
+    'creator.updateLink': 'Оновити посилання',
+    'creator.saved': 'Посилання збережено в «Мої посилання».',
+    'creator.publishedAndSaved': 'Посилання опубліковано і збережено в «Мої посилання».',
+    'creator.error.targetUrlRequired': 'Будь ласка, заповніть "Цільовий URL".',
+    'creator.error.scheduleWindow': 'Кінець показу має бути пізніше за початок.',
+    'creator.error.redirectUrlRequired': 'Будь ласка, вкажіть URL перенаправлення в розкладі.',
+    'creator.error.fieldRequired': 'Будь ласка, заповніть "{field}".',
+    'creator.error.fallbackFieldRequired': 'Будь ласка, заповніть "{field}" для запасного CTA.',
+    'creator.error.variantFieldRequired': 'Будь ласка, заповніть "{field}" для варіанта «{variant}».',
+    'creator.error.zeroWeights': 'Хоча б в одного варіанта вага має бути більшою за нуль.',
+    'creator.error.brokenRule': 'Правило таргетингу {index}: виберіть наявний варіант і додайте хоча б одну умову.',
+    'creator.error.unsafeUrl': 'Неприпустимий URL "{url}": {reason}',
+    'creator.error.updateForbidden': 'Сервіс відхилив зміну: цей браузер не має прав на редагування посилання.',
+    'creator.error.updateFailed': 'Не вдалося оновити опубліковане посилання.',
+    'creator.error.shortLinksUnavailable': 'Сервіс коротких посилань недоступний. Буде створено звичайне посилання.',
+    'creator.error.encodeFailed': 'Не вдалося створити посилання.',
+    'creator.error.aiInputRequired': 'Будь ласка, вкажіть "Цільовий URL" і адресу першої кнопки для генерації пропозицій.',
+
+    'preview.title': 'Попередній перегляд',
+    'preview.markBlocked': 'Сторінка не відображається?',
+    'preview.markBlockedTitle': 'Показати, що побачать відвідувачі, якщо сайт не відкриється у фреймі',
+    'preview.reveal': '▶ Поява',
+    'preview.revealTitle': 'Показати появу CTA так, як її побачить відвідувач',
+    'preview.undo': 'Скасувати (Ctrl+Z)',
+    'preview.redo': 'Повторити (Ctrl+Shift+Z)',
+    'preview.device': 'Пристрій',
+    'preview.portrait': 'Книжкова орієнтація',
+    'preview.landscape': 'Альбомна орієнтація',
+    'preview.loadFailed': 'Не вдалося завантажити попередній перегляд.',
+    'preview.blocked': 'Цей сайт забороняє вбудовування в інші сторінки. Відвідувачі побачать: «{fallback}».',
+    'preview.dismissed': 'Відвідувач закрив CTA.',
+    'preview.waitingForExit': 'Виведіть курсор за верхній край попереднього перегляду.',
+    'preview.revealIn': 'CTA з\'явиться через {seconds} с.',
+    'preview.showNow': 'Показати зараз',
+    'preview.ctaLabel': 'CTA: перетягніть мишею або рухайте стрілками (Shift — на 10px)',
+
+    'device.mobile': 'Телефон',
+    'device.tablet': 'Планшет',
+    'device.desktop': 'Комп\'ютер',
+
+    'framing.mode.interstitial': 'Перехід із заставкою',
+    'framing.mode.preview-card': 'Картка сторінки',
+    'framing.mode.new-tab-bar': 'Панель «Відкрити в новій вкладці»',
+    'framing.redirectIn': 'Перехід на {host} через {seconds} с…',
+    'framing.goNow': 'Перейти зараз',
+    'framing.openPage': 'Відкрити сторінку ↗',
+    'framing.refused': '{host} не дозволяє показувати сторінку всередині іншого сайту.',
+    'framing.openInNewTab': 'Відкрити в новій вкладці',
+    'framing.slow': 'Сторінка довго завантажується.',
+
+    'url.invalid': 'Некоректний URL.',
+    'url.scheme': 'Дозволені лише адреси http:// і https://.',
+    'url.credentials': 'URL не повинен містити логін і пароль.',
+    'url.mixed-script': 'Домен змішує латиницю зі схожими символами інших алфавітів.',
+    'url.blocked-domain': 'Цей домен заблоковано.',
+    'url.not-allowed-domain': 'Цей домен не входить до списку дозволених.',
+
+    // --- Schedule ---
+    'schedule.title': 'Розклад',
+    'schedule.status.scheduled': 'Заплановано',
+    'schedule.status.active': 'Активне',
+    'schedule.status.expired': 'Закінчилося',
+    'schedule.status.capped': 'Ліміт показів вичерпано',
+    'schedule.fallback.plain': 'Показати сторінку без CTA',
+    'schedule.fallback.alternate': 'Показати інший CTA',
+    'schedule.fallback.redirect': 'Перенаправити на інший URL',
+    'schedule.activeFrom': 'Початок показу',
+    'schedule.expiresAt': 'Кінець показу',
+    'schedule.invalidWindow': 'Кінець має бути пізніше за початок.',
+    'schedule.maxImpressions': 'Ліміт показів',
+    'schedule.noLimit': 'Без ліміту',
+    'schedule.localCapNote': 'Для ліміту показів потрібен сервер аналітики (ANALYTICS_ENDPOINT): без нього кожен браузер рахує лише свої покази.',
+    'schedule.capHint': {
+        one: 'Після {count} показу CTA перестане відображатися.',
+        other: 'Після {count} показів CTA перестане відображатися.',
+    },
+    'schedule.outside': 'Поза розкладом',
+    'schedule.redirectUrl': 'URL перенаправлення',
+    'schedule.message': 'Повідомлення',
+    'schedule.buttonText': 'Текст кнопки',
+
+    // --- Targeting ---
+    'targeting.title': 'Таргетинг',
+    'targeting.hint': 'Відвідувачі, які відповідають правилу, завжди бачать вибраний варіант і не беруть участі у випадковому розподілі.',
+    'targeting.condition.device': 'Пристрій',
+    'targeting.condition.language': 'Мова браузера',
+    'targeting.condition.referrer': 'Джерело переходу',
+    'targeting.condition.utm': 'UTM-мітка',
+    'targeting.condition.time': 'Час і дні тижня',
+    'targeting.anyValue': 'Будь-яке значення',
+    'targeting.fromHour': 'з',
+    'targeting.toHour': 'до',
+    'targeting.hourUnit': 'год',
+    'targeting.rule': 'Правило {index}',
+    'targeting.deleteRule': 'Видалити правило',
+    'targeting.deleteCondition': 'Видалити умову',
+    'targeting.addCondition': '+ Умова',
+    'targeting.show': 'Показати',
+    'targeting.deletedVariant': 'Видалений варіант',
+    'targeting.variantDeleted': 'Варіант цього правила було видалено.',
+    'targeting.noConditions': 'Правило без умов не спрацьовує.',
+    'targeting.addRule': '+ Додати правило',
+    'targeting.others': 'Іншим відвідувачам',
+    'targeting.byWeight': 'Випадковий варіант за вагами',
+
+    // --- UTM ---
+    'utm.title': 'UTM-мітки',
+    'utm.param.utm_source': 'Джерело (utm_source)',
+    'utm.param.utm_medium': 'Канал (utm_medium)',
+    'utm.param.utm_campaign': 'Кампанія (utm_campaign)',
+    'utm.param.utm_term': 'Ключове слово (utm_term)',
+    'utm.param.utm_content': 'Вміст (utm_content)',
+    'utm.needUrl': 'Введіть повну адресу кнопки (https://…), щоб додати мітки.',
+    'utm.presetName': 'Назва набору UTM-міток',
+    'utm.confirmDeletePreset': 'Видалити набір «{name}»?',
+    'utm.applyPreset': 'Застосувати набір',
+    'utm.autoContent': 'Назва варіанта (автоматично)',
+    'utm.savePreset': 'Зберегти як набір',
+
+    // --- Brand kits ---
+    'brand.title': 'Бренд-кити та шаблони',
+    'brand.applyTo': 'Застосувати до',
+    'brand.kits': 'Бренд-кити',
+    'brand.saveKit': 'Зберегти поточний стиль',
+    'brand.kitName': 'Назва бренд-кита',
+    'brand.noKits': 'Збережіть кольори, шрифт і логотип, щоб застосовувати їх одним натисканням.',
+    'brand.apply': 'Застосувати',
+    'brand.confirmDeleteKit': 'Видалити бренд-кит «{name}»?',
+    'brand.templates': 'Шаблони',
+    'brand.saveTemplate': 'Зберегти як шаблон',
+    'brand.templateName': 'Назва шаблону',
+    'brand.applyTemplate': 'Застосувати шаблон',
+    'brand.confirmDeleteTemplate': 'Видалити шаблон «{name}»?',
+    'brand.export': 'Експорт JSON',
+    'brand.import': 'Імпорт JSON',
+    'brand.importInvalid': 'Не вдалося імпортувати файл:\n{errors}',
+    'brand.imported': 'Імпортовано: {kits}, {templates}.',
+    'brand.importedKits': { one: '{count} бренд-кит', few: '{count} бренд-кити', many: '{count} бренд-китів', other: '{count} бренд-кита' },
+    'brand.importedTemplates': { one: '{count} шаблон', few: '{count} шаблони', many: '{count} шаблонів', other: '{count} шаблону' },
+    'brand.importFailed': 'Не вдалося зберегти імпортовані дані.',
+    'template.classic.name': 'Класика',
+    'template.classic.message': 'Сподобалася стаття? Дізнайтеся більше про нас!',
+    'template.classic.button': 'Дізнатися більше',
+    'template.night.name': 'Ніч',
+    'template.night.message': 'Підпишіться на нашу розсилку',
+    'template.night.button': 'Підписатися',
+    'template.promoBanner.name': 'Промобанер',
+    'template.promoBanner.message': 'Знижка 20% на перше замовлення',
+    'template.promoBanner.button': 'Отримати знижку',
+    'template.editorial.name': 'Редакція',
+    'template.editorial.message': 'Читайте більше історій у нашому блозі',
+    'template.editorial.button': 'Читати',
+
+    // --- A/B variants and results ---
+    'ab.addVariant': 'Додати варіант',
+    'ab.variantName': 'Назва варіанта',
+    'ab.weight': 'Вага',
+
+    'abResults.title': 'Результати тесту',
+    'abResults.link': 'Посилання A/B тесту',
+    'abResults.linkPlaceholder': 'Вставте посилання A/B тесту',
+    'abResults.show': 'Показати результати',
+    'abResults.notAbLink': 'Це не посилання A/B тесту.',
+    'abResults.loadFailed': 'Не вдалося завантажити результати для цього посилання.',
+    'abResults.confirmWinner': '«{name}» не є статистично значущим переможцем. Все одно оголосити його переможцем?',
+    'abResults.variant': 'Варіант',
+    'abResults.exposures': 'Перегляди',
+    'abResults.impressions': 'Покази',
+    'abResults.clicks': 'Кліки',
+    'abResults.ctr': 'CTR на перегляд (95% ДІ)',
+    'abResults.lift': 'Приріст',
+    'abResults.beatControl': 'P(краще за контроль)',
+    'abResults.declareWinner': 'Переможець',
+    'abResults.notEnoughData': {
+        one: 'Недостатньо даних: потрібно щонайменше {count} перегляд кожного варіанта.',
+        few: 'Недостатньо даних: потрібно щонайменше {count} перегляди кожного варіанта.',
+        other: 'Недостатньо даних: потрібно щонайменше {count} переглядів кожного варіанта.',
+    },
+    'abResults.winner': '«{name}» статистично значуще кращий за інші (p < 0.05).',
+    'abResults.noDifference': 'Значущої різниці між варіантами поки немає.',
+    'abResults.winnerLink': 'Посилання з варіантом-переможцем «{name}»:',
+    'abResults.winnerFailed': 'Не вдалося створити посилання з варіантом-переможцем.',
+
+    // --- Link library ---
+    'library.subtitle': 'Усі створені посилання зберігаються в цьому браузері.',
+    'library.search': 'Пошук за назвою, тегами або URL',
+    'library.active': 'Активні',
+    'library.archive': 'Архів',
+    'library.loadFailed': 'Не вдалося завантажити збережені посилання.',
+    'library.empty': 'Ви ще не створили жодного посилання.',
+    'library.nothingFound': 'Нічого не знайдено.',
+    'library.short': 'Коротке',
+    'library.editable': 'Можна редагувати після публікації',
+    'library.copyNotEditable': 'Копія: редагує лише оригінал',
+    'library.tags': 'Теги через кому',
+    'library.toArchive': 'В архів',
+    'library.restore': 'Відновити',
+    'library.untitled': 'Без назви',
+
+    // --- AI copy ---
+    'settings.aiTitle': '✨ ШІ-тексти',
+    'settings.provider': 'Сервіс',
+    'settings.model': 'Модель',
+    'settings.geminiHint': 'Запити йдуть через ШІ-проксі (AI_PROXY_ENDPOINT), ключ Gemini зберігається лише на ньому.',
+    'settings.baseUrl': 'Адреса API',
+    'settings.apiKey': 'Ключ API',
+    'settings.apiKeyPlaceholder': 'Не потрібен для локального сервера',
+    'settings.openAiHint': 'Підійде будь-який сервер з методом /chat/completions: OpenAI, Ollama, LM Studio, vLLM. Ключ зберігається лише в цьому браузері.',
+    'settings.mockHint': 'Готові тексти без звернення до мережі — для демонстрацій і перевірки інтерфейсу.',
+
+    'copyProvider.gemini': 'Google Gemini',
+    'copyProvider.openai': 'OpenAI-сумісний API',
+    'copyProvider.mock': 'Демо (без мережі)',
+
+    'copyError.not-configured': 'ШІ-сервіс не налаштовано. Перевірте вкладку «Налаштування».',
+    'copyError.unavailable': 'ШІ-сервіс недоступний. Спробуйте пізніше або виберіть інший у налаштуваннях.',
+    'copyError.rate-limited': 'Забагато запитів до ШІ. Зачекайте хвилину і спробуйте знову.',
+    'copyError.invalid-response': 'ШІ-сервіс повернув відповідь у неочікуваному форматі. Спробуйте ще раз або виберіть іншу модель.',
+
+    'tone.neutral': 'Нейтральний',
+    'tone.formal': 'Діловий',
+    'tone.playful': 'Грайливий',
+    'tone.urgent': 'Терміновий',
+
+    'ai.title': '✨ ШІ-пропозиції',
+    'ai.copyOnly': 'Лише текст',
+    'ai.fullDesign': 'Повний дизайн',
+    'ai.tone': 'Тон',
+    'ai.language': 'Мова',
+    'ai.maxLength': 'Довжина повідомлення, до',
+    'ai.characters': '{count} симв.',
+    'ai.count': 'Варіантів',
+    'ai.generate': 'Згенерувати',
+    'ai.preview': 'Попередній перегляд пропозиції',
+    'ai.message': 'Повідомлення:',
+    'ai.buttonText': 'Текст кнопки:',
+    'ai.use': 'Використати',
+    'ai.addVariant': '+ Варіант A/B',
+    'ai.addVariantTitle': 'Додати як новий варіант A/B-тесту',
+    'ai.variantLimit': 'Досягнуто максимальної кількості варіантів',
+    'ai.failed': 'Не вдалося згенерувати пропозиції. Спробуйте інший URL.',
+
+    'page.summary': 'На чому ґрунтуються пропозиції: {title}',
+    'page.site': 'Сайт',
+    'page.description': 'Опис',
+    'page.headings': 'Заголовки',
+    'page.text': 'Текст',
+    'page.unreadable': 'Не вдалося прочитати сторінку — ШІ бачить лише її адресу.',
+    'page.unavailable': 'Читання сторінки недоступне без ШІ-проксі (AI_PROXY_ENDPOINT) — ШІ бачить лише її адресу.',
+
+    // --- Validation (links, imported files, AI replies) ---
+    'validation.required': 'обов\'язкове поле',
+    'validation.string': 'очікується рядок',
+    'validation.empty': 'порожній рядок',
+    'validation.maxLength': { one: 'не довше {count} символу', other: 'не довше {count} символів' },
+    'validation.number': 'очікується число',
+    'validation.integer': 'очікується ціле число',
+    'validation.range': 'має бути від {min} до {max}',
+    'validation.oneOf': 'допустимі значення: {values}',
+    'validation.boolean': 'очікується true або false',
+    'validation.color': 'очікується колір у форматі #rrggbb',
+    'validation.object': 'очікується об\'єкт',
+    'validation.array': 'очікується масив',
+    'validation.customPosition': 'очікується об\'єкт { anchor, x, y }',
+    'validation.customPositionRequired': 'обов\'язково для позиції "custom"',
+    'validation.device': 'допустимі пристрої: {values}',
+    'validation.buttons': 'очікується масив кнопок',
+    'validation.maxButtons': { one: 'не більше {count} кнопки', other: 'не більше {count} кнопок' },
+    'validation.duplicateButtonId': 'ідентифікатор кнопки повторюється',
+    'validation.leadEndpointRequired': 'обов\'язково для форми заявки',
+    'validation.expiresBeforeStart': 'має бути пізніше за початок показу',
+    'validation.listLength': { one: 'очікується список не довше {count} значення', other: 'очікується список не довше {count} значень' },
+    'validation.weekdays': 'очікується список днів від 0 (нд) до 6 (сб)',
+    'validation.unknownVariant': 'немає варіанта з таким ключем',
+    'validation.maxRules': { one: 'очікується не більше {count} правила', other: 'очікується не більше {count} правил' },
+    'validation.variantCount': 'очікується від 2 до {max} варіантів',
+    'validation.duplicateVariantKey': 'ключ варіанта має бути унікальним',
+    'validation.positiveWeight': 'хоча б одна вага має бути більшою за нуль',
+    'validation.noMigration': 'невідома версія схеми посилання: {version}',
+    'validation.noSuggestions': 'жодного варіанта',
+    'validation.headings': 'не більше {max} рядків до {length} символів',
+    'validation.invalidJson': 'файл не є коректним JSON',
+    'validation.notBrandFile': 'це не файл бренд-китів Sniply',
+    'validation.newerVersion': 'файл створено новішою версією застосунку',
+
+    // --- Viewer ---
+    'viewer.invalidPayload': 'Посилання містить некоректні дані.',
+    'viewer.invalidLink': 'Неправильне або пошкоджене посилання.',
+    'viewer.redirecting': 'Перенаправлення...',
+    'viewer.unsafeTitle': 'Це посилання може бути небезпечним',
+    'viewer.unsafeNote': 'Ми не стали відкривати сторінку. Якщо ви отримали це посилання від незнайомця, просто закрийте вкладку.',
+
+    'linkError.empty': 'Посилання не містить даних.',
+    'linkError.invalid-encoding': 'Посилання пошкоджене: неправильне кодування.',
+    'linkError.unsupported-version': 'Посилання створене новішою версією сервісу. Оновіть сторінку.',
+    'linkError.decompression-failed': 'Посилання обрізане або пошкоджене.',
+    'linkError.invalid-json': 'Посилання пошкоджене: неправильний формат даних.',
+
+    'linkServiceError.not-found': 'Коротке посилання не знайдено. Можливо, його було видалено.',
+    'linkServiceError.forbidden': 'Немає доступу до цього посилання.',
+    'linkServiceError.rejected': 'Сервіс посилань відхилив запит.',
+    'linkServiceError.unavailable': 'Сервіс посилань тимчасово недоступний. Спробуйте пізніше.',
+};
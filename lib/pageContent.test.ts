@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { PageContent, summarizePage, validatePageContent } from './pageContent';
+
+const page: PageContent = {
+    url: 'https://shop.example/sale',
+    title: 'Распродажа',
+    description: 'Скидки до 50% на всё',
+    openGraph: { site_name: 'Shop', description: 'Скидки до 50% на всё' },
+    headings: ['Обувь', 'Куртки'],
+    text: 'Летняя распродажа продлится до конца месяца. '.repeat(20),
+};
+
+describe('validatePageContent', () => {
+    it('accepts an extraction reply and drops empty fields', () => {
+        expect(validatePageContent({ ...page, title: '', openGraph: { ...page.openGraph, type: '' } }).value)
+            .toEqual({ ...page, title: undefined, openGraph: page.openGraph });
+    });
+
+    it('rejects malformed replies with paths', () => {
+        const result = validatePageContent({ url: 42, openGraph: { title: 1 }, headings: 'Обувь' });
+        expect(result.errors.map(e => e.path)).toEqual(['url', 'headings', 'openGraph.title']);
+    });
+});
+
+describe('summarizePage', () => {
+    it('lists metadata without repeating it, then the text', () => {
+        const summary = summarizePage(page);
+        expect(summary).toMatch(/^Title: Распродажа\nSite: Shop\nDescription: Скидки до 50% на всё\nHeadings: Обувь \| Куртки\nText: Летняя/);
+        expect(summary).not.toContain('Share description');
+    });
+
+    it('cuts the text at a word to fit the limit', () => {
+        const summary = summarizePage(page, 200);
+        expect(summary.length).toBeLessThanOrEqual(200);
+        expect(summary).toMatch(/[а-я]…$/);
+    });
+});
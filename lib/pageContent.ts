@@ -0,0 +1,100 @@
+/**
+ * What the target page says, read by the AI proxy (a browser can't fetch
+ * other sites' pages), so AI copy is based on the page rather than its URL.
+ * Protocol: see server/aiProxy.mjs (POST /extract).
+ */
+import { FieldError, FieldReader, ValidationResult, isRecord } from './payloadSchema';
+import { aiProxyEndpoint } from './aiProxy';
+
+export interface PageContent {
+    /** The page actually read, after redirects. */
+    url: string;
+    title?: string;
+    description?: string;
+    /** Open Graph tags without the `og:` prefix, e.g. `site_name`. */
+    openGraph: Record<string, string>;
+    headings: string[];
+    text: string;
+}
+
+/** Characters of page content that go into the prompt. */
+export const PAGE_SUMMARY_LIMIT = 3000;
+const MAX_FIELD_LENGTH = 300;
+const MAX_TEXT_LENGTH = 8000;
+const MAX_HEADINGS = 20;
+
+export const isPageContentEnabled = () => !!aiProxyEndpoint();
+
+export const validatePageContent = (value: unknown): ValidationResult<PageContent> => {
+    if (!isRecord(value)) return { ok: false, errors: [{ path: '(root)', message: 'validation.object' }] };
+    const errors: FieldError[] = [];
+    const r = new FieldReader(value, '');
+    const url = r.string('url', { required: true, maxLength: 2048 });
+    const title = r.string('title', { maxLength: MAX_FIELD_LENGTH });
+    const description = r.string('description', { maxLength: MAX_FIELD_LENGTH });
+    const text = r.string('text', { maxLength: MAX_TEXT_LENGTH }) ?? '';
+
+    const openGraph: Record<string, string> = {};
+    if (isRecord(value.openGraph)) {
+        const og = new FieldReader(value.openGraph, 'openGraph');
+        for (const key of Object.keys(value.openGraph)) {
+            const tag = og.string(key, { maxLength: MAX_FIELD_LENGTH });
+            if (tag) openGraph[key] = tag;
+        }
+        errors.push(...og.errors);
+    } else if (value.openGraph !== undefined) {
+        r.fail('openGraph', 'validation.object');
+    }
+
+    const headings = Array.isArray(value.headings) ? value.headings : [];
+    if (value.headings !== undefined && !Array.isArray(value.headings)) r.fail('headings', 'validation.array');
+    if (headings.length > MAX_HEADINGS || headings.some(h => typeof h !== 'string' || h.length > MAX_FIELD_LENGTH)) {
+        r.fail('headings', 'validation.headings', { max: MAX_HEADINGS, length: MAX_FIELD_LENGTH });
+    }
+
+    errors.unshift(...r.errors);
+    if (errors.length) return { ok: false, errors };
+    return {
+        ok: true,
+        value: {
+            url,
+            ...(title ? { title } : {}),
+            ...(description ? { description } : {}),
+            openGraph,
+            headings,
+            text,
+        },
+    };
+};
+
+export const fetchPageContent = async (url: string): Promise<PageContent> => {
+    const response = await fetch(`${aiProxyEndpoint()}/extract`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+    });
+    if (!response.ok) throw new Error(`Page extraction returned ${response.status}`);
+    const result = validatePageContent(await response.json());
+    if (!result.ok) throw new Error(`Page extraction reply failed validation: ${result.errors.map(e => `${e.path}: ${e.message}`).join('; ')}`);
+    return result.value;
+};
+
+/**
+ * Plain-text digest of the page for the prompt: metadata, headings, then as
+ * much of the main text as fits in `limit` characters.
+ */
+export const summarizePage = (page: PageContent, limit = PAGE_SUMMARY_LIMIT): string => {
+    const { title, description, openGraph, headings, text } = page;
+    const lines = [
+        title && `Title: ${title}`,
+        openGraph.site_name && `Site: ${openGraph.site_name}`,
+        openGraph.title && openGraph.title !== title && `Share title: ${openGraph.title}`,
+        description && `Description: ${description}`,
+        openGraph.description && openGraph.description !== description && `Share description: ${openGraph.description}`,
+        headings.length > 0 && `Headings: ${headings.join(' | ')}`,
+    ].filter(Boolean).join('\n').slice(0, limit);
+    const room = limit - lines.length - '\nText: '.length;
+    if (!text || room < 50) return lines;
+    const excerpt = text.length > room ? `${text.slice(0, room - 1).replace(/\s+\S*$/, '')}…` : text;
+    return lines ? `${lines}\nText: ${excerpt}` : `Text: ${excerpt}`;
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { parseLinkPayload } from './payloadSchema';
+
+const cta = { message: 'Привет', buttonText: 'Купить', buttonUrl: 'https://shop.example' };
+
+describe('parseLinkPayload', () => {
+    it('fills in styling defaults for a legacy single link', () => {
+        const result = parseLinkPayload({ type: 'single', data: { ...cta, targetUrl: 'https://example.com' } }, 0);
+        expect(result.ok).toBe(true);
+        expect(result.value).toMatchObject({ type: 'single', data: { theme: 'light', fontSize: 14, targetUrl: 'https://example.com' } });
+    });
+
+    it('reads legacy links exactly like v1 links', () => {
+        const payload = { type: 'single', data: { ...cta, targetUrl: 'https://example.com', theme: 'dark', scale: 1.2 } };
+        expect(parseLinkPayload(payload, 0)).toEqual(parseLinkPayload(payload, 1));
+    });
+
+    it('migrates v1 A/B tuples with weights to named variants', () => {
+        const result = parseLinkPayload({ type: 'ab', targetUrl: 'https://example.com', variants: [cta, cta], weights: [70, 30] }, 1);
+        expect(result.ok).toBe(true);
+        expect(result.value.type === 'ab' && result.value.variants.map(v => [v.key, v.name, v.weight])).toEqual([['A', 'A', 70], ['B', 'B', 30]]);
+    });
+
+    it('reports per-field errors with paths', () => {
+        const result = parseLinkPayload({
+            type: 'ab',
+            targetUrl: 'https://example.com',
+            variants: [
+                { key: 'A', name: 'A', weight: 1, data: { ...cta, bgColor: 'red' } },
+                { key: 'A', name: 'B', weight: 1, data: cta },
+            ],
+        }, 2);
+        expect(result.ok).toBe(false);
+        expect(result.errors.map(e => e.path)).toEqual(['variants.0.data.bgColor', 'variants.1.key']);
+    });
+
+    it('checks types, lengths and ranges', () => {
+        const result = parseLinkPayload({
+            type: 'single',
+            data: { ...cta, targetUrl: 'https://example.com', message: 'a'.repeat(501), theme: 'sepia', fontSize: 40, scale: '1' },
+        }, 1);
+        expect(result.errors.map(e => e.path)).toEqual(['data.message', 'data.theme', 'data.fontSize', 'data.scale']);
+    });
+
+    it('requires the message, the target URL and coordinates for a custom position', () => {
+        const { message, ...noMessage } = cta;
+        expect(parseLinkPayload({ type: 'single', data: noMessage }, 1).errors.map(e => e.path)).toEqual(['data.message', 'data.targetUrl']);
+        const custom = parseLinkPayload({ type: 'single', data: { ...cta, targetUrl: 'https://example.com', position: 'custom' } }, 1);
+        expect(custom.errors.map(e => e.path)).toEqual(['data.customPosition']);
+    });
+
+    it('keeps behaviour options only when present and checks them', () => {
+        const single = (data: object) => parseLinkPayload({ type: 'single', data: { ...cta, targetUrl: 'https://example.com', ...data } }, 2);
+        expect(single({}).value).not.toHaveProperty('data.animation');
+        expect(single({ dismissible: true, showDelay: 5, animation: 'fade' }).value).toMatchObject({ data: { dismissible: true, showDelay: 5, animation: 'fade' } });
+        expect(single({ dismissible: 'yes', showDelay: 600, animation: 'spin' }).errors.map(e => e.path)).toEqual(['data.dismissible', 'data.showDelay', 'data.animation']);
+    });
+
+    it('requires an endpoint for lead forms', () => {
+        const single = (data: object) => parseLinkPayload({ type: 'single', data: { ...cta, targetUrl: 'https://example.com', layout: 'lead-form', ...data } }, 2);
+        expect(single({}).errors.map(e => e.path)).toEqual(['data.leadEndpoint']);
+        expect(single({ leadEndpoint: 'https://crm.example/leads' }).value).toMatchObject({ data: { layout: 'lead-form', leadEndpoint: 'https://crm.example/leads' } });
+    });
+
+    it('migrates v2 single-button CTAs to a list of buttons', () => {
+        const result = parseLinkPayload({ type: 'single', data: { ...cta, targetUrl: 'https://example.com' } }, 2);
+        expect(result.value).toMatchObject({ data: { buttons: [{ id: 'main', text: 'Купить', action: 'url', target: 'https://shop.example' }] } });
+        expect(result.value).not.toHaveProperty('data.buttonText');
+    });
+
+    it('checks buttons', () => {
+        const button = { id: 'b1', text: 'Позвонить', action: 'tel', target: '+79001234567', style: 'secondary', color: '#000000' };
+        const single = (buttons: object[]) => parseLinkPayload({ type: 'single', data: { message: 'Привет', buttons, targetUrl: 'https://example.com' } }, 3);
+        expect(single([button]).value).toMatchObject({ data: { buttons: [button] } });
+        expect(single([button, { ...button, id: 'b2', action: 'fax' }]).errors.map(e => e.path)).toEqual(['data.buttons.1.action']);
+        expect(single([button, button]).errors.map(e => e.path)).toEqual(['data.buttons.1.id']);
+    });
+
+    it('migrates v3 pixel positions and checks placements', () => {
+        const single = (customPosition: object, version: number) =>
+            parseLinkPayload({ type: 'single', data: { message: 'Привет', buttons: [], targetUrl: 'https://example.com', position: 'custom', customPosition } }, version);
+        expect(single({ x: 128, y: 72 }, 3).value).toMatchObject({ data: { customPosition: { anchor: 'top-left', x: 10, y: 10 } } });
+        expect(single({ anchor: 'corner', x: 150, y: 0 }, 4).errors.map(e => e.path)).toEqual(['data.customPosition.anchor', 'data.customPosition.x']);
+    });
+
+    it('checks per-device style overrides', () => {
+        const single = (deviceOverrides: object) =>
+            parseLinkPayload({ type: 'single', data: { message: 'Привет', buttons: [], targetUrl: 'https://example.com', deviceOverrides } }, 4);
+        expect(single({ mobile: { scale: 0.7, fontSize: 12 } }).value).toMatchObject({ data: { deviceOverrides: { mobile: { scale: 0.7, fontSize: 12 } } } });
+        expect(single({ desktop: { scale: 1 }, tablet: { cornerRadius: 40 } }).errors.map(e => e.path))
+            .toEqual(['data.deviceOverrides.desktop', 'data.deviceOverrides.tablet.cornerRadius']);
+    });
+
+    it('rejects unknown payload types', () => {
+        expect(parseLinkPayload({ type: 'carousel' }, 2).errors).toEqual([{ path: 'type', message: 'validation.oneOf', params: { values: 'single, ab' } }]);
+    });
+});
+
+describe('framing fallback', () => {
+    const single = { type: 'single', data: { ...cta, targetUrl: 'https://example.com' } };
+
+    it('keeps a valid mode and leaves it out when absent', () => {
+        expect(parseLinkPayload({ ...single, fallback: 'interstitial' }, 2).value.fallback).toBe('interstitial');
+        expect(parseLinkPayload(single, 2).value).not.toHaveProperty('fallback');
+    });
+
+    it('rejects unknown modes', () => {
+        expect(parseLinkPayload({ ...single, fallback: 'popup' }, 2).errors.map(e => e.path)).toEqual(['fallback']);
+    });
+});
+
+describe('schedule', () => {
+    const single = { type: 'single', data: { ...cta, targetUrl: 'https://example.com' } };
+
+    it('defaults the fallback to the plain page', () => {
+        const result = parseLinkPayload({ ...single, schedule: { expiresAt: 1000 } }, 2);
+        expect(result.value.schedule).toEqual({ expiresAt: 1000, fallback: { type: 'plain' } });
+    });
+
+    it('validates the window, the cap and the fallback', () => {
+        const result = parseLinkPayload({
+            ...single,
+            schedule: { activeFrom: 2000, expiresAt: 1000, maxImpressions: 1.5, fallback: { type: 'redirect' } },
+        }, 2);
+        expect(result.errors.map(e => e.path)).toEqual(['schedule.maxImpressions', 'schedule.expiresAt', 'schedule.fallback.url']);
+    });
+});
+
+describe('targeting', () => {
+    const ab = {
+        type: 'ab',
+        targetUrl: 'https://example.com',
+        variants: [{ key: 'A', name: 'A', weight: 1, data: cta }, { key: 'B', name: 'B', weight: 0, data: cta }],
+    };
+
+    it('accepts rules that point at existing variants', () => {
+        const targeting = { rules: [{ id: 'r1', variant: 'B', conditions: [{ type: 'device', devices: ['mobile'] }] }], defaultVariant: 'A' };
+        expect(parseLinkPayload({ ...ab, targeting }, 2).value).toMatchObject({ targeting });
+    });
+
+    it('reports unknown variants and malformed conditions', () => {
+        const targeting = {
+            rules: [{ id: 'r1', variant: 'Z', conditions: [{ type: 'device', devices: ['watch'] }, { type: 'time', fromHour: 9, toHour: 30, weekdays: [] }] }],
+        };
+        expect(parseLinkPayload({ ...ab, targeting }, 2).errors.map(e => e.path)).toEqual([
+            'targeting.rules.0.variant',
+            'targeting.rules.0.conditions.0.devices.0',
+            'targeting.rules.0.conditions.1.toHour',
+        ]);
+    });
+});
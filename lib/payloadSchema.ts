@@ -0,0 +1,577 @@
+/**
+ * Runtime validation and migration for LinkPayload values decoded from a link.
+ *
+ * The codec only guarantees well-formed JSON; everything below checks that the
+ * JSON actually describes something CtaComponent can render.
+ */
+import { AbVariant, CtaButton, CtaData, CtaStyleOverride, OverrideDevice, LinkPayload, LinkSchedule, ScheduleFallback, Targeting, TargetingCondition, TargetingRule } from '../types';
+import { LINK_SCHEMA_VERSION } from './linkCodec';
+import { variantKey } from './abAssignment';
+import { FRAMING_FALLBACKS } from './framing';
+import { MAX_IMPRESSIONS_LIMIT } from './schedule';
+import { DEVICE_TYPES, MAX_TARGETING_RULES, UTM_PARAMS } from './targeting';
+import { CTA_ANIMATIONS, MAX_SHOW_DELAY_SECONDS } from './ctaBehavior';
+import { CTA_LAYOUTS } from './ctaLayouts';
+import { BUTTON_ACTIONS, BUTTON_STYLES, DEFAULT_BUTTON_COLOR, MAX_CTA_BUTTONS, upgradeLegacyButtons } from './ctaButtons';
+import { CTA_ANCHORS, upgradeLegacyPlacement } from './ctaPlacement';
+import { mapPayloadCtas } from './storedCta';
+import { MIN_DEVICE_SCALE, OVERRIDE_DEVICES } from './devices';
+import { MessageKey, MessageParams } from './i18n';
+
+export interface FieldError {
+    /** Dotted path to the offending field, e.g. `variants.1.data.buttons.0.color`. */
+    path: string;
+    message: MessageKey;
+    params?: MessageParams;
+}
+
+// The optional `never` members keep both fields readable without strictNullChecks,
+// where boolean discriminants don't narrow.
+export type ValidationResult<T> =
+    | { ok: true; value: T; errors?: never }
+    | { ok: false; errors: FieldError[]; value?: never };
+
+/** Styling defaults applied when an optional field is missing from a payload. */
+export const CTA_STYLE_DEFAULTS: Pick<CtaData, 'position' | 'theme' | 'bgColor' | 'fontFamily' | 'fontSize' | 'scale' | 'cornerRadius'> = {
+    position: 'bottom-left',
+    theme: 'light',
+    bgColor: '#ffffff',
+    fontFamily: "'Inter', sans-serif",
+    fontSize: 14,
+    scale: 1,
+    cornerRadius: 8,
+};
+
+const POSITIONS: CtaData['position'][] = ['bottom-left', 'bottom-right', 'bottom-banner', 'custom'];
+const THEMES: CtaData['theme'][] = ['light', 'dark'];
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const MAX_TEXT_LENGTH = 500;
+const MAX_URL_LENGTH = 2048;
+export const MAX_AB_VARIANTS = 10;
+
+// --- MIGRATIONS ---
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades a raw payload from version `n` to `n + 1`. Each step only has to
+ * understand its immediate predecessor.
+ */
+const MIGRATIONS: Record<number, (value: unknown) => unknown> = {
+    // Legacy btoa links share the v1 shape; styling fields added later are
+    // filled in from CTA_STYLE_DEFAULTS during validation.
+    0: value => value,
+    // v1 A/B links carried a bare [CtaData, CtaData] tuple plus an optional
+    // parallel `weights` array. v2 names every variant; the generated keys
+    // match the 'A'/'B' keys v1 analytics events were recorded under and double
+    // as names, since the link doesn't know the creator's language.
+    1: value => {
+        if (!isRecord(value) || value.type !== 'ab' || !Array.isArray(value.variants)) return value;
+        const { weights, ...rest } = value;
+        return {
+            ...rest,
+            variants: value.variants.map((data: unknown, i: number) => ({
+                key: variantKey(i),
+                name: variantKey(i),
+                weight: Array.isArray(weights) && typeof weights[i] === 'number' ? weights[i] : 1,
+                data,
+            })),
+        };
+    },
+    // v2 CTAs had exactly one button as `buttonText` / `buttonUrl` / `btnColor`;
+    // v3 holds a `buttons` list and that button becomes its only entry.
+    2: value => mapPayloadCtas(value, upgradeLegacyButtons),
+    // v3 stored a dragged CTA's `customPosition` in pixels from the top-left
+    // corner; v4 stores an anchor plus percentages of the page size.
+    3: value => mapPayloadCtas(value, upgradeLegacyPlacement),
+};
+
+export class MigrationError extends Error {
+    constructor(readonly version: number) {
+        super(`No migration from link schema version ${version}`);
+        this.name = 'MigrationError';
+    }
+}
+
+export const migrateLinkPayload = (value: unknown, fromVersion: number): unknown => {
+    let current = value;
+    for (let version = fromVersion; version < LINK_SCHEMA_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new MigrationError(version);
+        }
+        current = migrate(current);
+    }
+    return current;
+};
+
+// --- FIELD CHECKS ---
+
+export class FieldReader {
+    readonly errors: FieldError[] = [];
+
+    constructor(private readonly source: Record<string, unknown>, private readonly prefix: string) {}
+
+    private path(field: string) {
+        return this.prefix ? `${this.prefix}.${field}` : field;
+    }
+
+    fail(field: string, message: MessageKey, params?: MessageParams) {
+        this.errors.push({ path: this.path(field), message, ...(params ? { params } : {}) });
+    }
+
+    string(field: string, opts: { required?: boolean; maxLength?: number } = {}): string | undefined {
+        const value = this.source[field];
+        if (value === undefined || value === null) {
+            if (opts.required) this.fail(field, 'validation.required');
+            return undefined;
+        }
+        if (typeof value !== 'string') {
+            this.fail(field, 'validation.string');
+            return undefined;
+        }
+        const maxLength = opts.maxLength ?? MAX_TEXT_LENGTH;
+        if (value.length > maxLength) {
+            this.fail(field, 'validation.maxLength', { count: maxLength });
+            return undefined;
+        }
+        return value;
+    }
+
+    number(field: string, min: number, max: number): number | undefined {
+        const value = this.source[field];
+        if (value === undefined || value === null) return undefined;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            this.fail(field, 'validation.number');
+            return undefined;
+        }
+        if (value < min || value > max) {
+            this.fail(field, 'validation.range', { min, max });
+            return undefined;
+        }
+        return value;
+    }
+
+    oneOf<T extends string>(field: string, allowed: readonly T[]): T | undefined {
+        const value = this.source[field];
+        if (value === undefined || value === null) return undefined;
+        if (!allowed.includes(value as T)) {
+            this.fail(field, 'validation.oneOf', { values: allowed.join(', ') });
+            return undefined;
+        }
+        return value as T;
+    }
+
+    boolean(field: string): boolean | undefined {
+        const value = this.source[field];
+        if (value === undefined || value === null) return undefined;
+        if (typeof value !== 'boolean') {
+            this.fail(field, 'validation.boolean');
+            return undefined;
+        }
+        return value;
+    }
+
+    color(field: string): string | undefined {
+        const value = this.string(field, { maxLength: 9 });
+        if (value !== undefined && !HEX_COLOR.test(value)) {
+            this.fail(field, 'validation.color');
+            return undefined;
+        }
+        return value;
+    }
+}
+
+const validateCustomPosition = (value: unknown, path: string, errors: FieldError[]): CtaData['customPosition'] => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.customPosition' });
+        return undefined;
+    }
+    const reader = new FieldReader(value, path);
+    const anchor = reader.oneOf('anchor', CTA_ANCHORS);
+    // Percentages of the page; centered axes are signed.
+    const x = reader.number('x', -100, 100);
+    const y = reader.number('y', -100, 100);
+    for (const field of ['anchor', 'x', 'y']) {
+        if (value[field] === undefined) reader.fail(field, 'validation.required');
+    }
+    errors.push(...reader.errors);
+    return anchor !== undefined && x !== undefined && y !== undefined ? { anchor, x, y } : undefined;
+};
+
+const validateDeviceOverrides = (value: unknown, path: string, errors: FieldError[]): CtaData['deviceOverrides'] => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const overrides: CtaData['deviceOverrides'] = {};
+    for (const [device, entry] of Object.entries(value)) {
+        if (!OVERRIDE_DEVICES.includes(device as OverrideDevice)) {
+            errors.push({ path: `${path}.${device}`, message: 'validation.device', params: { values: OVERRIDE_DEVICES.join(', ') } });
+            continue;
+        }
+        if (!isRecord(entry)) {
+            errors.push({ path: `${path}.${device}`, message: 'validation.object' });
+            continue;
+        }
+        const reader = new FieldReader(entry, `${path}.${device}`);
+        const override: CtaStyleOverride = {};
+        const scale = reader.number('scale', MIN_DEVICE_SCALE, 1.5);
+        const fontSize = reader.number('fontSize', 10, 24);
+        const cornerRadius = reader.number('cornerRadius', 0, 30);
+        if (scale !== undefined) override.scale = scale;
+        if (fontSize !== undefined) override.fontSize = fontSize;
+        if (cornerRadius !== undefined) override.cornerRadius = cornerRadius;
+        errors.push(...reader.errors);
+        overrides[device as OverrideDevice] = override;
+    }
+    return overrides;
+};
+
+const validateButton = (value: unknown, path: string, errors: FieldError[]): CtaButton | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const id = r.string('id', { required: true, maxLength: 32 });
+    const button: CtaButton = {
+        id: id ?? '',
+        text: r.string('text', { required: true }) ?? '',
+        action: r.oneOf('action', BUTTON_ACTIONS) ?? 'url',
+        target: r.string('target', { required: true, maxLength: MAX_URL_LENGTH }) ?? '',
+        style: r.oneOf('style', BUTTON_STYLES) ?? 'primary',
+        color: r.color('color') ?? DEFAULT_BUTTON_COLOR,
+    };
+    if (id === '') r.fail('id', 'validation.required');
+    errors.push(...r.errors);
+    return r.errors.length ? undefined : button;
+};
+
+const validateButtons = (value: unknown, path: string, errors: FieldError[]): CtaButton[] => {
+    if (!Array.isArray(value)) {
+        errors.push({ path, message: 'validation.buttons' });
+        return [];
+    }
+    if (value.length > MAX_CTA_BUTTONS) {
+        errors.push({ path, message: 'validation.maxButtons', params: { count: MAX_CTA_BUTTONS } });
+        return [];
+    }
+    const buttons = value.map((b, i) => validateButton(b, `${path}.${i}`, errors));
+    const seen = new Set<string>();
+    buttons.forEach((b, i) => {
+        if (!b) return;
+        if (seen.has(b.id)) errors.push({ path: `${path}.${i}.id`, message: 'validation.duplicateButtonId' });
+        seen.add(b.id);
+    });
+    return buttons.filter(Boolean);
+};
+
+export const validateCtaData = (value: unknown, path = ''): ValidationResult<CtaData> => {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path: path || '(root)', message: 'validation.object' }] };
+    }
+
+    const r = new FieldReader(value, path);
+    const data: CtaData = {
+        message: r.string('message', { required: true }) ?? '',
+        buttons: [],
+        position: r.oneOf('position', POSITIONS) ?? CTA_STYLE_DEFAULTS.position,
+        theme: r.oneOf('theme', THEMES) ?? CTA_STYLE_DEFAULTS.theme,
+        bgColor: r.color('bgColor') ?? CTA_STYLE_DEFAULTS.bgColor,
+        profileImageUrl: r.string('profileImageUrl', { maxLength: MAX_URL_LENGTH }),
+        fontFamily: r.string('fontFamily', { maxLength: 100 }) ?? CTA_STYLE_DEFAULTS.fontFamily,
+        fontSize: r.number('fontSize', 10, 24) ?? CTA_STYLE_DEFAULTS.fontSize,
+        scale: r.number('scale', 0.8, 1.5) ?? CTA_STYLE_DEFAULTS.scale,
+        cornerRadius: r.number('cornerRadius', 0, 30) ?? CTA_STYLE_DEFAULTS.cornerRadius,
+    };
+    // Behaviour options are only set when present, so older links round-trip unchanged.
+    const dismissible = r.boolean('dismissible');
+    const showDelay = r.number('showDelay', 0, MAX_SHOW_DELAY_SECONDS);
+    const showOnExitIntent = r.boolean('showOnExitIntent');
+    const animation = r.oneOf('animation', CTA_ANIMATIONS);
+    if (dismissible !== undefined) data.dismissible = dismissible;
+    if (showDelay !== undefined) data.showDelay = showDelay;
+    if (showOnExitIntent !== undefined) data.showOnExitIntent = showOnExitIntent;
+    if (animation !== undefined) data.animation = animation;
+    const layout = r.oneOf('layout', CTA_LAYOUTS);
+    const title = r.string('title');
+    const heroImageUrl = r.string('heroImageUrl', { maxLength: MAX_URL_LENGTH });
+    const leadEndpoint = r.string('leadEndpoint', { maxLength: MAX_URL_LENGTH });
+    const successMessage = r.string('successMessage');
+    if (layout !== undefined) data.layout = layout;
+    if (title !== undefined) data.title = title;
+    if (heroImageUrl !== undefined) data.heroImageUrl = heroImageUrl;
+    if (leadEndpoint !== undefined) data.leadEndpoint = leadEndpoint;
+    if (successMessage !== undefined) data.successMessage = successMessage;
+
+    const errors = r.errors;
+    data.buttons = validateButtons(value.buttons, path ? `${path}.buttons` : 'buttons', errors);
+    if (value.customPosition !== undefined && value.customPosition !== null) {
+        data.customPosition = validateCustomPosition(value.customPosition, path ? `${path}.customPosition` : 'customPosition', errors);
+    }
+    if (value.deviceOverrides !== undefined && value.deviceOverrides !== null) {
+        data.deviceOverrides = validateDeviceOverrides(value.deviceOverrides, path ? `${path}.deviceOverrides` : 'deviceOverrides', errors);
+    }
+    if (data.position === 'custom' && !data.customPosition && !errors.some(e => e.path.includes('customPosition'))) {
+        r.fail('customPosition', 'validation.customPositionRequired');
+    }
+    if (layout === 'lead-form' && !leadEndpoint && !errors.some(e => e.path.endsWith('leadEndpoint'))) {
+        r.fail('leadEndpoint', 'validation.leadEndpointRequired');
+    }
+
+    return errors.length ? { ok: false, errors } : { ok: true, value: data };
+};
+
+/** The optional link-level framing fallback; left out when absent so old links round-trip unchanged. */
+const readFallback = (value: Record<string, unknown>, errors: FieldError[]): Pick<LinkPayload, 'fallback'> => {
+    const r = new FieldReader(value, '');
+    const fallback = r.oneOf('fallback', FRAMING_FALLBACKS);
+    errors.push(...r.errors);
+    return fallback ? { fallback } : {};
+};
+
+const SCHEDULE_FALLBACK_TYPES: ScheduleFallback['type'][] = ['plain', 'alternate', 'redirect'];
+const MAX_TIMESTAMP = 8.64e15;
+
+const validateScheduleFallback = (value: unknown, path: string, errors: FieldError[]): ScheduleFallback | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const type = r.oneOf('type', SCHEDULE_FALLBACK_TYPES);
+    if (value.type === undefined) r.fail('type', 'validation.required');
+    const url = type === 'redirect' ? r.string('url', { required: true, maxLength: MAX_URL_LENGTH }) : undefined;
+    if (url === '') r.fail('url', 'validation.required');
+    errors.push(...r.errors);
+    if (r.errors.length) return undefined;
+
+    if (type === 'redirect') return { type, url };
+    if (type === 'alternate') {
+        const data = validateCtaData(value.data, `${path}.data`);
+        if (!data.ok) errors.push(...data.errors);
+        return data.ok ? { type, data: data.value } : undefined;
+    }
+    return { type: 'plain' };
+};
+
+/** The optional link schedule; like the framing fallback it is left out when absent. */
+const readSchedule = (value: Record<string, unknown>, errors: FieldError[]): Pick<LinkPayload, 'schedule'> => {
+    const schedule = value.schedule;
+    if (schedule === undefined || schedule === null) return {};
+    if (!isRecord(schedule)) {
+        errors.push({ path: 'schedule', message: 'validation.object' });
+        return {};
+    }
+    const r = new FieldReader(schedule, 'schedule');
+    const activeFrom = r.number('activeFrom', 0, MAX_TIMESTAMP);
+    const expiresAt = r.number('expiresAt', 0, MAX_TIMESTAMP);
+    const maxImpressions = r.number('maxImpressions', 1, MAX_IMPRESSIONS_LIMIT);
+    if (maxImpressions !== undefined && !Number.isInteger(maxImpressions)) r.fail('maxImpressions', 'validation.integer');
+    if (activeFrom !== undefined && expiresAt !== undefined && expiresAt <= activeFrom) {
+        r.fail('expiresAt', 'validation.expiresBeforeStart');
+    }
+    errors.push(...r.errors);
+    const fallback = validateScheduleFallback(schedule.fallback ?? { type: 'plain' }, 'schedule.fallback', errors);
+    if (r.errors.length || !fallback) return {};
+    const result: LinkSchedule = { fallback };
+    if (activeFrom !== undefined) result.activeFrom = activeFrom;
+    if (expiresAt !== undefined) result.expiresAt = expiresAt;
+    if (maxImpressions !== undefined) result.maxImpressions = maxImpressions;
+    return { schedule: result };
+};
+
+const CONDITION_TYPES: TargetingCondition['type'][] = ['device', 'language', 'referrer', 'utm', 'time'];
+const MAX_CONDITION_VALUES = 50;
+
+/** Reads a list of short strings, optionally restricted to `allowed`. */
+const readStringList = <T extends string>(value: unknown, path: string, errors: FieldError[], allowed?: readonly T[]): T[] | undefined => {
+    if (!Array.isArray(value) || value.length > MAX_CONDITION_VALUES) {
+        errors.push({ path, message: 'validation.listLength', params: { count: MAX_CONDITION_VALUES } });
+        return undefined;
+    }
+    const bad = value.findIndex(v => typeof v !== 'string' || v.length > 200 || (allowed && !allowed.includes(v as T)));
+    if (bad >= 0) {
+        errors.push(allowed
+            ? { path: `${path}.${bad}`, message: 'validation.oneOf', params: { values: allowed.join(', ') } }
+            : { path: `${path}.${bad}`, message: 'validation.string' });
+        return undefined;
+    }
+    return value as T[];
+};
+
+const validateCondition = (value: unknown, path: string, errors: FieldError[]): TargetingCondition | undefined => {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'validation.object' });
+        return undefined;
+    }
+    const r = new FieldReader(value, path);
+    const type = r.oneOf('type', CONDITION_TYPES);
+    if (value.type === undefined) r.fail('type', 'validation.required');
+    errors.push(...r.errors);
+    if (!type) return undefined;
+
+    const before = errors.length;
+    let condition: TargetingCondition | undefined;
+    switch (type) {
+        case 'device':
+            condition = { type, devices: readStringList(value.devices, `${path}.devices`, errors, DEVICE_TYPES) };
+            break;
+        case 'language':
+            condition = { type, languages: readStringList(value.languages, `${path}.languages`, errors) };
+            break;
+        case 'referrer':
+            condition = { type, domains: readStringList(value.domains, `${path}.domains`, errors) };
+            break;
+        case 'utm': {
+            const fields = new FieldReader(value, path);
+            const param = fields.oneOf('param', UTM_PARAMS);
+            if (value.param === undefined) fields.fail('param', 'validation.required');
+            errors.push(...fields.errors);
+            condition = { type, param, values: readStringList(value.values, `${path}.values`, errors) };
+            break;
+        }
+        case 'time': {
+            const fields = new FieldReader(value, path);
+            const fromHour = fields.number('fromHour', 0, 24);
+            const toHour = fields.number('toHour', 0, 24);
+            if (value.fromHour === undefined) fields.fail('fromHour', 'validation.required');
+            if (value.toHour === undefined) fields.fail('toHour', 'validation.required');
+            errors.push(...fields.errors);
+            const weekdays = value.weekdays ?? [];
+            if (!Array.isArray(weekdays) || weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+                errors.push({ path: `${path}.weekdays`, message: 'validation.weekdays' });
+            }
+            condition = { type, fromHour, toHour, weekdays: weekdays as number[] };
+            break;
+        }
+    }
+    return errors.length > before ? undefined : condition;
+};
+
+/** Optional targeting of an A/B payload; rules must point at existing variant keys. */
+const readTargeting = (value: Record<string, unknown>, variantKeys: Set<string>, errors: FieldError[]): Pick<Extract<LinkPayload, { type: 'ab' }>, 'targeting'> => {
+    const targeting = value.targeting;
+    if (targeting === undefined || targeting === null) return {};
+    if (!isRecord(targeting)) {
+        errors.push({ path: 'targeting', message: 'validation.object' });
+        return {};
+    }
+    const before = errors.length;
+    const r = new FieldReader(targeting, 'targeting');
+    const defaultVariant = r.string('defaultVariant', { maxLength: 20 }) || undefined;
+    if (defaultVariant !== undefined && !variantKeys.has(defaultVariant)) r.fail('defaultVariant', 'validation.unknownVariant');
+    errors.push(...r.errors);
+
+    const rules: TargetingRule[] = [];
+    if (!Array.isArray(targeting.rules) || targeting.rules.length > MAX_TARGETING_RULES) {
+        errors.push({ path: 'targeting.rules', message: 'validation.maxRules', params: { count: MAX_TARGETING_RULES } });
+    } else {
+        targeting.rules.forEach((rule, i) => {
+            const path = `targeting.rules.${i}`;
+            if (!isRecord(rule)) {
+                errors.push({ path, message: 'validation.object' });
+                return;
+            }
+            const fields = new FieldReader(rule, path);
+            const id = fields.string('id', { required: true, maxLength: 100 });
+            const variant = fields.string('variant', { required: true, maxLength: 20 });
+            if (variant !== undefined && !variantKeys.has(variant)) fields.fail('variant', 'validation.unknownVariant');
+            errors.push(...fields.errors);
+            if (!Array.isArray(rule.conditions)) {
+                errors.push({ path: `${path}.conditions`, message: 'validation.array' });
+                return;
+            }
+            const conditions = rule.conditions.map((c, j) => validateCondition(c, `${path}.conditions.${j}`, errors));
+            rules.push({ id, variant, conditions });
+        });
+    }
+    if (errors.length > before) return {};
+    const result: Targeting = { rules };
+    if (defaultVariant !== undefined) result.defaultVariant = defaultVariant;
+    return { targeting: result };
+};
+
+export const validateLinkPayload = (value: unknown): ValidationResult<LinkPayload> => {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path: '(root)', message: 'validation.object' }] };
+    }
+
+    if (value.type === 'single') {
+        const result = validateCtaData(value.data, 'data');
+        const targetUrl = isRecord(value.data) ? value.data.targetUrl : undefined;
+        const errors = result.ok ? [] : [...result.errors];
+        if (typeof targetUrl !== 'string' || !targetUrl) {
+            errors.push({ path: 'data.targetUrl', message: 'validation.required' });
+        } else if (targetUrl.length > MAX_URL_LENGTH) {
+            errors.push({ path: 'data.targetUrl', message: 'validation.maxLength', params: { count: MAX_URL_LENGTH } });
+        }
+        const fallback = readFallback(value, errors);
+        const schedule = readSchedule(value, errors);
+        if (!result.ok || errors.length) return { ok: false, errors };
+        return { ok: true, value: { type: 'single', data: { ...result.value, targetUrl: targetUrl as string }, ...fallback, ...schedule } };
+    }
+
+    if (value.type === 'ab') {
+        const errors: FieldError[] = [];
+        const { targetUrl, variants } = value;
+        if (typeof targetUrl !== 'string' || !targetUrl) {
+            errors.push({ path: 'targetUrl', message: 'validation.required' });
+        } else if (targetUrl.length > MAX_URL_LENGTH) {
+            errors.push({ path: 'targetUrl', message: 'validation.maxLength', params: { count: MAX_URL_LENGTH } });
+        }
+        if (!Array.isArray(variants) || variants.length < 2 || variants.length > MAX_AB_VARIANTS) {
+            errors.push({ path: 'variants', message: 'validation.variantCount', params: { max: MAX_AB_VARIANTS } });
+            return { ok: false, errors };
+        }
+
+        const validated: AbVariant[] = [];
+        const seenKeys = new Set<string>();
+        variants.forEach((variant, i) => {
+            const path = `variants.${i}`;
+            if (!isRecord(variant)) {
+                errors.push({ path, message: 'validation.object' });
+                return;
+            }
+            const r = new FieldReader(variant, path);
+            const key = r.string('key', { required: true, maxLength: 20 });
+            const name = r.string('name', { required: true, maxLength: 60 });
+            const weight = r.number('weight', 0, 1000);
+            if (variant.weight === undefined) r.fail('weight', 'validation.required');
+            if (key !== undefined) {
+                if (seenKeys.has(key)) r.fail('key', 'validation.duplicateVariantKey');
+                seenKeys.add(key);
+            }
+            errors.push(...r.errors);
+            const data = validateCtaData(variant.data, `${path}.data`);
+            if (!data.ok) errors.push(...data.errors);
+            if (!r.errors.length && data.ok) {
+                validated.push({ key, name, weight, data: data.value });
+            }
+        });
+        if (!errors.length && validated.every(v => v.weight === 0)) {
+            errors.push({ path: 'variants', message: 'validation.positiveWeight' });
+        }
+        const fallback = readFallback(value, errors);
+        const schedule = readSchedule(value, errors);
+        const targeting = readTargeting(value, seenKeys, errors);
+        if (errors.length) return { ok: false, errors };
+        return { ok: true, value: { type: 'ab', targetUrl: targetUrl as string, variants: validated, ...fallback, ...schedule, ...targeting } };
+    }
+
+    return { ok: false, errors: [{ path: 'type', message: 'validation.oneOf', params: { values: 'single, ab' } }] };
+};
+
+/** Migrates a decoded payload to the current schema version and validates it. */
+export const parseLinkPayload = (value: unknown, version: number): ValidationResult<LinkPayload> => {
+    let migrated: unknown;
+    try {
+        migrated = migrateLinkPayload(value, version);
+    } catch (e) {
+        if (!(e instanceof MigrationError)) throw e;
+        return { ok: false, errors: [{ path: '(root)', message: 'validation.noMigration', params: { version: String(e.version) } }] };
+    }
+    return validateLinkPayload(migrated);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { fromDateTimeLocal, isEmptySchedule, scheduleStatus, toDateTimeLocal } from './schedule';
+
+const fallback = { type: 'plain' } as const;
+
+describe('scheduleStatus', () => {
+    it('is active without a schedule', () => {
+        expect(scheduleStatus(undefined, 0)).toBe('active');
+    });
+
+    it('follows the active window', () => {
+        const schedule = { activeFrom: 100, expiresAt: 200, fallback };
+        expect(scheduleStatus(schedule, 99)).toBe('scheduled');
+        expect(scheduleStatus(schedule, 100)).toBe('active');
+        expect(scheduleStatus(schedule, 200)).toBe('expired');
+    });
+
+    it('reports a reached impression cap', () => {
+        const schedule = { maxImpressions: 3, fallback };
+        expect(scheduleStatus(schedule, 0, 2)).toBe('active');
+        expect(scheduleStatus(schedule, 0, 3)).toBe('capped');
+    });
+
+    it('treats a schedule without limits as empty', () => {
+        expect(isEmptySchedule({ fallback })).toBe(true);
+        expect(isEmptySchedule({ expiresAt: 1, fallback })).toBe(false);
+    });
+});
+
+describe('datetime-local conversion', () => {
+    it('round-trips to the minute', () => {
+        const ms = new Date(2025, 4, 17, 9, 5).getTime();
+        expect(toDateTimeLocal(ms)).toBe('2025-05-17T09:05');
+        expect(fromDateTimeLocal(toDateTimeLocal(ms))).toBe(ms);
+        expect(fromDateTimeLocal('')).toBeUndefined();
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * Link scheduling: an optional active window and impression cap, and what
+ * the viewer shows instead once the link is outside them.
+ */
+import { LinkSchedule, ScheduleFallback } from '../types';
+import { getEventSink } from './analytics';
+
+export type ScheduleStatus = 'scheduled' | 'active' | 'expired' | 'capped';
+
+export const SCHEDULE_FALLBACK_TYPES: readonly ScheduleFallback['type'][] = ['plain', 'alternate', 'redirect'];
+
+export const MAX_IMPRESSIONS_LIMIT = 1_000_000_000;
+
+/**
+ * Where the link stands at `now`. `impressions` is only needed when the
+ * schedule has a cap; without it the cap is treated as not reached.
+ */
+export const scheduleStatus = (schedule: LinkSchedule | undefined, now: number, impressions = 0): ScheduleStatus => {
+    if (!schedule) return 'active';
+    if (schedule.activeFrom !== undefined && now < schedule.activeFrom) return 'scheduled';
+    if (schedule.expiresAt !== undefined && now >= schedule.expiresAt) return 'expired';
+    if (schedule.maxImpressions !== undefined && impressions >= schedule.maxImpressions) return 'capped';
+    return 'active';
+};
+
+/**
+ * Impressions recorded so far. With the local event sink that means this
+ * browser only, so SchedulePanel only offers `maxImpressions` with a collector.
+ */
+export const countImpressions = async (linkId: string): Promise<number> =>
+    (await getEventSink().list({ linkId })).filter(e => e.type === 'impression').length;
+
+/** A schedule with no window and no cap has no effect; such links carry none. */
+export const isEmptySchedule = (schedule: LinkSchedule | undefined) =>
+    !schedule || (schedule.activeFrom === undefined && schedule.expiresAt === undefined && schedule.maxImpressions === undefined);
+
+// --- <input type="datetime-local"> ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Epoch ms to the local `YYYY-MM-DDTHH:mm` string a datetime-local input expects. */
+export const toDateTimeLocal = (ms: number | undefined): string => {
+    if (ms === undefined) return '';
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const fromDateTimeLocal = (value: string): number | undefined => {
+    if (!value) return undefined;
+    const ms = new Date(value).getTime();
+    return Number.isNaN(ms) ? undefined : ms;
+};
@@ -0,0 +1,27 @@
+/**
+ * Upgrades for CTAs stored in an older shape: in link payloads, the editor
+ * draft and saved templates. Every upgrade leaves current data untouched, so
+ * anything read back from storage can be passed through unconditionally.
+ */
+import { upgradeLegacyButtons } from './ctaButtons';
+import { upgradeLegacyPlacement } from './ctaPlacement';
+import { isRecord } from './payloadSchema';
+
+/** Applies `upgrade` to every CTA inside a raw (not yet validated) link payload. */
+export const mapPayloadCtas = (payload: unknown, upgrade: (data: unknown) => unknown): unknown => {
+    if (!isRecord(payload)) return payload;
+    const upgraded = { ...payload };
+    if (payload.type === 'single') upgraded.data = upgrade(payload.data);
+    if (payload.type === 'ab' && Array.isArray(payload.variants)) {
+        upgraded.variants = payload.variants.map(v => isRecord(v) ? { ...v, data: upgrade(v.data) } : v);
+    }
+    const schedule = payload.schedule;
+    if (isRecord(schedule) && isRecord(schedule.fallback) && schedule.fallback.type === 'alternate') {
+        upgraded.schedule = { ...schedule, fallback: { ...schedule.fallback, data: upgrade(schedule.fallback.data) } };
+    }
+    return upgraded;
+};
+
+export const upgradeStoredCta = (data: unknown): unknown => upgradeLegacyPlacement(upgradeLegacyButtons(data));
+
+export const upgradeStoredPayload = (payload: unknown): unknown => mapPayloadCtas(payload, upgradeStoredCta);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Targeting, TargetingCondition } from '../types';
+import { VisitorContext, conditionMatches, deviceFromWidth, evaluateTargeting } from './targeting';
+
+// Wednesday 2025-05-14, 10:30 local time.
+const context = (overrides: Partial<VisitorContext> = {}): VisitorContext => ({
+    viewportWidth: 1280,
+    languages: ['ru-RU', 'en-US'],
+    referrer: '',
+    params: new URLSearchParams(),
+    now: new Date(2025, 4, 14, 10, 30),
+    ...overrides,
+});
+
+describe('conditionMatches', () => {
+    it('classifies devices by viewport width', () => {
+        expect([375, 800, 1280].map(deviceFromWidth)).toEqual(['mobile', 'tablet', 'desktop']);
+        expect(conditionMatches({ type: 'device', devices: ['mobile'] }, context({ viewportWidth: 375 }))).toBe(true);
+        expect(conditionMatches({ type: 'device', devices: ['mobile', 'tablet'] }, context())).toBe(false);
+    });
+
+    it('matches the preferred language by prefix', () => {
+        expect(conditionMatches({ type: 'language', languages: ['ru'] }, context())).toBe(true);
+        expect(conditionMatches({ type: 'language', languages: ['en'] }, context())).toBe(false);
+        expect(conditionMatches({ type: 'language', languages: ['ru-ua'] }, context())).toBe(false);
+    });
+
+    it('matches referrer domains including subdomains', () => {
+        const condition: TargetingCondition = { type: 'referrer', domains: ['vk.com'] };
+        expect(conditionMatches(condition, context({ referrer: 'https://m.vk.com/feed' }))).toBe(true);
+        expect(conditionMatches(condition, context({ referrer: 'https://notvk.com/' }))).toBe(false);
+        expect(conditionMatches(condition, context())).toBe(false);
+    });
+
+    it('matches UTM values case-insensitively, or mere presence', () => {
+        const params = new URLSearchParams('utm_source=Telegram');
+        expect(conditionMatches({ type: 'utm', param: 'utm_source', values: ['telegram'] }, context({ params }))).toBe(true);
+        expect(conditionMatches({ type: 'utm', param: 'utm_source', values: [] }, context({ params }))).toBe(true);
+        expect(conditionMatches({ type: 'utm', param: 'utm_medium', values: [] }, context({ params }))).toBe(false);
+    });
+
+    it('matches hour windows, wrapping past midnight, and weekdays', () => {
+        expect(conditionMatches({ type: 'time', fromHour: 9, toHour: 18, weekdays: [1, 2, 3, 4, 5] }, context())).toBe(true);
+        expect(conditionMatches({ type: 'time', fromHour: 9, toHour: 18, weekdays: [0, 6] }, context())).toBe(false);
+        expect(conditionMatches({ type: 'time', fromHour: 22, toHour: 6, weekdays: [] }, context({ now: new Date(2025, 4, 14, 23) }))).toBe(true);
+        expect(conditionMatches({ type: 'time', fromHour: 22, toHour: 6, weekdays: [] }, context())).toBe(false);
+    });
+});
+
+describe('evaluateTargeting', () => {
+    const targeting: Targeting = {
+        rules: [
+            { id: '1', variant: 'C', conditions: [{ type: 'device', devices: ['mobile'] }] },
+            { id: '2', variant: 'B', conditions: [{ type: 'language', languages: ['ru'] }, { type: 'device', devices: ['desktop'] }] },
+        ],
+        defaultVariant: 'A',
+    };
+
+    it('picks the first matching rule', () => {
+        expect(evaluateTargeting(targeting, context(), ['A', 'B', 'C'])).toBe('B');
+        expect(evaluateTargeting(targeting, context({ viewportWidth: 375 }), ['A', 'B', 'C'])).toBe('C');
+    });
+
+    it('falls back to the default variant, then to null', () => {
+        expect(evaluateTargeting(targeting, context({ viewportWidth: 800 }), ['A', 'B', 'C'])).toBe('A');
+        expect(evaluateTargeting({ ...targeting, defaultVariant: undefined }, context({ viewportWidth: 800 }), ['A', 'B', 'C'])).toBeNull();
+        expect(evaluateTargeting(undefined, context(), ['A'])).toBeNull();
+    });
+
+    it('skips rules for missing variants and rules without conditions', () => {
+        expect(evaluateTargeting(targeting, context({ viewportWidth: 375 }), ['A', 'B'])).toBe('A');
+        expect(evaluateTargeting({ rules: [{ id: 'x', variant: 'B', conditions: [] }] }, context(), ['A', 'B'])).toBeNull();
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * Audience targeting for A/B links: ordered rules that pick a variant from
+ * what the viewer knows about the visitor. Evaluation is pure; only
+ * `readVisitorContext` touches the browser.
+ */
+import { DeviceType, Targeting, TargetingCondition, TargetingRule, UtmParam } from '../types';
+
+export interface VisitorContext {
+    viewportWidth: number;
+    /** Preferred languages, most preferred first (navigator.languages). */
+    languages: readonly string[];
+    /** document.referrer; empty for direct visits. */
+    referrer: string;
+    /** Query parameters of the incoming link. */
+    params: URLSearchParams;
+    now: Date;
+}
+
+export const DEVICE_TYPES: readonly DeviceType[] = ['mobile', 'tablet', 'desktop'];
+export const UTM_PARAMS: readonly UtmParam[] = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+export const MAX_TARGETING_RULES = 20;
+
+export const CONDITION_TYPES: readonly TargetingCondition['type'][] = ['device', 'language', 'referrer', 'utm', 'time'];
+
+const TABLET_MIN_WIDTH = 768;
+const DESKTOP_MIN_WIDTH = 1024;
+
+export const deviceFromWidth = (width: number): DeviceType =>
+    width < TABLET_MIN_WIDTH ? 'mobile' : width < DESKTOP_MIN_WIDTH ? 'tablet' : 'desktop';
+
+/** `ru` matches `ru-RU`; `en-GB` matches only `en-GB` and its subtags. */
+const languageMatches = (pattern: string, language: string) => {
+    const p = pattern.trim().toLowerCase();
+    const l = language.toLowerCase();
+    return !!p && (l === p || l.startsWith(`${p}-`));
+};
+
+const hostnameOf = (url: string) => {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return '';
+    }
+};
+
+const domainMatches = (domain: string, hostname: string) => {
+    const d = domain.trim().toLowerCase().replace(/^www\./, '');
+    const h = hostname.replace(/^www\./, '');
+    return !!d && (h === d || h.endsWith(`.${d}`));
+};
+
+const inHourWindow = (hour: number, fromHour: number, toHour: number) =>
+    fromHour === toHour ? true
+        : fromHour < toHour ? hour >= fromHour && hour < toHour
+        : hour >= fromHour || hour < toHour;
+
+export const conditionMatches = (condition: TargetingCondition, context: VisitorContext): boolean => {
+    switch (condition.type) {
+        case 'device':
+            return condition.devices.includes(deviceFromWidth(context.viewportWidth));
+        case 'language': {
+            // Only the most preferred language counts; the rest are fallbacks for the browser.
+            const preferred = context.languages[0];
+            return !!preferred && condition.languages.some(p => languageMatches(p, preferred));
+        }
+        case 'referrer': {
+            const hostname = hostnameOf(context.referrer);
+            return !!hostname && condition.domains.some(d => domainMatches(d, hostname));
+        }
+        case 'utm': {
+            const value = context.params.get(condition.param);
+            if (value === null) return false;
+            // No values listed: the parameter just has to be present.
+            return !condition.values.length || condition.values.some(v => v.trim().toLowerCase() === value.toLowerCase());
+        }
+        case 'time':
+            return inHourWindow(context.now.getHours(), condition.fromHour, condition.toHour)
+                && (!condition.weekdays.length || condition.weekdays.includes(context.now.getDay()));
+    }
+};
+
+/** A rule without conditions never matches, so an unfinished rule can't capture everyone. */
+export const ruleMatches = (rule: TargetingRule, context: VisitorContext) =>
+    rule.conditions.length > 0 && rule.conditions.every(c => conditionMatches(c, context));
+
+/**
+ * The variant key chosen by targeting: the first matching rule, else the
+ * default variant. Returns null when targeting doesn't decide, and the caller
+ * falls back to weighted assignment. Rules naming an unknown variant are skipped.
+ */
+export const evaluateTargeting = (targeting: Targeting | undefined, context: VisitorContext, variantKeys: readonly string[]): string | null => {
+    if (!targeting) return null;
+    for (const rule of targeting.rules) {
+        if (variantKeys.includes(rule.variant) && ruleMatches(rule, context)) return rule.variant;
+    }
+    return targeting.defaultVariant && variantKeys.includes(targeting.defaultVariant) ? targeting.defaultVariant : null;
+};
+
+export const readVisitorContext = (): VisitorContext => ({
+    viewportWidth: window.innerWidth,
+    languages: navigator.languages?.length ? navigator.languages : [navigator.language].filter(Boolean),
+    referrer: document.referrer,
+    params: new URLSearchParams(window.location.search),
+    now: new Date(),
+});
+
+/** Fresh condition of the given type with sensible starting values for the rule builder. */
+export const newCondition = (type: TargetingCondition['type']): TargetingCondition => {
+    switch (type) {
+        case 'device': return { type, devices: ['mobile'] };
+        case 'language': return { type, languages: ['ru'] };
+        case 'referrer': return { type, domains: [] };
+        case 'utm': return { type, param: 'utm_source', values: [] };
+        case 'time': return { type, fromHour: 9, toHour: 18, weekdays: [1, 2, 3, 4, 5] };
+    }
+};
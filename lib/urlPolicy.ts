@@ -0,0 +1,200 @@
+/**
+ * URL safety policy shared by the creator form and the viewer.
+ *
+ * Every URL that ends up in an `href`, `src` or iframe must pass `checkUrl`.
+ * Only http/https is accepted, hostnames are normalized by the URL parser
+ * (lowercased, IDN converted to punycode), punycode labels that mix Latin with
+ * Cyrillic or Greek letters are rejected as likely homographs, and the host is
+ * matched against a configurable domain blocklist/allowlist.
+ */
+import { CtaData, LinkPayload } from '../types';
+import { MessageKey } from './i18n';
+
+export interface UrlPolicy {
+    /** Domains (and their subdomains) that are always rejected. */
+    blocklist: string[];
+    /** If non-empty, only these domains (and their subdomains) are accepted. */
+    allowlist: string[];
+    /** Accept IDN labels that mix scripts (e.g. Cyrillic "а" inside "pаypal"). */
+    allowMixedScripts: boolean;
+}
+
+export type UrlRejectionReason =
+    | 'invalid'
+    | 'scheme'
+    | 'credentials'
+    | 'mixed-script'
+    | 'blocked-domain'
+    | 'not-allowed-domain';
+
+export type UrlCheckResult =
+    | { ok: true; url: string; hostname: string; reason?: never }
+    | { ok: false; reason: UrlRejectionReason; hostname?: string; url?: never };
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+const normalizeDomain = (domain: string): string => {
+    const trimmed = domain.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '');
+    if (!trimmed) return '';
+    try {
+        // Run entries through the same IDN normalization as checked URLs.
+        return new URL(`http://${trimmed}`).hostname;
+    } catch {
+        return trimmed;
+    }
+};
+
+const parseDomainList = (raw: string | undefined): string[] =>
+    (raw || '')
+        .split(',')
+        .map(d => normalizeDomain(d))
+        .filter(Boolean);
+
+export const DEFAULT_URL_POLICY: UrlPolicy = {
+    blocklist: parseDomainList(process.env.URL_BLOCKLIST),
+    allowlist: parseDomainList(process.env.URL_ALLOWLIST),
+    allowMixedScripts: false,
+};
+
+// --- PUNYCODE (RFC 3492) ---
+
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+const punyAdapt = (delta: number, numPoints: number, firstTime: boolean): number => {
+    delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+    delta += Math.floor(delta / numPoints);
+    let k = 0;
+    while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+        delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN));
+        k += PUNY_BASE;
+    }
+    return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38));
+};
+
+const punyDigit = (code: number): number => {
+    if (code >= 48 && code <= 57) return code - 22;
+    if (code >= 65 && code <= 90) return code - 65;
+    if (code >= 97 && code <= 122) return code - 97;
+    return PUNY_BASE;
+};
+
+/** Decodes the part of an IDN label after `xn--`. Throws on malformed input. */
+export const decodePunycode = (input: string): string => {
+    const output: number[] = [];
+    const basic = Math.max(input.lastIndexOf('-'), 0);
+    for (let j = 0; j < basic; j++) output.push(input.charCodeAt(j));
+
+    let n = 128;
+    let i = 0;
+    let bias = 72;
+    for (let index = basic > 0 ? basic + 1 : 0; index < input.length;) {
+        const oldI = i;
+        for (let w = 1, k = PUNY_BASE; ; k += PUNY_BASE) {
+            if (index >= input.length) throw new Error('Truncated punycode');
+            const digit = punyDigit(input.charCodeAt(index++));
+            if (digit >= PUNY_BASE) throw new Error('Invalid punycode digit');
+            i += digit * w;
+            const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+            if (digit < t) break;
+            w *= PUNY_BASE - t;
+        }
+        const length = output.length + 1;
+        bias = punyAdapt(i - oldI, length, oldI === 0);
+        n += Math.floor(i / length);
+        i %= length;
+        output.splice(i++, 0, n);
+    }
+    return String.fromCodePoint(...output);
+};
+
+const SCRIPT_PATTERNS = [/[a-z]/i, /\p{Script=Cyrillic}/u, /\p{Script=Greek}/u];
+
+const isMixedScriptLabel = (label: string): boolean => {
+    if (!label.startsWith('xn--')) return false;
+    let decoded: string;
+    try {
+        decoded = decodePunycode(label.slice(4));
+    } catch {
+        // A label the parser accepted but we can't decode is suspicious by itself.
+        return true;
+    }
+    return SCRIPT_PATTERNS.filter(pattern => pattern.test(decoded)).length > 1;
+};
+
+const matchesDomain = (hostname: string, domain: string) =>
+    hostname === domain || hostname.endsWith(`.${domain}`);
+
+export const checkUrl = (raw: string, policy: UrlPolicy = DEFAULT_URL_POLICY): UrlCheckResult => {
+    const input = raw.trim();
+    let url: URL;
+    try {
+        url = new URL(input);
+    } catch {
+        return { ok: false, reason: 'invalid' };
+    }
+
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+        return { ok: false, reason: 'scheme' };
+    }
+    if (url.username || url.password) {
+        return { ok: false, reason: 'credentials' };
+    }
+
+    const hostname = url.hostname.replace(/\.$/, '');
+    if (!hostname) {
+        return { ok: false, reason: 'invalid' };
+    }
+    if (policy.blocklist.some(domain => matchesDomain(hostname, domain))) {
+        return { ok: false, reason: 'blocked-domain', hostname };
+    }
+    const allowlisted = policy.allowlist.some(domain => matchesDomain(hostname, domain));
+    if (policy.allowlist.length > 0 && !allowlisted) {
+        return { ok: false, reason: 'not-allowed-domain', hostname };
+    }
+    if (!policy.allowMixedScripts && !allowlisted && hostname.split('.').some(isMixedScriptLabel)) {
+        return { ok: false, reason: 'mixed-script', hostname };
+    }
+
+    return { ok: true, url: url.href, hostname };
+};
+
+/** Returns a normalized URL safe to put in an `href`/`src`, or undefined. */
+export const toSafeUrl = (raw: string | undefined, policy?: UrlPolicy): string | undefined => {
+    if (!raw) return undefined;
+    const result = checkUrl(raw, policy);
+    return result.ok ? result.url : undefined;
+};
+
+/** Form helper: the message key of the error for a non-empty URL that fails the policy, else null. */
+export const urlFieldError = (raw: string | undefined, policy?: UrlPolicy): MessageKey | null => {
+    if (!raw || !raw.trim()) return null;
+    const result = checkUrl(raw, policy);
+    return result.ok ? null : `url.${result.reason}`;
+};
+
+/**
+ * Checks every URL a payload would load or link to and returns the first one
+ * that fails the policy. An empty optional URL (no profile image) is skipped.
+ */
+export const findUnsafePayloadUrl = (payload: LinkPayload, policy?: UrlPolicy): { url: string; reason: UrlRejectionReason } | null => {
+    const variants: CtaData[] = payload.type === 'single' ? [payload.data] : payload.variants.map(v => v.data);
+    const targetUrl = payload.type === 'single' ? payload.data.targetUrl : payload.targetUrl;
+    const fallback = payload.schedule?.fallback;
+    if (fallback?.type === 'alternate') variants.push(fallback.data);
+    const candidates = [targetUrl, fallback?.type === 'redirect' ? fallback.url : undefined, ...variants.flatMap(v => [
+        // Other actions are turned into fixed tel:, mailto:, wa.me and t.me links when rendered.
+        ...v.buttons.filter(b => b.action === 'url').map(b => b.target),
+        v.profileImageUrl,
+        v.heroImageUrl,
+        v.leadEndpoint,
+    ])];
+
+    for (const url of candidates) {
+        if (!url) continue;
+        const result = checkUrl(url, policy);
+        if (!result.ok) return { url, reason: result.reason };
+    }
+    return null;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CtaData } from '../types';
+import { CTA_STYLE_DEFAULTS } from './payloadSchema';
+import { applyUtm, parseUtm, tagVariantsWithUtmContent } from './utm';
+
+describe('parseUtm', () => {
+    it('reads UTM parameters into fields', () => {
+        expect(parseUtm('https://shop.example/?utm_source=vk&utm_campaign=spring&ref=1')).toMatchObject({
+            utm_source: 'vk',
+            utm_medium: '',
+            utm_campaign: 'spring',
+        });
+    });
+
+    it('returns null for URLs it cannot edit', () => {
+        expect(parseUtm('shop.example')).toBeNull();
+        expect(parseUtm('mailto:hi@shop.example')).toBeNull();
+    });
+});
+
+describe('applyUtm', () => {
+    it('sets and removes UTM parameters, keeping the rest of the URL', () => {
+        const url = applyUtm('https://shop.example/p?ref=1&utm_medium=old#top', { utm_source: 'telegram', utm_medium: '' });
+        expect(url).toBe('https://shop.example/p?ref=1&utm_source=telegram#top');
+    });
+
+    it('encodes values and leaves unparseable URLs alone', () => {
+        expect(applyUtm('https://shop.example/', { utm_content: 'Вариант A' })).toBe('https://shop.example/?utm_content=%D0%92%D0%B0%D1%80%D0%B8%D0%B0%D0%BD%D1%82+A');
+        expect(applyUtm('not a url', { utm_source: 'x' })).toBe('not a url');
+    });
+});
+
+describe('tagVariantsWithUtmContent', () => {
+    it('tags the link buttons of every variant with its name', () => {
+        const data: CtaData = {
+            ...CTA_STYLE_DEFAULTS,
+            message: 'Привет',
+            buttons: [
+                { id: 'buy', text: 'Купить', action: 'url', target: 'https://shop.example/?utm_source=vk', style: 'primary', color: '#1877f2' },
+                { id: 'call', text: 'Позвонить', action: 'tel', target: '+79001234567', style: 'secondary', color: '#1877f2' },
+            ],
+        };
+        const tagged = tagVariantsWithUtmContent([
+            { key: 'A', name: 'Скидка', weight: 1, data },
+            { key: 'B', name: '', weight: 1, data },
+        ]);
+        expect(tagged.map(v => new URL(v.data.buttons[0].target).searchParams.get('utm_content'))).toEqual(['Скидка', 'B']);
+        expect(tagged[0].data.buttons[1].target).toBe('+79001234567');
+        expect(data.buttons[0].target).toBe('https://shop.example/?utm_source=vk');
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * UTM parameters on the CTA's button URL: parsing them into fields, writing
+ * them back, saved presets, and per-variant `utm_content` tagging.
+ */
+import { AbVariant, UtmParam } from '../types';
+import { UTM_PARAMS } from './targeting';
+
+export type UtmFields = Record<UtmParam, string>;
+
+export interface UtmPreset {
+    id: string;
+    name: string;
+    fields: UtmFields;
+}
+
+const PRESETS_STORAGE_KEY = 'sniply.utmPresets';
+
+export const emptyUtmFields = (): UtmFields =>
+    Object.fromEntries(UTM_PARAMS.map(p => [p, ''])) as UtmFields;
+
+const parseHttpUrl = (url: string): URL | null => {
+    try {
+        const parsed = new URL(url.trim());
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+/** UTM fields of `url`, or null when it isn't an http(s) URL the builder can edit. */
+export const parseUtm = (url: string): UtmFields | null => {
+    const parsed = parseHttpUrl(url);
+    if (!parsed) return null;
+    const fields = emptyUtmFields();
+    for (const param of UTM_PARAMS) fields[param] = parsed.searchParams.get(param) ?? '';
+    return fields;
+};
+
+/**
+ * Writes the given UTM fields into `url`: non-blank values are set, blank ones
+ * removed. Other query parameters and the fragment are kept. Returns `url`
+ * unchanged if it can't be parsed.
+ */
+export const applyUtm = (url: string, fields: Partial<UtmFields>): string => {
+    const parsed = parseHttpUrl(url);
+    if (!parsed) return url;
+    for (const param of UTM_PARAMS) {
+        if (!(param in fields)) continue;
+        const value = fields[param];
+        if (value?.trim()) parsed.searchParams.set(param, value);
+        else parsed.searchParams.delete(param);
+    }
+    return parsed.toString();
+};
+
+/**
+ * Copies of the variants whose link buttons carry `utm_content=<variant name>`,
+ * so downstream analytics can tell variants apart.
+ */
+export const tagVariantsWithUtmContent = (variants: AbVariant[]): AbVariant[] =>
+    variants.map(v => ({
+        ...v,
+        data: {
+            ...v.data,
+            buttons: v.data.buttons.map(b => b.action === 'url' ? { ...b, target: applyUtm(b.target, { utm_content: v.name || v.key }) } : b),
+        },
+    }));
+
+// --- PRESETS ---
+
+export const loadUtmPresets = (): UtmPreset[] => {
+    try {
+        const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+        const presets = raw ? JSON.parse(raw) : [];
+        return Array.isArray(presets) ? presets : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveUtmPresets = (presets: UtmPreset[]) => {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (e) {
+        console.warn("Failed to save UTM presets:", e);
+    }
+};
@@ -0,0 +1,287 @@
+/**
+ * AI proxy: keeps the Gemini API key on the server.
+ *
+ * Implements the protocol the Gemini provider in lib/copyProviders.ts speaks.
+ * Run with `GEMINI_API_KEY=... npm run ai-proxy`, then start the app with
+ * AI_PROXY_ENDPOINT=http://localhost:8789.
+ *
+ *   POST /suggestions    body: { targetUrl, model, buttonDestination?, theme, tone, language,
+ *                                 maxMessageLength, count, design, positioned, pageSummary? }
+ *                                                    -> 200 { suggestions: [...] }
+ *   POST /extract        body: { url }               -> 200 { url, title?, description?, openGraph, headings, text }
+ *                                                    (see pageExtract.mjs; 403 for private addresses, 422 unreadable page)
+ *   Both: 413 body too large, 429 rate limited (Retry-After)
+ *
+ * The prompt is built here from those options (with lib/copyPrompt.mjs, as the
+ * app does for the other providers) rather than taken from the client, so the
+ * proxy only ever asks Gemini for CTA copy and can't be used as a
+ * general-purpose relay for the key.
+ * Requests are limited per client IP and endpoint, and answers are cached per
+ * target URL and request, so reopening the suggestions dialog doesn't cost
+ * another call.
+ * Without GEMINI_API_KEY (or with AI_PROXY_STUB=1) it answers with canned
+ * suggestions, for development without a key. The answer is checked by the
+ * app, not here.
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { GoogleGenAI, Type } from '@google/genai';
+import { ExtractError, extractPage } from './pageExtract.mjs';
+import { COPY_LANGUAGES, DESIGN_POSITIONS, TONE_INSTRUCTIONS, suggestionPrompt } from '../lib/copyPrompt.mjs';
+
+const PORT = Number(process.env.AI_PROXY_PORT || 8789);
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const STUB = process.env.AI_PROXY_STUB === '1' || !API_KEY;
+const MAX_BODY_BYTES = 32 * 1024;
+// PAGE_SUMMARY_LIMIT in lib/pageContent.ts.
+const MAX_PAGE_SUMMARY_LENGTH = 3000;
+const MAX_URL_LENGTH = 2048;
+const MAX_COUNT = 6;
+const MAX_MESSAGE_LENGTH = 280;
+const MODEL_PATTERN = /^gemini-[A-Za-z0-9.-]{1,60}$/;
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const RATE_LIMIT = Number(process.env.AI_PROXY_RATE_LIMIT || 10);
+const RATE_WINDOW_MS = 60 * 1000;
+const CACHE_TTL_MS = Number(process.env.AI_PROXY_CACHE_TTL_SECONDS || 3600) * 1000;
+const CACHE_LIMIT = 500;
+// Behind a reverse proxy every request comes from the proxy; trust its header only when told to.
+const TRUST_PROXY = process.env.AI_PROXY_TRUST_PROXY === '1';
+// Request paths are resolved against a fixed origin; the Host header is client-controlled.
+const BASE_URL = `http://localhost:${PORT}`;
+
+const ai = STUB ? null : new GoogleGenAI({ apiKey: API_KEY });
+
+/** `<endpoint> <client IP>` -> { windowStart, count } for the current fixed window. */
+const rateWindows = new Map();
+/** Cache key -> { expiresAt, value }; Map order doubles as insertion order for eviction. */
+const cache = new Map();
+
+const clientIp = req => {
+    const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+/** Milliseconds until the client may try again, or 0 when the request is allowed. */
+const rateLimitWait = client => {
+    const now = Date.now();
+    const window = rateWindows.get(client);
+    if (!window || now - window.windowStart >= RATE_WINDOW_MS) {
+        rateWindows.set(client, { windowStart: now, count: 1 });
+        return 0;
+    }
+    if (window.count >= RATE_LIMIT) return window.windowStart + RATE_WINDOW_MS - now;
+    window.count++;
+    return 0;
+};
+
+// Drop finished windows now and then so the table doesn't grow with every IP ever seen.
+setInterval(() => {
+    const now = Date.now();
+    for (const [client, window] of rateWindows) {
+        if (now - window.windowStart >= RATE_WINDOW_MS) rateWindows.delete(client);
+    }
+}, RATE_WINDOW_MS).unref();
+
+const suggestionsCacheKey = body => {
+    const request = crypto.createHash('sha256')
+        .update(JSON.stringify([
+            body.model, body.buttonDestination, body.theme, body.tone, body.language,
+            body.maxMessageLength, body.count, body.design, body.positioned, body.pageSummary,
+        ]))
+        .digest('base64url');
+    return `${body.targetUrl} ${request}`;
+};
+
+const cached = key => {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+        cache.delete(key);
+        return undefined;
+    }
+    return entry.value;
+};
+
+const remember = (key, value) => {
+    cache.delete(key);
+    cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, value });
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value);
+};
+
+const isHttpUrl = value => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+// Any scheme (mailto:, tel:, ...), but a single token, so it can't carry instructions of its own.
+const isButtonDestination = value => {
+    if (typeof value !== 'string' || value.length > MAX_URL_LENGTH || /\s/.test(value)) return false;
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const isValidSuggestionsBody = body =>
+    body && typeof body === 'object'
+    && typeof body.targetUrl === 'string' && body.targetUrl.length <= MAX_URL_LENGTH && isHttpUrl(body.targetUrl)
+    && (body.model === undefined || body.model === '' || (typeof body.model === 'string' && MODEL_PATTERN.test(body.model)))
+    && (body.buttonDestination === undefined || isButtonDestination(body.buttonDestination))
+    && (body.theme === 'light' || body.theme === 'dark')
+    && Object.hasOwn(TONE_INSTRUCTIONS, body.tone)
+    && COPY_LANGUAGES.some(l => l.code === body.language)
+    && Number.isInteger(body.maxMessageLength) && body.maxMessageLength >= 1 && body.maxMessageLength <= MAX_MESSAGE_LENGTH
+    && Number.isInteger(body.count) && body.count >= 1 && body.count <= MAX_COUNT
+    && typeof body.design === 'boolean'
+    && typeof body.positioned === 'boolean'
+    && (body.pageSummary === undefined || (typeof body.pageSummary === 'string' && body.pageSummary.length <= MAX_PAGE_SUMMARY_LENGTH));
+
+const responseSchema = ({ design, positioned }) => {
+    const suggestion = {
+        type: Type.OBJECT,
+        properties: {
+            message: { type: Type.STRING, description: 'The compelling CTA message text.' },
+            buttonText: { type: Type.STRING, description: 'The motivating button text.' },
+        },
+        required: ['message', 'buttonText'],
+    };
+    if (design) {
+        suggestion.properties.design = {
+            type: Type.OBJECT,
+            properties: {
+                bgColor: { type: Type.STRING, description: 'CTA background color, #rrggbb.' },
+                buttonColor: { type: Type.STRING, description: 'Button color, #rrggbb.' },
+                fontFamily: { type: Type.STRING, description: 'One of the fonts listed in the prompt, exactly as written.' },
+                ...(positioned ? { position: { type: Type.STRING, enum: DESIGN_POSITIONS } } : {}),
+            },
+            required: ['bgColor', 'buttonColor', 'fontFamily'],
+        };
+        suggestion.required.push('design');
+    }
+    return { type: Type.OBJECT, properties: { suggestions: { type: Type.ARRAY, items: suggestion } } };
+};
+
+const stubSuggestions = ({ targetUrl, count, design, positioned }) => {
+    const site = new URL(targetUrl).hostname.replace(/^www\./, '');
+    return {
+        suggestions: Array.from({ length: count }, (_, i) => ({
+            message: `Тестовое предложение ${i + 1} для ${site}`,
+            buttonText: 'Подробнее',
+            ...(design ? {
+                design: {
+                    bgColor: '#ffffff',
+                    buttonColor: '#1877f2',
+                    fontFamily: "'Inter', sans-serif",
+                    ...(positioned ? { position: DESIGN_POSITIONS[i % DESIGN_POSITIONS.length] } : {}),
+                },
+            } : {}),
+        })),
+    };
+};
+
+const generate = async body => {
+    if (STUB) return stubSuggestions(body);
+    const response = await ai.models.generateContent({
+        model: body.model || DEFAULT_MODEL,
+        contents: suggestionPrompt(body),
+        config: { responseMimeType: 'application/json', responseSchema: responseSchema(body) },
+    });
+    return JSON.parse(response.text);
+};
+
+const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Expose-Headers': 'Retry-After',
+        ...headers,
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+class BodyTooLargeError extends Error {}
+
+/** Answers from cache, else within the rate limit from `produce`; an ExtractError it throws carries the status to answer with. */
+const serve = async (req, res, endpoint, key, produce) => {
+    const hit = cached(key);
+    if (hit) return send(res, 200, hit, { 'X-Cache': 'hit' });
+
+    const wait = rateLimitWait(`${endpoint} ${clientIp(req)}`);
+    if (wait > 0) return send(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(wait / 1000)) });
+
+    let value;
+    try {
+        value = await produce();
+    } catch (e) {
+        if (e instanceof ExtractError) return send(res, e.status, { error: e.message });
+        console.error(`${endpoint} failed:`, e);
+        return send(res, 502, { error: 'Upstream request failed' });
+    }
+    remember(key, value);
+    send(res, 200, value, { 'X-Cache': 'miss' });
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new BodyTooLargeError('Body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const handle = async (req, res) => {
+    let url;
+    try {
+        url = new URL(req.url, BASE_URL);
+    } catch {
+        return send(res, 400, { error: 'Invalid URL' });
+    }
+
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (url.pathname !== '/suggestions' && url.pathname !== '/extract') return send(res, 404, { error: 'Not found' });
+    if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+    if (Number(req.headers['content-length'] || 0) > MAX_BODY_BYTES) return send(res, 413, { error: 'Body too large' });
+
+    let body;
+    try {
+        body = JSON.parse(await readBody(req));
+    } catch (e) {
+        if (e instanceof BodyTooLargeError) return send(res, 413, { error: 'Body too large' });
+        return send(res, 400, { error: 'Invalid JSON' });
+    }
+
+    if (url.pathname === '/extract') {
+        if (!body || typeof body.url !== 'string' || body.url.length > 2048 || !isHttpUrl(body.url)) return send(res, 400, { error: 'Invalid request' });
+        return serve(req, res, 'extract', `extract ${body.url}`, () => extractPage(body.url));
+    }
+
+    if (!isValidSuggestionsBody(body)) return send(res, 400, { error: 'Invalid request' });
+    return serve(req, res, 'suggestions', suggestionsCacheKey(body), () => generate(body));
+};
+
+const server = http.createServer((req, res) => {
+    handle(req, res).catch(e => {
+        console.error(`${req.method} ${req.url} failed:`, e);
+        if (res.headersSent) res.destroy();
+        else send(res, 500, { error: 'Internal error' });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`AI proxy listening on http://localhost:${PORT}${STUB ? ' (stub answers: GEMINI_API_KEY is not set or AI_PROXY_STUB=1)' : ''}`);
+});
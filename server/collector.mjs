@@ -0,0 +1,133 @@
+/**
+ * Stand-in analytics collector for local development.
+ *
+ * Implements the protocol HttpEventSink speaks (see lib/analytics.ts) and
+ * appends events to a JSON-lines file. Run with `npm run collector`, then
+ * start the app with ANALYTICS_ENDPOINT=http://localhost:8787.
+ *
+ * It also accepts lead form submissions (see lib/leads.ts) at POST /leads, so
+ * a lead form CTA can use http://localhost:8787/leads as its endpoint.
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.COLLECTOR_PORT || 8787);
+const DATA_FILE = process.env.COLLECTOR_DATA_FILE
+    || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'events.jsonl');
+const LEADS_FILE = path.join(path.dirname(DATA_FILE), 'leads.jsonl');
+const MAX_BODY_BYTES = 16 * 1024;
+const EVENT_TYPES = new Set(['impression', 'click', 'exposure']);
+// Request paths are resolved against a fixed origin; the Host header is client-controlled.
+const BASE_URL = `http://localhost:${PORT}`;
+
+fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+
+const readEvents = () => {
+    if (!fs.existsSync(DATA_FILE)) return [];
+    return fs.readFileSync(DATA_FILE, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .flatMap(line => {
+            try { return [JSON.parse(line)]; } catch { return []; }
+        });
+};
+
+const isValidEvent = e =>
+    e && typeof e === 'object'
+    && typeof e.id === 'string'
+    && EVENT_TYPES.has(e.type)
+    && typeof e.linkId === 'string'
+    && Number.isFinite(e.timestamp);
+
+const isValidLead = l =>
+    l && typeof l === 'object'
+    && typeof l.email === 'string' && l.email.includes('@')
+    && typeof l.linkId === 'string'
+    && Number.isFinite(l.submittedAt);
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const handle = async (req, res) => {
+    let url;
+    try {
+        url = new URL(req.url, BASE_URL);
+    } catch {
+        return send(res, 400, { error: 'Invalid URL' });
+    }
+
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    if (url.pathname === '/leads') {
+        if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+        let lead;
+        try {
+            lead = JSON.parse(await readBody(req));
+        } catch {
+            return send(res, 400, { error: 'Invalid JSON' });
+        }
+        if (!isValidLead(lead)) return send(res, 400, { error: 'Invalid lead' });
+        fs.appendFileSync(LEADS_FILE, JSON.stringify(lead) + '\n');
+        return send(res, 204);
+    }
+
+    if (url.pathname !== '/events') return send(res, 404, { error: 'Not found' });
+
+    if (req.method === 'POST') {
+        let event;
+        try {
+            event = JSON.parse(await readBody(req));
+        } catch {
+            return send(res, 400, { error: 'Invalid JSON' });
+        }
+        if (!isValidEvent(event)) return send(res, 400, { error: 'Invalid event' });
+        fs.appendFileSync(DATA_FILE, JSON.stringify(event) + '\n');
+        return send(res, 204);
+    }
+
+    if (req.method === 'GET') {
+        const linkId = url.searchParams.get('linkId');
+        const since = Number(url.searchParams.get('since') || 0);
+        const events = readEvents().filter(e => (!linkId || e.linkId === linkId) && e.timestamp >= since);
+        return send(res, 200, events);
+    }
+
+    send(res, 405, { error: 'Method not allowed' });
+};
+
+const server = http.createServer((req, res) => {
+    handle(req, res).catch(e => {
+        console.error(`${req.method} ${req.url} failed:`, e);
+        if (res.headersSent) res.destroy();
+        else send(res, 500, { error: 'Internal error' });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Analytics collector listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
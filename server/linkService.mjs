@@ -0,0 +1,171 @@
+/**
+ * Stand-in short link service for local development.
+ *
+ * Implements the protocol lib/linkService.ts speaks and keeps every link in
+ * one JSON file. Run with `npm run link-service`, then start the app with
+ * LINK_SERVICE_ENDPOINT=http://localhost:8788.
+ *
+ *   POST /links          body: { version, payload }        -> 201 { slug, editToken }
+ *   GET  /links/:slug                                      -> 200 { slug, version, payload, updatedAt }
+ *   PUT  /links/:slug    body: { version, payload }, Authorization: Bearer <editToken>
+ *                                                          -> 200 { slug, updatedAt }
+ *
+ * Payloads are stored as-is; the app validates them when a link is opened.
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.LINK_SERVICE_PORT || 8788);
+const DATA_FILE = process.env.LINK_SERVICE_DATA_FILE
+    || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'links.json');
+const MAX_BODY_BYTES = 64 * 1024;
+const SLUG_LENGTH = 7;
+const SLUG_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SLUG_PATTERN = /^[A-Za-z0-9]{1,32}$/;
+// Request paths are resolved against a fixed origin; the Host header is client-controlled.
+const BASE_URL = `http://localhost:${PORT}`;
+
+fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+
+// A Map rather than a plain object, so slugs like `constructor` can't resolve to Object.prototype members.
+const readLinks = () => {
+    if (!fs.existsSync(DATA_FILE)) return new Map();
+    try {
+        return new Map(Object.entries(JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'))));
+    } catch {
+        console.error(`Could not parse ${DATA_FILE}; starting with an empty link table.`);
+        return new Map();
+    }
+};
+
+const links = readLinks();
+
+// Write to a temp file and rename so a crash never leaves a half-written table.
+const persist = () => {
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(links), null, 2));
+    fs.renameSync(tmp, DATA_FILE);
+};
+
+const newSlug = () => {
+    for (;;) {
+        const bytes = crypto.randomBytes(SLUG_LENGTH);
+        const slug = Array.from(bytes, b => SLUG_ALPHABET[b % SLUG_ALPHABET.length]).join('');
+        if (!links.has(slug)) return slug;
+    }
+};
+
+const isValidBody = body =>
+    body && typeof body === 'object'
+    && Number.isInteger(body.version) && body.version >= 0
+    && body.payload && typeof body.payload === 'object'
+    && (body.payload.type === 'single' || body.payload.type === 'ab');
+
+// Constant-time comparison so the edit token can't be guessed byte by byte.
+const tokenMatches = (link, header) => {
+    const match = /^Bearer (.+)$/.exec(header || '');
+    if (!match || typeof link.editToken !== 'string') return false;
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(link.editToken);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const readJson = async req => {
+    try {
+        return JSON.parse(await readBody(req));
+    } catch {
+        return undefined;
+    }
+};
+
+const handle = async (req, res) => {
+    let url;
+    try {
+        url = new URL(req.url, BASE_URL);
+    } catch {
+        return send(res, 400, { error: 'Invalid URL' });
+    }
+
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    if (url.pathname === '/links') {
+        if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+        const body = await readJson(req);
+        if (!isValidBody(body)) return send(res, 400, { error: 'Invalid link' });
+        const now = Date.now();
+        const link = {
+            slug: newSlug(),
+            editToken: crypto.randomBytes(24).toString('base64url'),
+            version: body.version,
+            payload: body.payload,
+            createdAt: now,
+            updatedAt: now,
+        };
+        links.set(link.slug, link);
+        persist();
+        return send(res, 201, { slug: link.slug, editToken: link.editToken });
+    }
+
+    const match = /^\/links\/([^/]+)$/.exec(url.pathname);
+    if (!match || !SLUG_PATTERN.test(match[1])) return send(res, 404, { error: 'Not found' });
+    const link = links.get(match[1]);
+    if (!link) return send(res, 404, { error: 'Not found' });
+
+    if (req.method === 'GET') {
+        const { slug, version, payload, updatedAt } = link;
+        return send(res, 200, { slug, version, payload, updatedAt });
+    }
+
+    if (req.method === 'PUT') {
+        if (!tokenMatches(link, req.headers.authorization)) return send(res, 403, { error: 'Invalid edit token' });
+        const body = await readJson(req);
+        if (!isValidBody(body)) return send(res, 400, { error: 'Invalid link' });
+        Object.assign(link, { version: body.version, payload: body.payload, updatedAt: Date.now() });
+        persist();
+        return send(res, 200, { slug: link.slug, updatedAt: link.updatedAt });
+    }
+
+    send(res, 405, { error: 'Method not allowed' });
+};
+
+// A failing request answers 500 instead of taking the whole service down.
+const server = http.createServer((req, res) => {
+    handle(req, res).catch(e => {
+        console.error(`${req.method} ${req.url} failed:`, e);
+        if (res.headersSent) res.destroy();
+        else send(res, 500, { error: 'Internal error' });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Link service listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
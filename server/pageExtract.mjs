@@ -0,0 +1,187 @@
+/**
+ * Reads a public web page and pulls out what AI copy should be based on:
+ * title, meta description, Open Graph tags, headings and the main text.
+ * Used by the AI proxy's POST /extract. Regex-based on purpose: pages only
+ * need to be skimmed, and the proxy has no dependencies beyond the Gemini SDK.
+ */
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_HEADINGS = 20;
+const MAX_FIELD_LENGTH = 300;
+const MAX_TEXT_LENGTH = 8000;
+const OPEN_GRAPH_TAGS = ['og:title', 'og:description', 'og:site_name', 'og:type'];
+// For trying pages served on this machine during development.
+const ALLOW_PRIVATE = process.env.AI_PROXY_ALLOW_PRIVATE === '1';
+
+export class ExtractError extends Error {
+    /** `status` is what the proxy answers with. */
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// The proxy runs next to other services; never let it be pointed at them.
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+]) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// `::/96` covers `::`, `::1` and IPv4-compatible addresses; IPv4-mapped ones (`::ffff:7f00:1`) are checked against the IPv4 ranges.
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = address => {
+    const family = net.isIP(address);
+    return family === 0 || PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * `lookup` for page requests: refuses hosts that resolve to a private address,
+ * so the address that was checked is the one connected to.
+ */
+const publicLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (!ALLOW_PRIVATE && addresses.some(a => isPrivateAddress(a.address))) {
+            return callback(new ExtractError(403, 'Private addresses are not allowed'));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const assertPublicUrl = url => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new ExtractError(400, 'Only http(s) pages can be read');
+    // IP literals are connected to without a lookup, so they are checked here.
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (!ALLOW_PRIVATE && net.isIP(host) && isPrivateAddress(host)) throw new ExtractError(403, 'Private addresses are not allowed');
+};
+
+const request = url => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, {
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: { 'User-Agent': 'SniplyPageReader/1.0', Accept: 'text/html' },
+    }, resolve).on('error', reject);
+});
+
+const readLimited = async response => {
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of response) {
+        size += chunk.length;
+        // A cut-off page still has its head and first screens, which is all that's needed.
+        if (size > MAX_PAGE_BYTES) break;
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const fetchPage = async startUrl => {
+    let url = new URL(startUrl);
+    for (let redirects = 0; ; redirects++) {
+        assertPublicUrl(url);
+        let response;
+        try {
+            response = await request(url);
+        } catch (e) {
+            if (e instanceof ExtractError) throw e;
+            if (e.code === 'ENOTFOUND') throw new ExtractError(422, 'Host not found');
+            throw new ExtractError(504, 'Page could not be fetched');
+        }
+        const { statusCode: status, headers } = response;
+        if (status >= 300 && status < 400 && headers.location) {
+            response.resume();
+            if (redirects >= MAX_REDIRECTS) throw new ExtractError(422, 'Too many redirects');
+            url = new URL(headers.location, url);
+            continue;
+        }
+        if (status < 200 || status >= 300) {
+            response.resume();
+            throw new ExtractError(422, `Page returned ${status}`);
+        }
+        if (!(headers['content-type'] || '').includes('html')) {
+            response.resume();
+            throw new ExtractError(422, 'Not an HTML page');
+        }
+        try {
+            return { url: url.toString(), html: await readLimited(response) };
+        } catch {
+            throw new ExtractError(504, 'Page could not be fetched');
+        }
+    }
+};
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', laquo: '«', raquo: '»', mdash: '—', ndash: '–', hellip: '…' };
+
+const decodeEntities = text => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const clean = (text, maxLength = MAX_FIELD_LENGTH) =>
+    decodeEntities(text.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim().slice(0, maxLength);
+
+const attribute = (tag, name) => {
+    const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+    return match ? match[2] ?? match[3] ?? match[4] : undefined;
+};
+
+const metaTags = html => (html.match(/<meta\b[^>]*>/gi) || []).map(tag => ({
+    key: (attribute(tag, 'property') || attribute(tag, 'name') || '').toLowerCase(),
+    content: attribute(tag, 'content') || '',
+}));
+
+/** Body text without scripts, styles, navigation and other page chrome; `<main>` or `<article>` when there is one. */
+const mainText = html => {
+    const body = /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(html)?.[1]
+        ?? /<article\b[^>]*>([\s\S]*?)<\/article>/i.exec(html)?.[1]
+        ?? /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1]
+        ?? html;
+    const stripped = body
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<(script|style|noscript|svg|template|iframe|nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, ' ');
+    return clean(stripped, MAX_TEXT_LENGTH);
+};
+
+export const extractPage = async targetUrl => {
+    const { url, html } = await fetchPage(targetUrl);
+    const head = /<head\b[^>]*>([\s\S]*?)<\/head>/i.exec(html)?.[1] ?? html;
+    const meta = metaTags(head);
+    const metaContent = key => {
+        const value = meta.find(m => m.key === key)?.content;
+        return value ? clean(value) : undefined;
+    };
+    const openGraph = {};
+    for (const key of OPEN_GRAPH_TAGS) {
+        const value = metaContent(key);
+        if (value) openGraph[key.slice('og:'.length)] = value;
+    }
+    const headings = [...html.matchAll(/<h([1-3])\b[^>]*>([\s\S]*?)<\/h\1>/gi)]
+        .map(match => clean(match[2]))
+        .filter(Boolean)
+        .slice(0, MAX_HEADINGS);
+    const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+    return {
+        url,
+        ...(title && clean(title) ? { title: clean(title) } : {}),
+        ...(metaContent('description') ? { description: metaContent('description') } : {}),
+        openGraph,
+        headings,
+        text: mainText(html),
+    };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractError, extractPage, isPrivateAddress } from './pageExtract.mjs';
+
+const refusal = (url: string) => extractPage(url).then(
+    () => { throw new Error('expected the page to be refused'); },
+    (e: unknown) => {
+        expect(e).toBeInstanceOf(ExtractError);
+        return (e as ExtractError).status;
+    },
+);
+
+describe('isPrivateAddress', () => {
+    it('flags loopback, private, link-local and unspecified addresses', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::', '::1', 'fd00::1', 'fe80::1']) {
+            expect(isPrivateAddress(address)).toBe(true);
+        }
+    });
+
+    it('flags IPv4-mapped and IPv4-compatible IPv6 forms of private addresses', () => {
+        expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+        expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+        expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true);
+        expect(isPrivateAddress('::7f00:1')).toBe(true);
+    });
+
+    it('lets public addresses through', () => {
+        for (const address of ['93.184.215.14', '8.8.8.8', '::ffff:808:808', '2606:4700:4700::1111']) {
+            expect(isPrivateAddress(address)).toBe(false);
+        }
+    });
+});
+
+describe('extractPage', () => {
+    it('refuses private IP literals, including the hex form URL parsing gives mapped addresses', async () => {
+        expect(await refusal('http://[::ffff:127.0.0.1]/')).toBe(403);
+        expect(await refusal('http://[::ffff:7f00:1]/')).toBe(403);
+        expect(await refusal('http://[::1]/')).toBe(403);
+        expect(await refusal('http://0.0.0.0/')).toBe(403);
+    });
+
+    it('refuses host names that resolve to a private address when connecting', async () => {
+        expect(await refusal('http://localhost:9/')).toBe(403);
+    });
+
+    it('only reads http(s) pages', async () => {
+        expect(await refusal('file:///etc/passwd')).toBe(400);
+    });
+});
@@ -0,0 +1,154 @@
+/** Visual format of the CTA; each has its own renderer and editor fields. */
+export type CtaLayout = 'classic' | 'top-bar' | 'modal' | 'card' | 'lead-form';
+
+/** The corner, edge midpoint or center of the page a dragged CTA keeps its distance from. */
+export type CtaAnchor =
+    | 'top-left' | 'top' | 'top-right'
+    | 'left' | 'center' | 'right'
+    | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Where a dragged CTA sits. `x` and `y` are percentages of the page's width
+ * and height: from the anchored edge to the CTA's nearest edge, or from the
+ * page's center to the CTA's center (signed) on a centered axis.
+ */
+export interface CtaPlacement {
+    anchor: CtaAnchor;
+    x: number;
+    y: number;
+}
+
+/** Style fields that can differ on tablets and phones. */
+export type CtaStyleOverride = Partial<Pick<CtaData, 'scale' | 'fontSize' | 'cornerRadius'>>;
+
+/** How the CTA enters the screen once it is shown. */
+export type CtaAnimation = 'slide' | 'fade' | 'bounce';
+
+/** What pressing a button does; everything but 'url' opens an app on the visitor's device. */
+export type CtaButtonAction = 'url' | 'tel' | 'mailto' | 'whatsapp' | 'telegram';
+
+export type CtaButtonStyle = 'primary' | 'secondary' | 'link';
+
+export interface CtaButton {
+    /** Stable within one CTA; click events record it so clicks can be told apart per button. */
+    id: string;
+    text: string;
+    action: CtaButtonAction;
+    /** A URL, phone number, email address or Telegram username, depending on `action`. */
+    target: string;
+    style: CtaButtonStyle;
+    color: string;
+}
+
+export interface CtaData {
+    message: string;
+    /** Rendered in order; the first one is the main action (and the lead form's submit button). */
+    buttons: CtaButton[];
+    position: 'bottom-left' | 'bottom-right' | 'bottom-banner' | 'custom';
+    theme: 'light' | 'dark';
+    bgColor: string;
+    profileImageUrl?: string;
+    // New Canva-like features
+    fontFamily: string;
+    fontSize: number;
+    scale: number;
+    cornerRadius: number;
+    /** Used when `position` is 'custom'. */
+    customPosition?: CtaPlacement;
+    /** Replaces the base style on smaller screens, e.g. a smaller scale on phones. */
+    deviceOverrides?: Partial<Record<OverrideDevice, CtaStyleOverride>>;
+    /** Missing means 'classic': avatar, message and one button. */
+    layout?: CtaLayout;
+    /** Heading of the modal and card layouts. */
+    title?: string;
+    /** Large image at the top of the card layout. */
+    heroImageUrl?: string;
+    /** Lead form: URL the visitor's email is POSTed to. */
+    leadEndpoint?: string;
+    /** Lead form: shown in place of the form once it is sent. */
+    successMessage?: string;
+    /** Shows a close button; a visitor who closes the CTA doesn't see it on that link again. */
+    dismissible?: boolean;
+    /** Seconds after the page opens before the CTA appears. */
+    showDelay?: number;
+    /** Holds the CTA back until the pointer leaves the page through its top edge. */
+    showOnExitIntent?: boolean;
+    animation?: CtaAnimation;
+}
+
+export interface AbVariant {
+    /** Stable identifier used for assignment and analytics; never changes on rename. */
+    key: string;
+    name: string;
+    /** Relative share of traffic; weights are normalized across variants. */
+    weight: number;
+    data: CtaData;
+}
+
+/** What the viewer shows when the target page refuses to be framed. */
+export type FramingFallback = 'interstitial' | 'preview-card' | 'new-tab-bar';
+
+/** What a link shows outside its schedule or once its impression cap is reached. */
+export type ScheduleFallback =
+    | { type: 'plain' }
+    | { type: 'alternate'; data: CtaData }
+    | { type: 'redirect'; url: string };
+
+export interface LinkSchedule {
+    /** Epoch ms; the CTA is shown from this moment on. */
+    activeFrom?: number;
+    /** Epoch ms; the CTA stops being shown at this moment. */
+    expiresAt?: number;
+    maxImpressions?: number;
+    fallback: ScheduleFallback;
+}
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+/** Devices a CTA's style can be adjusted for; desktop always uses the base style. */
+export type OverrideDevice = Exclude<DeviceType, 'desktop'>;
+
+export type UtmParam = 'utm_source' | 'utm_medium' | 'utm_campaign' | 'utm_term' | 'utm_content';
+
+/** One check against the visitor; a rule matches when all of its conditions do. */
+export type TargetingCondition =
+    | { type: 'device'; devices: DeviceType[] }
+    | { type: 'language'; languages: string[] }
+    | { type: 'referrer'; domains: string[] }
+    | { type: 'utm'; param: UtmParam; values: string[] }
+    /** Visitor's local time: hours [fromHour, toHour), wrapping past midnight; weekdays 0 = Sunday, empty = any. */
+    | { type: 'time'; fromHour: number; toHour: number; weekdays: number[] };
+
+export interface TargetingRule {
+    id: string;
+    conditions: TargetingCondition[];
+    /** Key of the A/B variant shown when the rule matches. */
+    variant: string;
+}
+
+/** Rule-based variant selection for A/B links; checked before weighted assignment. */
+export interface Targeting {
+    rules: TargetingRule[];
+    /** Variant for visitors no rule matches; when unset they are assigned by weight. */
+    defaultVariant?: string;
+}
+
+export type LinkPayload = 
+    | { type: 'single'; data: CtaData & { targetUrl: string }; fallback?: FramingFallback; schedule?: LinkSchedule }
+    | { type: 'ab'; targetUrl: string, variants: AbVariant[]; fallback?: FramingFallback; schedule?: LinkSchedule; targeting?: Targeting };
+
+/** Look proposed with the copy when the AI is asked for a full design. */
+export interface AIDesign {
+    bgColor: string;
+    /** Applied to every button. */
+    buttonColor: string;
+    fontFamily: string;
+    /** Only proposed for formats that can be placed. */
+    position?: Exclude<CtaData['position'], 'custom'>;
+}
+
+export interface AISuggestion {
+    message: string;
+    buttonText: string;
+    design?: AIDesign;
+}
@@ -7,8 +7,12 @@ export default defineConfig(({ mode }) => {
     return {
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The Gemini key stays on the AI proxy (server/aiProxy.mjs); never define it here.
+        'process.env.AI_PROXY_ENDPOINT': JSON.stringify(env.AI_PROXY_ENDPOINT || ''),
+        'process.env.URL_BLOCKLIST': JSON.stringify(env.URL_BLOCKLIST || ''),
+        'process.env.URL_ALLOWLIST': JSON.stringify(env.URL_ALLOWLIST || ''),
+        'process.env.ANALYTICS_ENDPOINT': JSON.stringify(env.ANALYTICS_ENDPOINT || ''),
+        'process.env.LINK_SERVICE_ENDPOINT': JSON.stringify(env.LINK_SERVICE_ENDPOINT || '')
       },
       resolve: {
         alias: {